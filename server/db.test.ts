@@ -0,0 +1,82 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import Database from 'better-sqlite3';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { openDatabase, ProfileDoc } from './db';
+
+// The schema as the first release created it, before any later migration.
+const V1_SCHEMA = `
+  CREATE TABLE exams (id TEXT PRIMARY KEY, data TEXT NOT NULL);
+  CREATE TABLE students (id TEXT PRIMARY KEY, exam_name TEXT NOT NULL, roll_no TEXT NOT NULL, data TEXT NOT NULL);
+  CREATE INDEX students_exam_roll ON students (exam_name, roll_no COLLATE NOCASE);
+  CREATE TABLE grading_schemes (id TEXT PRIMARY KEY, data TEXT NOT NULL);
+  CREATE TABLE users (id TEXT PRIMARY KEY, username TEXT NOT NULL UNIQUE, data TEXT NOT NULL);
+  CREATE TABLE settings (key TEXT PRIMARY KEY, data TEXT NOT NULL);
+  CREATE TABLE sessions (token TEXT PRIMARY KEY, user_id TEXT NOT NULL, expires_at INTEGER NOT NULL);
+`;
+
+let dir: string;
+let file: string;
+
+const userVersion = () => {
+  const db = new Database(file);
+  try { return db.pragma('user_version', { simple: true }); } finally { db.close(); }
+};
+
+beforeEach(() => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), 'eduresult-db-'));
+  file = path.join(dir, 'eduresult.db');
+});
+
+afterEach(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+describe('openDatabase', () => {
+  it('creates every table in a new database', () => {
+    const store = openDatabase(file);
+    store.put('reevaluations', { id: 'r1', examId: 'e1', studentId: 's1', status: 'pending' });
+    store.put('audit', { id: 'a1', at: '2024-01-01', entity: 'student', entityId: 's1', examId: 'e1' });
+    expect(store.findReevaluations('s1')).toHaveLength(1);
+    expect(store.list('trash')).toEqual([]);
+    expect(userVersion()).toBe(6);
+  });
+
+  it('upgrades a first-release database', () => {
+    const db = new Database(file);
+    db.exec(V1_SCHEMA);
+    db.pragma('user_version = 1');
+    const insertExam = db.prepare('INSERT INTO exams (id, data) VALUES (?, ?)');
+    insertExam.run('e1', JSON.stringify({ id: 'e1', name: 'Final' }));
+    insertExam.run('e2', JSON.stringify({ id: 'e2', name: 'Term 1', published: false }));
+    const insertStudent = db.prepare('INSERT INTO students (id, exam_name, roll_no, data) VALUES (?, ?, ?, ?)');
+    [
+      { id: 's1', examName: 'Final', rollNo: '1', name: 'Ann ', className: '5' },
+      { id: 's2', examName: 'Final', rollNo: '2', name: 'Ben', className: '5' },
+      { id: 's3', examName: 'Term 1', rollNo: '1', name: 'ann', className: '5' },
+    ].forEach(s => insertStudent.run(s.id, s.examName, s.rollNo, JSON.stringify({ ...s, marks: { math: 50 } })));
+    db.close();
+
+    const store = openDatabase(file);
+    expect(userVersion()).toBe(6);
+
+    const ann = store.findStudent('e1', '1')!;
+    expect(ann).toMatchObject({ id: 's1', examId: 'e1' });
+    expect(ann).not.toHaveProperty('examName');
+    expect(store.findStudentsByExam('e2').map(s => s.id)).toEqual(['s3']);
+
+    // Results with the same roll number and name share one registry entry.
+    const profiles = store.list<ProfileDoc>('profiles');
+    expect(profiles).toHaveLength(2);
+    expect(store.findStudentsByProfile(ann.profileId!).map(s => s.id).sort()).toEqual(['s1', 's3']);
+    expect(store.get<ProfileDoc>('profiles', ann.profileId!)).toMatchObject({ id: ann.profileId, name: 'Ann', rollNo: '1', className: '5' });
+
+    expect(store.get('exams', 'e1')).toMatchObject({ published: true });
+    expect(store.get('exams', 'e2')).toMatchObject({ published: false });
+  });
+
+  it('leaves an up-to-date database as it is', () => {
+    openDatabase(file).put('exams', { id: 'e1', name: 'Final', published: false });
+    expect(openDatabase(file).get('exams', 'e1')).toEqual({ id: 'e1', name: 'Final', published: false });
+    expect(userVersion()).toBe(6);
+  });
+});
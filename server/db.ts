@@ -0,0 +1,212 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import Database from 'better-sqlite3';
+
+export type Collection = 'exams' | 'students' | 'grading_schemes' | 'users' | 'profiles' | 'audit' | 'trash' | 'reevaluations';
+
+export interface Doc {
+  id: string;
+  [key: string]: unknown;
+}
+
+export interface StudentDoc extends Doc {
+  examId: string;
+  profileId?: string;
+  rollNo: string;
+  name: string;
+  className: string;
+  marks: Record<string, number>;
+  componentMarks?: Record<string, Record<string, number>>;
+  total: number;
+  maxTotal: number;
+  percentage: number;
+  grade: string;
+  status: 'Pass' | 'Fail' | 'Compartment';
+  remarks?: { status: 'draft' | 'approved' };
+}
+
+export interface ProfileDoc extends Doc {
+  name: string;
+  rollNo: string;
+  className: string;
+  section?: string;
+  dateOfBirth?: string;
+  accessPin?: string;
+  createdAt: string;
+}
+
+export interface AuditDoc extends Doc {
+  at: string;
+  entity: 'student' | 'exam';
+  entityId: string;
+  examId: string;
+}
+
+export interface TrashDoc extends Doc {
+  kind: 'student' | 'exam';
+  examId: string;
+}
+
+export interface ReevaluationDoc extends Doc {
+  examId: string;
+  studentId: string;
+  status: 'pending' | 'approved' | 'rejected';
+}
+
+export interface UserDoc extends Doc {
+  username: string;
+  role: 'super_admin' | 'teacher';
+  passwordHash: string;
+  salt: string;
+  assignedExamIds: string[];
+}
+
+// MIGRATIONS[n] upgrades a database at PRAGMA user_version n to n + 1.
+const MIGRATIONS: string[] = [
+  `
+    CREATE TABLE exams (id TEXT PRIMARY KEY, data TEXT NOT NULL);
+    CREATE TABLE students (id TEXT PRIMARY KEY, exam_name TEXT NOT NULL, roll_no TEXT NOT NULL, data TEXT NOT NULL);
+    CREATE INDEX students_exam_roll ON students (exam_name, roll_no COLLATE NOCASE);
+    CREATE TABLE grading_schemes (id TEXT PRIMARY KEY, data TEXT NOT NULL);
+    CREATE TABLE users (id TEXT PRIMARY KEY, username TEXT NOT NULL UNIQUE, data TEXT NOT NULL);
+    CREATE TABLE settings (key TEXT PRIMARY KEY, data TEXT NOT NULL);
+    CREATE TABLE sessions (token TEXT PRIMARY KEY, user_id TEXT NOT NULL, expires_at INTEGER NOT NULL);
+  `,
+  // v2: students reference exams by id instead of by name.
+  `
+    ALTER TABLE students ADD COLUMN exam_id TEXT NOT NULL DEFAULT '';
+    UPDATE students SET exam_id = COALESCE((SELECT e.id FROM exams e WHERE json_extract(e.data, '$.name') = students.exam_name), '');
+    UPDATE students SET data = json_remove(json_set(data, '$.examId', exam_id), '$.examName');
+    DROP INDEX students_exam_roll;
+    ALTER TABLE students DROP COLUMN exam_name;
+    CREATE INDEX students_exam_roll ON students (exam_id, roll_no COLLATE NOCASE);
+  `,
+  // v3: a student registry, seeded with one entry per distinct name and roll number.
+  `
+    CREATE TABLE profiles (id TEXT PRIMARY KEY, roll_no TEXT NOT NULL, data TEXT NOT NULL);
+    CREATE INDEX profiles_roll ON profiles (roll_no COLLATE NOCASE);
+    INSERT INTO profiles (id, roll_no, data)
+      SELECT lower(hex(randomblob(16))), roll_no, json_object(
+        'name', trim(json_extract(data, '$.name')),
+        'rollNo', roll_no,
+        'className', json_extract(data, '$.className'),
+        'createdAt', strftime('%Y-%m-%dT%H:%M:%fZ', 'now'))
+      FROM students GROUP BY lower(trim(json_extract(data, '$.name'))), lower(roll_no);
+    UPDATE profiles SET data = json_set(data, '$.id', id);
+    ALTER TABLE students ADD COLUMN profile_id TEXT NOT NULL DEFAULT '';
+    UPDATE students SET profile_id = COALESCE((SELECT p.id FROM profiles p
+      WHERE lower(p.roll_no) = lower(students.roll_no)
+        AND lower(json_extract(p.data, '$.name')) = lower(trim(json_extract(students.data, '$.name')))), '');
+    UPDATE students SET data = json_set(data, '$.profileId', profile_id);
+    CREATE INDEX students_profile ON students (profile_id);
+  `,
+  // v4: exams gain a published flag; existing exams were already public.
+  `
+    UPDATE exams SET data = json_set(data, '$.published', json('true')) WHERE json_extract(data, '$.published') IS NULL;
+  `,
+  // v5: an append-only audit log and a trash for deleted records and exam folders.
+  `
+    CREATE TABLE audit (id TEXT PRIMARY KEY, entity_id TEXT NOT NULL, at TEXT NOT NULL, data TEXT NOT NULL);
+    CREATE INDEX audit_entity ON audit (entity_id, at);
+    CREATE TABLE trash (id TEXT PRIMARY KEY, data TEXT NOT NULL);
+  `,
+  // v6: re-evaluation requests filed from the public result page.
+  `
+    CREATE TABLE reevaluations (id TEXT PRIMARY KEY, exam_id TEXT NOT NULL, student_id TEXT NOT NULL, data TEXT NOT NULL);
+    CREATE INDEX reevaluations_student ON reevaluations (student_id);
+  `,
+];
+
+// Columns kept alongside the JSON document so they can be indexed and queried.
+const COLUMNS: Record<Collection, (doc: Doc) => Record<string, unknown>> = {
+  exams: () => ({}),
+  students: doc => ({
+    exam_id: (doc as StudentDoc).examId,
+    profile_id: (doc as StudentDoc).profileId || '',
+    roll_no: String((doc as StudentDoc).rollNo).trim(),
+  }),
+  grading_schemes: () => ({}),
+  users: doc => ({ username: (doc as UserDoc).username }),
+  profiles: doc => ({ roll_no: String(doc.rollNo ?? '').trim() }),
+  audit: doc => ({ entity_id: (doc as AuditDoc).entityId, at: (doc as AuditDoc).at }),
+  trash: () => ({}),
+  reevaluations: doc => ({ exam_id: (doc as ReevaluationDoc).examId, student_id: (doc as ReevaluationDoc).studentId }),
+};
+
+export const openDatabase = (file: string) => {
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  const db = new Database(file);
+  db.pragma('journal_mode = WAL');
+
+  const current = db.pragma('user_version', { simple: true }) as number;
+  for (let version = current; version < MIGRATIONS.length; version++) {
+    db.transaction(() => {
+      db.exec(MIGRATIONS[version]);
+      db.pragma(`user_version = ${version + 1}`);
+    })();
+  }
+
+  const parse = <T>(row: { data: string } | undefined): T | undefined => row && JSON.parse(row.data);
+
+  return {
+    list: <T extends Doc>(collection: Collection): T[] =>
+      (db.prepare(`SELECT data FROM ${collection}`).all() as { data: string }[]).map(row => JSON.parse(row.data)),
+
+    get: <T extends Doc>(collection: Collection, id: string): T | undefined =>
+      parse<T>(db.prepare(`SELECT data FROM ${collection} WHERE id = ?`).get(id) as { data: string } | undefined),
+
+    put: (collection: Collection, doc: Doc) => {
+      const columns = { id: doc.id, ...COLUMNS[collection](doc), data: JSON.stringify(doc) };
+      const names = Object.keys(columns);
+      db.prepare(`INSERT OR REPLACE INTO ${collection} (${names.join(', ')}) VALUES (${names.map(n => `@${n}`).join(', ')})`).run(columns);
+    },
+
+    remove: (collection: Collection, id: string) => {
+      db.prepare(`DELETE FROM ${collection} WHERE id = ?`).run(id);
+    },
+
+    countUsers: (): number => (db.prepare('SELECT COUNT(*) AS n FROM users').get() as { n: number }).n,
+
+    findUserByUsername: (username: string): UserDoc | undefined =>
+      parse<UserDoc>(db.prepare('SELECT data FROM users WHERE username = ?').get(username) as { data: string } | undefined),
+
+    findStudent: (examId: string, rollNo: string): StudentDoc | undefined =>
+      parse<StudentDoc>(db.prepare('SELECT data FROM students WHERE exam_id = ? AND roll_no = ? COLLATE NOCASE')
+        .get(examId, rollNo.trim()) as { data: string } | undefined),
+
+    findStudentsByExam: (examId: string): StudentDoc[] =>
+      (db.prepare('SELECT data FROM students WHERE exam_id = ?').all(examId) as { data: string }[]).map(row => JSON.parse(row.data)),
+
+    findStudentsByProfile: (profileId: string): StudentDoc[] =>
+      (db.prepare('SELECT data FROM students WHERE profile_id = ?').all(profileId) as { data: string }[]).map(row => JSON.parse(row.data)),
+
+    findReevaluations: (studentId: string): ReevaluationDoc[] =>
+      (db.prepare('SELECT data FROM reevaluations WHERE student_id = ?').all(studentId) as { data: string }[]).map(row => JSON.parse(row.data)),
+
+    getSetting: <T>(key: string): T | undefined =>
+      parse<T>(db.prepare('SELECT data FROM settings WHERE key = ?').get(key) as { data: string } | undefined),
+
+    putSetting: (key: string, value: unknown) => {
+      db.prepare('INSERT OR REPLACE INTO settings (key, data) VALUES (?, ?)').run(key, JSON.stringify(value));
+    },
+
+    createSession: (token: string, userId: string, expiresAt: number) => {
+      db.prepare('DELETE FROM sessions WHERE expires_at <= ?').run(Date.now());
+      db.prepare('INSERT INTO sessions (token, user_id, expires_at) VALUES (?, ?, ?)').run(token, userId, expiresAt);
+    },
+
+    findSession: (token: string): { userId: string; expiresAt: number } | undefined =>
+      db.prepare('SELECT user_id AS userId, expires_at AS expiresAt FROM sessions WHERE token = ? AND expires_at > ?')
+        .get(token, Date.now()) as { userId: string; expiresAt: number } | undefined,
+
+    deleteSession: (token: string) => {
+      db.prepare('DELETE FROM sessions WHERE token = ?').run(token);
+    },
+
+    deleteUserSessions: (userId: string) => {
+      db.prepare('DELETE FROM sessions WHERE user_id = ?').run(userId);
+    },
+  };
+};
+
+export type Store = ReturnType<typeof openDatabase>;
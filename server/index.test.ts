@@ -0,0 +1,147 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { once } from 'node:events';
+import type { Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { openDatabase } from './db';
+import { processStudentData } from '../src/utils';
+import { computeVerificationCode } from '../src/verification';
+import { Exam, Student, Subject } from '../src/types';
+
+const SUBJECTS: Subject[] = [{ key: 'math', name: 'Math', maxMarks: 100 }];
+const FINAL = { id: 'e1', name: 'Final', published: true, createdAt: '2024-01-01T00:00:00.000Z', subjects: SUBJECTS };
+const TERM = { ...FINAL, id: 'e2', name: 'Term 1' };
+const DRAFT = { ...FINAL, id: 'e3', name: 'Term 2', published: false };
+
+const result = (id: string, examId: string, rollNo: string, profileId: string, math: number): Student =>
+  processStudentData({ id, examId, rollNo, profileId, name: `Student ${rollNo}`, className: '5', marks: { math } }, SUBJECTS);
+
+const ANN = result('s1', 'e1', '1', 'p1', 80);
+const STUDENTS = [ANN, result('s2', 'e1', '2', 'p2', 60), result('s3', 'e2', '1', 'p1', 70), result('s4', 'e3', '1', 'p1', 90)];
+
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'eduresult-server-'));
+let server: Server;
+let base: string;
+
+const lookup = async (body: Record<string, unknown>, pathname = '/api/results/lookup') => {
+  const res = await fetch(base + pathname, { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(body) });
+  return { status: res.status, body: await res.json() };
+};
+
+const staff = async (method: string, pathname: string, token: string, body?: unknown) => {
+  const res = await fetch(base + pathname, {
+    method,
+    headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${token}` },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+  return { status: res.status, body: res.status === 204 ? null : await res.json() };
+};
+
+beforeAll(async () => {
+  process.env.DATABASE_PATH = path.join(dir, 'eduresult.db');
+  process.env.SERVER_PORT = '0';
+  const store = openDatabase(process.env.DATABASE_PATH);
+  [FINAL, TERM, DRAFT].forEach(exam => store.put('exams', exam));
+  store.put('profiles', { id: 'p1', name: 'Student 1', rollNo: '1', className: '5', dateOfBirth: '2010-01-01', createdAt: FINAL.createdAt });
+  store.put('profiles', { id: 'p2', name: 'Student 2', rollNo: '2', className: '5', accessPin: '123456', createdAt: FINAL.createdAt });
+  STUDENTS.forEach(student => store.put('students', { ...student }));
+  ({ server } = await import('./index'));
+  if (!server.listening) await once(server, 'listening');
+  base = `http://localhost:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  server.close();
+  await once(server, 'close');
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+describe('result lookup', () => {
+  it('returns the result with its rank for a matching date of birth', async () => {
+    const res = await lookup({ exam: 'e1', roll: '1', dateOfBirth: '2010-01-01' });
+    expect(res.status).toBe(200);
+    expect(res.body).toMatchObject({ id: 's1', total: 80, rank: { exam: 1, examSize: 2 } });
+  });
+
+  it('accepts an access PIN or a verification code as the second factor', async () => {
+    expect((await lookup({ exam: 'e1', roll: '2', pin: ' 123456 ' })).status).toBe(200);
+    const code = await computeVerificationCode(ANN, FINAL as Exam);
+    expect((await lookup({ exam: 'e1', roll: '1', code: code.toLowerCase() })).status).toBe(200);
+  });
+
+  it('does not reveal results without a matching second factor', async () => {
+    expect((await lookup({ exam: 'e1', roll: '1' })).status).toBe(404);
+    expect((await lookup({ exam: 'e1', roll: '1', dateOfBirth: '2010-01-02' })).status).toBe(404);
+    expect((await lookup({ exam: 'e1', roll: '2', dateOfBirth: '2010-01-01' })).status).toBe(404);
+    expect((await lookup({ exam: 'e3', roll: '1', dateOfBirth: '2010-01-01' })).status).toBe(404);
+  });
+
+  it('lists the published results of the registered student after the same check', async () => {
+    expect((await lookup({ exam: 'e1', roll: '1' }, '/api/results/history')).status).toBe(404);
+    const res = await lookup({ exam: 'e1', roll: '1', dateOfBirth: '2010-01-01' }, '/api/results/history');
+    expect(res.status).toBe(200);
+    expect(res.body.map((s: Student) => s.id).sort()).toEqual(['s1', 's3']);
+  });
+});
+
+describe('lookup throttling', () => {
+  it('blocks a roll number after five failed attempts, even with the right answer', async () => {
+    for (let i = 0; i < 5; i++) expect((await lookup({ exam: 'e2', roll: '1', dateOfBirth: '2000-01-01' })).status).toBe(404);
+    const res = await lookup({ exam: 'e2', roll: '1', dateOfBirth: '2010-01-01' });
+    expect(res.status).toBe(429);
+    expect(res.body.error).toMatch(/Too many failed attempts/);
+  });
+
+  it('clears the count for a roll number after a successful lookup', async () => {
+    for (let round = 0; round < 2; round++) {
+      for (let i = 0; i < 3; i++) expect((await lookup({ exam: 'e1', roll: '2', pin: '000000' })).status).toBe(404);
+      expect((await lookup({ exam: 'e1', roll: '2', pin: '123456' })).status).toBe(200);
+    }
+  });
+
+  it('blocks a client that keeps failing across roll numbers', async () => {
+    let status = 404;
+    for (let i = 0; i < 20 && status === 404; i++) status = (await lookup({ exam: 'e1', roll: `x${i}`, dateOfBirth: '2000-01-01' })).status;
+    expect(status).toBe(429);
+    expect((await lookup({ exam: 'e1', roll: '1', dateOfBirth: '2010-01-01' })).status).toBe(429);
+  });
+});
+
+describe('staff writes', () => {
+  const MIDTERM = { ...FINAL, id: 'e4', name: 'Midterm' };
+  let token: string;
+
+  beforeAll(async () => {
+    const res = await lookup({ user: { id: 'u1', username: 'Admin', displayName: 'Admin', passwordHash: 'ab', salt: 'cd' } }, '/api/auth/setup');
+    token = res.body.token;
+    await staff('PUT', '/api/exams/e4', token, MIDTERM);
+  });
+
+  it('recomputes totals and grades from the marks', async () => {
+    const forged = { ...result('s5', 'e4', '5', 'p1', 30), total: 100, percentage: 100, grade: 'A+', status: 'Pass' };
+    const res = await staff('PUT', '/api/students/s5', token, forged);
+    expect(res.status).toBe(200);
+    expect(res.body).toMatchObject({ total: 30, percentage: 30, grade: 'F', status: 'Fail' });
+  });
+
+  it('re-grades the stored results when an exam changes', async () => {
+    await staff('PUT', '/api/exams/e4', token, { ...MIDTERM, subjects: [{ ...SUBJECTS[0], maxMarks: 40 }] });
+    const stored = (await staff('GET', '/api/students', token)).body.find((s: Student) => s.id === 's5');
+    expect(stored).toMatchObject({ total: 30, maxTotal: 40, percentage: 75, status: 'Pass' });
+  });
+
+  it('rejects records of the wrong shape', async () => {
+    expect((await staff('PUT', '/api/students/s6', token, ['s6'])).status).toBe(400);
+    expect((await staff('PUT', '/api/students/s6', token, { id: 's6', examId: 'e4', rollNo: 6 })).status).toBe(400);
+    expect((await staff('PUT', '/api/exams/e5', token, { id: 'e5', name: 'Quiz', subjects: [{ key: 'math' }] })).status).toBe(400);
+    expect((await staff('PUT', '/api/users/u2', token, { id: 'u2', username: 'kim', role: 'owner', assignedExamIds: [] })).status).toBe(400);
+  });
+
+  it('answers a malformed URL escape with 400', async () => {
+    const res = await staff('DELETE', '/api/students/%E0%A4%A', token);
+    expect(res.status).toBe(400);
+    expect(res.body.error).toBe('The URL is not valid.');
+  });
+});
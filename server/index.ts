@@ -0,0 +1,629 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import { createServer, IncomingMessage, ServerResponse } from 'node:http';
+import { createHash, pbkdf2Sync, randomBytes, randomUUID, timingSafeEqual } from 'node:crypto';
+import { Content, GenerateContentConfig, GoogleGenAI } from '@google/genai';
+import { openDatabase, AuditDoc, Collection, Doc, ProfileDoc, ReevaluationDoc, StudentDoc, TrashDoc, UserDoc } from './db';
+import { rankExamResults } from '../src/ranking';
+import { formatVerificationCode, verificationPayloads } from '../src/verification';
+import { GradingScheme, Student, Subject, TieBreakPolicy } from '../src/types';
+import { asRecord, BUILT_IN_GRADING_SCHEMES, DEFAULT_SUBJECTS, processStudentData, schemeFor } from '../src/utils';
+
+const PORT = Number(process.env.SERVER_PORT || 4000);
+const DATABASE_PATH = process.env.DATABASE_PATH || 'data/eduresult.db';
+const STATIC_DIR = path.resolve('dist');
+const MAX_BODY_BYTES = 25 * 1024 * 1024;
+// Same parameters as the browser, so a hash created by either side verifies on both.
+const PBKDF2_ITERATIONS = 100_000;
+const SESSION_TTL_MS = 8 * 60 * 60 * 1000;
+const DEFAULT_GEMINI_MODEL = 'gemini-3-flash-preview';
+// Failed result lookups allowed per record and per client address within the window.
+const LOOKUP_FAILURE_LIMITS = { record: 5, client: 20 };
+const LOOKUP_WINDOW_MS = 15 * 60 * 1000;
+// Counters kept at once; past this the oldest are dropped, so a flood of addresses cannot exhaust memory.
+const MAX_LOOKUP_COUNTERS = 100_000;
+const MAX_REEVALUATION_REASON = 1000;
+
+type Permission = 'manage_exams' | 'manage_users' | 'manage_settings' | 'edit_students';
+
+interface Context {
+  params: Record<string, string>;
+  query: URLSearchParams;
+  body: unknown;
+  token: string | null;
+  user: UserDoc | null;
+  ip: string;
+}
+
+type Handler = (ctx: Context) => unknown;
+
+class HttpError extends Error {
+  status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.name = 'HttpError';
+    this.status = status;
+  }
+}
+
+const store = openDatabase(DATABASE_PATH);
+
+// --- Auth ---
+
+const hashPassword = (password: string, salt: string): string =>
+  pbkdf2Sync(password, salt, PBKDF2_ITERATIONS, 32, 'sha256').toString('hex');
+
+const verifyPassword = (user: UserDoc, password: string): boolean => {
+  const expected = Buffer.from(user.passwordHash, 'hex');
+  const actual = Buffer.from(hashPassword(password, user.salt), 'hex');
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+};
+
+const publicUser = ({ passwordHash, salt, ...user }: UserDoc) => user;
+
+const hasPermission = (user: UserDoc | null, permission: Permission, examId?: string): boolean => {
+  if (!user) return false;
+  if (user.role === 'super_admin') return true;
+  return permission === 'edit_students' && !!examId && user.assignedExamIds.includes(examId);
+};
+
+const requirePermission = (user: UserDoc | null, permission: Permission, examId?: string) => {
+  if (!user) throw new HttpError(401, 'Sign in required.');
+  if (!hasPermission(user, permission, examId)) throw new HttpError(403, 'You do not have permission to do that.');
+};
+
+const startSession = (user: UserDoc) => {
+  const token = randomBytes(32).toString('hex');
+  const expiresAt = Date.now() + SESSION_TTL_MS;
+  store.createSession(token, user.id, expiresAt);
+  return { token, expiresAt: new Date(expiresAt).toISOString(), user: publicUser(user) };
+};
+
+// --- Public lookup ---
+
+interface ExamDoc extends Doc {
+  name: string;
+  subjects: Subject[];
+  gradingSchemeId?: string;
+  tieBreak?: TieBreakPolicy;
+  published?: boolean;
+  publishAt?: string;
+  publishedAt?: string;
+  createdAt: string;
+  reevaluationDays?: number;
+}
+
+const isExamPublished = (exam: ExamDoc | undefined): boolean =>
+  !!exam?.published && (!exam.publishAt || Date.parse(exam.publishAt) <= Date.now());
+
+// Hashed here synchronously, so a lookup is checked and throttled without yielding to other requests.
+const verificationCodeMatches = (student: StudentDoc, exam: ExamDoc, code: string): boolean => {
+  const entered = code.trim().toUpperCase();
+  return verificationPayloads(student, exam).some(payload => formatVerificationCode(createHash('sha256').update(payload).digest('hex')) === entered);
+};
+
+// Draft remarks stay with staff until they are approved, and the registry id is not shared with visitors.
+// Ranks are not stored, so they are worked out against the rest of the exam as in the browser.
+const publicResult = (result: StudentDoc): StudentDoc => {
+  const exam = store.get<ExamDoc>('exams', result.examId);
+  const ranked = exam ? rankExamResults(exam, store.findStudentsByExam(exam.id)).find(s => s.id === result.id) : undefined;
+  const { remarks, profileId, ...student } = ranked || result;
+  return remarks?.status === 'approved' ? { ...student, remarks } : student;
+};
+
+// Must match reevaluationDeadline in the browser.
+const reevaluationDeadline = (exam: ExamDoc): number | null =>
+  exam.reevaluationDays ? Date.parse(exam.publishAt || exam.publishedAt || exam.createdAt) + exam.reevaluationDays * 86_400_000 : null;
+
+// Totals, grades and status are worked out here as in the browser, so a stored result always matches its marks.
+const gradeResult = (student: StudentDoc, exam: ExamDoc): StudentDoc => {
+  const schemes = [...BUILT_IN_GRADING_SCHEMES, ...store.list<GradingScheme & Doc>('grading_schemes')];
+  const subjects = exam.subjects?.length ? exam.subjects : DEFAULT_SUBJECTS;
+  return processStudentData(student as Partial<Student>, subjects, schemeFor(exam, schemes)) as unknown as StudentDoc;
+};
+
+// Results saved before their exam are graded once it arrives; a changed exam or scheme re-grades its results.
+const regradeExam = (exam: ExamDoc) =>
+  store.findStudentsByExam(exam.id).forEach(student => store.put('students', gradeResult(student, exam)));
+
+// Students see the outcome of their requests, but not which staff member resolved them.
+const publicReevaluation = ({ resolvedBy, ...request }: ReevaluationDoc): ReevaluationDoc => request;
+
+const lookupFailures = new Map<string, { count: number; resetAt: number }>();
+
+const lookupFailureKeys = (ip: string, examId: string, rollNo: string): [string, number][] =>
+  [[`record:${examId}|${rollNo.trim().toLowerCase()}`, LOOKUP_FAILURE_LIMITS.record], [`client:${ip}`, LOOKUP_FAILURE_LIMITS.client]];
+
+const assertLookupAllowed = (keys: [string, number][]) => {
+  const now = Date.now();
+  keys.forEach(([key, limit]) => {
+    const entry = lookupFailures.get(key);
+    if (!entry || entry.resetAt <= now) { lookupFailures.delete(key); return; }
+    if (entry.count >= limit) {
+      throw new HttpError(429, `Too many failed attempts. Try again in ${Math.ceil((entry.resetAt - now) / 60_000)} minute(s).`);
+    }
+  });
+};
+
+const recordLookupFailure = (keys: [string, number][]) => keys.forEach(([key]) => {
+  const entry = lookupFailures.get(key);
+  lookupFailures.set(key, { count: (entry?.count || 0) + 1, resetAt: entry?.resetAt || Date.now() + LOOKUP_WINDOW_MS });
+  // Maps iterate in insertion order, so the first key is the oldest counter.
+  if (lookupFailures.size > MAX_LOOKUP_COUNTERS) lookupFailures.delete(lookupFailures.keys().next().value!);
+});
+
+// Expired counters are otherwise only dropped when the same key is tried again.
+setInterval(() => {
+  const now = Date.now();
+  lookupFailures.forEach((entry, key) => { if (entry.resetAt <= now) lookupFailures.delete(key); });
+}, LOOKUP_WINDOW_MS).unref();
+
+const superAdminCount = () => store.list<UserDoc>('users').filter(u => u.role === 'super_admin').length;
+
+// --- Routes ---
+
+const decodeParam = (value: string): string => {
+  try { return decodeURIComponent(value); } catch { throw new HttpError(400, 'The URL is not valid.'); }
+};
+
+const routes: { method: string; pattern: RegExp; keys: string[]; handler: Handler }[] = [];
+
+const route = (method: string, pathPattern: string, handler: Handler) => {
+  const keys: string[] = [];
+  const pattern = new RegExp('^' + pathPattern.replace(/:(\w+)/g, (_, key) => { keys.push(key); return '([^/]+)'; }) + '$');
+  routes.push({ method, pattern, keys, handler });
+};
+
+const checkExam = (doc: Doc) => {
+  if (typeof doc.name !== 'string' || !Array.isArray(doc.subjects) || doc.subjects.some(sub => {
+    const { key, name, maxMarks } = asRecord(sub);
+    return typeof key !== 'string' || typeof name !== 'string' || !isNumber(maxMarks) || maxMarks <= 0;
+  })) {
+    throw new HttpError(400, 'An exam needs a name and subjects with maximum marks.');
+  }
+};
+
+const checkGradingScheme = (doc: Doc) => {
+  if (!Array.isArray(doc.bands) || !doc.bands.length || doc.bands.some(band => {
+    const { grade, minPercentage, gradePoint } = asRecord(band);
+    return typeof grade !== 'string' || !isNumber(minPercentage) || !isNumber(gradePoint);
+  }) || ![doc.subjectPassPercentage, doc.overallPassPercentage, doc.compartmentLimit].every(isNumber)) {
+    throw new HttpError(400, 'A grading scheme needs grade bands and pass rules.');
+  }
+};
+
+// Collections that decide how results are graded; saving one re-grades the results that depend on it.
+const GRADING_COLLECTIONS: Record<string, { collection: Collection; permission: Permission; check: (doc: Doc) => void; dependents: (doc: Doc) => ExamDoc[] }> = {
+  exams: { collection: 'exams', permission: 'manage_exams', check: checkExam, dependents: doc => [doc as ExamDoc] },
+  'grading-schemes': {
+    collection: 'grading_schemes',
+    permission: 'manage_settings',
+    check: checkGradingScheme,
+    dependents: doc => store.list<ExamDoc>('exams').filter(exam => exam.gradingSchemeId === doc.id),
+  },
+};
+
+const requireDoc = (ctx: Context): Doc => {
+  const doc = asRecord(ctx.body);
+  if (typeof doc.id !== 'string' || doc.id !== ctx.params.id) {
+    throw new HttpError(400, 'The request body must be a record whose id matches the URL.');
+  }
+  return doc as Doc;
+};
+
+// Fields the server reads from a record before storing it, such as the exam its permissions depend on.
+const requireStrings = (doc: Doc, fields: string[], message: string) => {
+  if (fields.some(field => typeof doc[field] !== 'string')) throw new HttpError(400, message);
+};
+
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+route('GET', '/api/auth/status', () => ({ needsSetup: store.countUsers() === 0 }));
+
+route('POST', '/api/auth/setup', ctx => {
+  if (store.countUsers() > 0) throw new HttpError(409, 'An administrator already exists.');
+  const user = asRecord(asRecord(ctx.body).user);
+  if (['id', 'username', 'passwordHash', 'salt'].some(field => typeof user[field] !== 'string' || !user[field])) {
+    throw new HttpError(400, 'Incomplete account details.');
+  }
+  const admin = { ...user, username: String(user.username).trim().toLowerCase(), role: 'super_admin', assignedExamIds: [] } as UserDoc;
+  store.put('users', admin);
+  return startSession(admin);
+});
+
+route('POST', '/api/auth/login', ctx => {
+  const { username, password } = asRecord(ctx.body);
+  const user = typeof username === 'string' ? store.findUserByUsername(username.trim().toLowerCase()) : undefined;
+  if (!user || typeof password !== 'string' || !verifyPassword(user, password)) throw new HttpError(401, 'Unauthorized Credentials');
+  return startSession(user);
+});
+
+route('POST', '/api/auth/logout', ctx => {
+  if (ctx.token) store.deleteSession(ctx.token);
+  return null;
+});
+
+route('GET', '/api/auth/me', ctx => {
+  if (!ctx.user) throw new HttpError(401, 'Session expired.');
+  return { user: publicUser(ctx.user) };
+});
+
+// Needs a second factor: the student's date of birth or access PIN, or a marksheet's verification code.
+const verifyLookup = (ctx: Context): { exam: ExamDoc; student: StudentDoc } => {
+  const { exam: examId, roll, dateOfBirth, pin, code } = asRecord(ctx.body);
+  const rollNo = typeof roll === 'string' || typeof roll === 'number' ? String(roll) : '';
+  const keys = lookupFailureKeys(ctx.ip, typeof examId === 'string' ? examId : '', rollNo);
+  assertLookupAllowed(keys);
+  const exam = typeof examId === 'string' ? store.get<ExamDoc>('exams', examId) : undefined;
+  const student = isExamPublished(exam) ? store.findStudent(exam!.id, rollNo) : undefined;
+  const profile = student?.profileId ? store.get<ProfileDoc>('profiles', student.profileId) : undefined;
+  const matches = !!student && (
+    typeof code === 'string' && code ? verificationCodeMatches(student, exam!, code)
+    : typeof dateOfBirth === 'string' && dateOfBirth && profile?.dateOfBirth ? dateOfBirth === profile.dateOfBirth
+    : typeof pin === 'string' && pin && profile?.accessPin ? pin.trim() === profile.accessPin
+    : false
+  );
+  if (!matches) {
+    recordLookupFailure(keys);
+    throw new HttpError(404, 'Record not found.');
+  }
+  lookupFailures.delete(keys[0][0]);
+  return { exam: exam!, student };
+};
+
+route('POST', '/api/results/lookup', ctx => publicResult(verifyLookup(ctx).student));
+
+// Every published result registered to the looked-up student, for the progress view on a result page.
+route('POST', '/api/results/history', ctx => {
+  const { student } = verifyLookup(ctx);
+  const results = student.profileId ? store.findStudentsByProfile(student.profileId) : [student];
+  return results.filter(s => isExamPublished(store.get<ExamDoc>('exams', s.examId))).map(publicResult);
+});
+
+// Re-evaluation requests are filed and followed up with the same credentials as the result lookup.
+route('POST', '/api/reevaluations/lookup', ctx =>
+  store.findReevaluations(verifyLookup(ctx).student.id).map(publicReevaluation));
+
+route('POST', '/api/reevaluations', ctx => {
+  const { exam, student } = verifyLookup(ctx);
+  const deadline = reevaluationDeadline(exam);
+  if (deadline === null) throw new HttpError(403, 'This exam does not accept re-evaluation requests.');
+  if (deadline < Date.now()) throw new HttpError(403, `Re-evaluation requests closed on ${new Date(deadline).toISOString().slice(0, 10)}.`);
+  const body = asRecord(ctx.body);
+  const subjects: string[] = Array.isArray(body.subjects) ? [...new Set(body.subjects.filter((key): key is string => typeof key === 'string'))] : [];
+  const reason = typeof body.reason === 'string' ? body.reason.trim() : '';
+  if (!subjects.length || subjects.some(key => !Object.hasOwn(student.marks, key))) throw new HttpError(400, 'Choose at least one subject from this result.');
+  if (!reason || reason.length > MAX_REEVALUATION_REASON) throw new HttpError(400, `Give a reason of at most ${MAX_REEVALUATION_REASON} characters.`);
+  if (store.findReevaluations(student.id).some(r => r.status === 'pending')) {
+    throw new HttpError(409, 'A re-evaluation request for this result is already being reviewed.');
+  }
+  const request: ReevaluationDoc = {
+    id: randomUUID(),
+    studentId: student.id,
+    examId: student.examId,
+    studentName: student.name,
+    rollNo: student.rollNo,
+    subjects,
+    reason,
+    status: 'pending',
+    submittedAt: new Date().toISOString(),
+  };
+  store.put('reevaluations', request);
+  return publicReevaluation(request);
+});
+
+route('GET', '/api/reevaluations', ctx => {
+  if (!ctx.user) throw new HttpError(401, 'Sign in required.');
+  return store.list<ReevaluationDoc>('reevaluations').filter(r => hasPermission(ctx.user, 'edit_students', r.examId));
+});
+
+route('PUT', '/api/reevaluations/:id', ctx => {
+  const request = requireDoc(ctx) as ReevaluationDoc;
+  requireStrings(request, ['examId', 'studentId', 'status'], 'A re-evaluation request needs an exam, a result and a status.');
+  const existing = store.get<ReevaluationDoc>('reevaluations', request.id);
+  if (existing) requirePermission(ctx.user, 'edit_students', existing.examId);
+  requirePermission(ctx.user, 'edit_students', request.examId);
+  store.put('reevaluations', request);
+  return request;
+});
+
+route('DELETE', '/api/reevaluations/:id', ctx => {
+  const existing = store.get<ReevaluationDoc>('reevaluations', ctx.params.id);
+  if (!existing) return null;
+  requirePermission(ctx.user, 'edit_students', existing.examId);
+  store.remove('reevaluations', existing.id);
+  return null;
+});
+
+// Visitors only see published exams; staff also see drafts.
+route('GET', '/api/exams', ctx => ctx.user ? store.list('exams') : store.list<ExamDoc>('exams').filter(isExamPublished));
+route('GET', '/api/grading-schemes', () => store.list('grading_schemes'));
+route('GET', '/api/settings', () => store.getSetting('school') ?? null);
+
+route('PUT', '/api/settings', ctx => {
+  requirePermission(ctx.user, 'manage_settings');
+  const settings = asRecord(ctx.body);
+  if (['schoolName', 'address', 'signatoryName', 'signatoryTitle'].some(field => typeof settings[field] !== 'string')
+    || (settings.logoDataUrl !== undefined && typeof settings.logoDataUrl !== 'string')) {
+    throw new HttpError(400, 'The marksheet settings are incomplete.');
+  }
+  store.putSetting('school', settings);
+  return settings;
+});
+
+route('GET', '/api/students', ctx => {
+  if (!ctx.user) throw new HttpError(401, 'Sign in required.');
+  return store.list<StudentDoc>('students').filter(s => hasPermission(ctx.user, 'edit_students', s.examId));
+});
+
+route('PUT', '/api/students/:id', ctx => {
+  const doc = requireDoc(ctx);
+  requireStrings(doc, ['examId', 'rollNo', 'name', 'className'], 'A student needs an exam, a roll number, a name and a class.');
+  if (!doc.marks || typeof doc.marks !== 'object') throw new HttpError(400, 'A student needs marks.');
+  const existing = store.get<StudentDoc>('students', doc.id);
+  if (existing) requirePermission(ctx.user, 'edit_students', existing.examId);
+  requirePermission(ctx.user, 'edit_students', String(doc.examId));
+  const exam = store.get<ExamDoc>('exams', String(doc.examId));
+  const student = exam ? gradeResult(doc as StudentDoc, exam) : doc as StudentDoc;
+  const clash = store.findStudent(student.examId, student.rollNo);
+  if (clash && clash.id !== student.id) throw new HttpError(409, `Roll number ${student.rollNo} is already used in this exam.`);
+  store.put('students', student);
+  return student;
+});
+
+route('DELETE', '/api/students/:id', ctx => {
+  const existing = store.get<StudentDoc>('students', ctx.params.id);
+  if (!existing) return null;
+  requirePermission(ctx.user, 'edit_students', existing.examId);
+  store.remove('students', existing.id);
+  return null;
+});
+
+// Access PINs are lookup secrets: staff are told a student has one, but never see it again once issued.
+const publicProfile = ({ accessPin, ...profile }: ProfileDoc) => ({ ...profile, hasAccessPin: !!accessPin });
+
+const optionalString = (value: unknown, pattern: RegExp, message: string): string | undefined => {
+  if (value === undefined || value === null || value === '') return undefined;
+  if (typeof value !== 'string' || !pattern.test(value.trim())) throw new HttpError(400, message);
+  return value.trim();
+};
+
+// Keeps only the registry fields, so nothing else can be stored alongside a student's lookup secrets.
+const readProfile = (doc: Doc): ProfileDoc => {
+  const { id, name, rollNo, className, section, createdAt } = doc;
+  if (typeof name !== 'string' || !name.trim() || typeof rollNo !== 'string' || !rollNo.trim() || typeof className !== 'string') {
+    throw new HttpError(400, 'A registry entry needs a name, a roll number and a class.');
+  }
+  if (typeof createdAt !== 'string' || Number.isNaN(Date.parse(createdAt))) throw new HttpError(400, 'A registry entry needs a creation date.');
+  return {
+    id, name: name.trim(), rollNo: rollNo.trim(), className: className.trim(), createdAt,
+    section: optionalString(section, /^.{1,40}$/, 'The section is too long.'),
+    dateOfBirth: optionalString(doc.dateOfBirth, /^\d{4}-\d{2}-\d{2}$/, 'The date of birth must be a yyyy-mm-dd date.'),
+    accessPin: optionalString(doc.accessPin, /^[A-Za-z0-9]{4,32}$/, 'An access PIN is 4 to 32 letters or digits.'),
+  };
+};
+
+// The registry is shared by all staff: teachers enrol registered students into their own exams.
+route('GET', '/api/profiles', ctx => {
+  if (!ctx.user) throw new HttpError(401, 'Sign in required.');
+  return store.list<ProfileDoc>('profiles').map(publicProfile);
+});
+
+// Any staff member may register a new student. Existing entries hold lookup secrets, so teachers may only
+// change those with a result in one of their own exams.
+route('PUT', '/api/profiles/:id', ctx => {
+  if (!ctx.user) throw new HttpError(401, 'Sign in required.');
+  const profile = readProfile(requireDoc(ctx));
+  const existing = store.get<ProfileDoc>('profiles', profile.id);
+  if (existing && !hasPermission(ctx.user, 'manage_exams')
+    && !store.findStudentsByProfile(existing.id).some(s => hasPermission(ctx.user, 'edit_students', s.examId))) {
+    throw new HttpError(403, 'You can only edit students enrolled in your own exams.');
+  }
+  // A withheld PIN comes back as hasAccessPin and is kept unless a new one is given.
+  if (!profile.accessPin && asRecord(ctx.body).hasAccessPin === true && existing?.accessPin) profile.accessPin = existing.accessPin;
+  store.put('profiles', profile);
+  return publicProfile(profile);
+});
+
+route('DELETE', '/api/profiles/:id', ctx => {
+  requirePermission(ctx.user, 'manage_exams');
+  if (store.findStudentsByProfile(ctx.params.id).length) throw new HttpError(409, 'This student still has exam results.');
+  store.remove('profiles', ctx.params.id);
+  return null;
+});
+
+// Audit entries and trash items cover a student record or a whole exam folder, which need different permissions.
+const entryPermission = (entry: { kind?: string; entity?: string; examId: string }): [Permission, string?] =>
+  entry.kind === 'exam' || entry.entity === 'exam' ? ['manage_exams'] : ['edit_students', entry.examId];
+
+route('GET', '/api/audit', ctx => {
+  if (!ctx.user) throw new HttpError(401, 'Sign in required.');
+  return store.list<AuditDoc>('audit').filter(e => hasPermission(ctx.user, ...entryPermission(e)));
+});
+
+// The log is append-only: entries cannot be replaced or deleted, and the server records who made them.
+route('PUT', '/api/audit/:id', ctx => {
+  const entry = requireDoc(ctx) as AuditDoc;
+  requireStrings(entry, ['entity', 'entityId', 'examId'], 'An audit entry needs the record and exam it covers.');
+  requirePermission(ctx.user, ...entryPermission(entry));
+  if (store.get('audit', entry.id)) throw new HttpError(409, 'Audit entries cannot be changed.');
+  const stamped = { ...entry, at: new Date().toISOString(), userId: ctx.user!.id, userName: ctx.user!.displayName };
+  store.put('audit', stamped);
+  return stamped;
+});
+
+route('GET', '/api/trash', ctx => {
+  if (!ctx.user) throw new HttpError(401, 'Sign in required.');
+  return store.list<TrashDoc>('trash').filter(t => hasPermission(ctx.user, ...entryPermission(t)));
+});
+
+route('PUT', '/api/trash/:id', ctx => {
+  const item = requireDoc(ctx) as TrashDoc;
+  requireStrings(item, ['kind', 'examId'], 'A trash item needs its kind and exam.');
+  requirePermission(ctx.user, ...entryPermission(item));
+  store.put('trash', item);
+  return item;
+});
+
+// Restoring an item removes it from the trash, so anyone who may restore it may also remove it.
+route('DELETE', '/api/trash/:id', ctx => {
+  const existing = store.get<TrashDoc>('trash', ctx.params.id);
+  if (!existing) return null;
+  requirePermission(ctx.user, ...entryPermission(existing));
+  store.remove('trash', existing.id);
+  return null;
+});
+
+route('GET', '/api/users', ctx => {
+  if (!ctx.user) throw new HttpError(401, 'Sign in required.');
+  const users = hasPermission(ctx.user, 'manage_users') ? store.list<UserDoc>('users') : [ctx.user];
+  return users.map(publicUser);
+});
+
+route('PUT', '/api/users/:id', ctx => {
+  requirePermission(ctx.user, 'manage_users');
+  const incoming = requireDoc(ctx) as UserDoc;
+  if (!['super_admin', 'teacher'].includes(incoming.role) || !Array.isArray(incoming.assignedExamIds)
+    || incoming.assignedExamIds.some(id => typeof id !== 'string')
+    || [incoming.passwordHash, incoming.salt].some(value => value !== undefined && typeof value !== 'string')) {
+    throw new HttpError(400, 'A user needs a role and a list of assigned exams.');
+  }
+  const existing = store.get<UserDoc>('users', incoming.id);
+  const username = typeof incoming.username === 'string' ? incoming.username.trim().toLowerCase() : '';
+  const clash = store.findUserByUsername(username);
+  if (!username || (clash && clash.id !== incoming.id)) throw new HttpError(409, 'That username is already taken.');
+  if (existing?.role === 'super_admin' && incoming.role !== 'super_admin' && superAdminCount() === 1) {
+    throw new HttpError(409, 'At least one super-admin is required.');
+  }
+  // Listings never include password hashes, so an edit without a new password keeps the stored one.
+  const user: UserDoc = {
+    ...incoming,
+    username,
+    passwordHash: incoming.passwordHash || existing?.passwordHash || '',
+    salt: incoming.salt || existing?.salt || '',
+  };
+  if (!user.passwordHash) throw new HttpError(400, 'A new user needs a password.');
+  store.put('users', user);
+  if (existing && incoming.passwordHash) store.deleteUserSessions(user.id);
+  return publicUser(user);
+});
+
+route('DELETE', '/api/users/:id', ctx => {
+  requirePermission(ctx.user, 'manage_users');
+  const existing = store.get<UserDoc>('users', ctx.params.id);
+  if (!existing) return null;
+  if (existing.id === ctx.user!.id) throw new HttpError(409, 'You cannot delete your own account.');
+  if (existing.role === 'super_admin' && superAdminCount() === 1) throw new HttpError(409, 'At least one super-admin is required.');
+  store.remove('users', existing.id);
+  store.deleteUserSessions(existing.id);
+  return null;
+});
+
+Object.entries(GRADING_COLLECTIONS).forEach(([name, { collection, permission, check, dependents }]) => {
+  route('PUT', `/api/${name}/:id`, ctx => {
+    requirePermission(ctx.user, permission);
+    const doc = requireDoc(ctx);
+    check(doc);
+    store.put(collection, doc);
+    dependents(doc).forEach(regradeExam);
+    return doc;
+  });
+  route('DELETE', `/api/${name}/:id`, ctx => {
+    requirePermission(ctx.user, permission);
+    store.remove(collection, ctx.params.id);
+    return null;
+  });
+});
+
+// Gemini proxy: the browser builds the prompt, the server adds the key and picks the model.
+route('POST', '/api/ai/generate', async ctx => {
+  if (!ctx.user) throw new HttpError(401, 'Sign in required.');
+  const apiKey = process.env.GEMINI_API_KEY;
+  if (!apiKey) throw new HttpError(503, 'No Gemini API key is configured on the server.');
+  const { contents, config } = asRecord(ctx.body);
+  if (!Array.isArray(contents) || !contents.length) throw new HttpError(400, 'The request has no contents.');
+  const ai = new GoogleGenAI({ apiKey });
+  try {
+    const response = await ai.models.generateContent({
+      model: process.env.GEMINI_MODEL || DEFAULT_GEMINI_MODEL,
+      contents: contents as Content[],
+      config: asRecord(config) as GenerateContentConfig,
+    });
+    return { text: response.text };
+  } catch (error) {
+    console.error('Gemini request failed:', error);
+    throw new HttpError(502, 'The AI service could not be reached.');
+  }
+});
+
+// --- HTTP ---
+
+const readBody = (req: IncomingMessage): Promise<unknown> => new Promise((resolve, reject) => {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  req.on('data', (chunk: Buffer) => {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) { reject(new HttpError(413, 'Request body is too large.')); req.destroy(); return; }
+    chunks.push(chunk);
+  });
+  req.on('end', () => {
+    if (!chunks.length) { resolve(undefined); return; }
+    try { resolve(JSON.parse(Buffer.concat(chunks).toString('utf8'))); }
+    catch { reject(new HttpError(400, 'Request body is not valid JSON.')); }
+  });
+  req.on('error', reject);
+});
+
+const sendJson = (res: ServerResponse, status: number, body: unknown) => {
+  if (body === null || body === undefined) { res.writeHead(204).end(); return; }
+  res.writeHead(status, { 'Content-Type': 'application/json' }).end(JSON.stringify(body));
+};
+
+const STATIC_TYPES: Record<string, string> = {
+  '.html': 'text/html', '.js': 'text/javascript', '.mjs': 'text/javascript', '.css': 'text/css',
+  '.json': 'application/json', '.svg': 'image/svg+xml', '.png': 'image/png', '.ico': 'image/x-icon',
+  '.webmanifest': 'application/manifest+json', '.woff': 'font/woff', '.woff2': 'font/woff2',
+};
+
+// Serves a production build from dist/ so one process can host both the app and the API.
+const serveStatic = (pathname: string, res: ServerResponse) => {
+  const candidate = path.join(STATIC_DIR, path.normalize(pathname).replace(/^(\.\.[/\\])+/, ''));
+  const file = candidate.startsWith(STATIC_DIR) && fs.existsSync(candidate) && fs.statSync(candidate).isFile()
+    ? candidate
+    : path.join(STATIC_DIR, 'index.html');
+  if (!fs.existsSync(file)) { sendJson(res, 404, { error: 'Not found.' }); return; }
+  res.writeHead(200, { 'Content-Type': STATIC_TYPES[path.extname(file)] || 'application/octet-stream' });
+  fs.createReadStream(file).pipe(res);
+};
+
+// Exported so tests can start the API on a free port (SERVER_PORT=0) and stop it again.
+export const server = createServer(async (req, res) => {
+  const url = new URL(req.url || '/', 'http://localhost');
+  if (!url.pathname.startsWith('/api/')) { serveStatic(url.pathname, res); return; }
+
+  try {
+    const match = routes
+      .map(r => ({ r, m: r.method === req.method ? r.pattern.exec(url.pathname) : null }))
+      .find(x => x.m);
+    if (!match) throw new HttpError(404, 'Not found.');
+
+    const token = req.headers.authorization?.match(/^Bearer (\w+)$/)?.[1] || null;
+    const session = token ? store.findSession(token) : undefined;
+    const ctx: Context = {
+      params: Object.fromEntries(match.r.keys.map((k, i) => [k, decodeParam(match.m![i + 1])])),
+      query: url.searchParams,
+      body: ['POST', 'PUT'].includes(req.method || '') ? await readBody(req) : undefined,
+      token,
+      user: (session && store.get<UserDoc>('users', session.userId)) || null,
+      ip: req.socket.remoteAddress || '',
+    };
+    sendJson(res, 200, await match.r.handler(ctx));
+  } catch (error) {
+    if (error instanceof HttpError) { sendJson(res, error.status, { error: error.message }); return; }
+    console.error(error);
+    sendJson(res, 500, { error: 'Internal server error.' });
+  }
+});
+
+server.listen(PORT);
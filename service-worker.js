@@ -0,0 +1,30 @@
+// Built into dist/sw.js by the service-worker plugin in vite.config.ts, which fills in the
+// cache name and the list of built files.
+const CACHE = __CACHE_NAME__;
+const PRECACHE = __PRECACHE_FILES__;
+
+self.addEventListener('install', event => {
+  event.waitUntil(caches.open(CACHE).then(cache => cache.addAll(PRECACHE)).then(() => self.skipWaiting()));
+});
+
+// A new build gets a new cache name, so files from older builds are dropped here.
+self.addEventListener('activate', event => {
+  event.waitUntil(caches.keys()
+    .then(keys => Promise.all(keys.filter(key => key !== CACHE).map(key => caches.delete(key))))
+    .then(() => self.clients.claim()));
+});
+
+self.addEventListener('fetch', event => {
+  const { request } = event;
+  const url = new URL(request.url);
+  // API responses are never cached; the app queues offline scans itself.
+  if (request.method !== 'GET' || url.origin !== self.location.origin || url.pathname.startsWith('/api/')) return;
+
+  // Every route renders the same page, so an offline navigation falls back to the cached one.
+  if (request.mode === 'navigate') {
+    event.respondWith(fetch(request).catch(() => caches.match('/')));
+    return;
+  }
+
+  event.respondWith(caches.match(request).then(cached => cached || fetch(request)));
+});
@@ -0,0 +1,28 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { Subject } from './types';
+import { extractStudentDetailsFromImage, getExtractionProvider } from './ai';
+
+const SUBJECTS: Subject[] = [
+  { key: 'math', name: 'Math', maxMarks: 100 },
+  { key: 'art', name: 'Art', maxMarks: 50 },
+];
+
+afterEach(() => vi.unstubAllEnvs());
+
+describe('mock extraction provider', () => {
+  it('answers with one of the fixture sheets', async () => {
+    vi.stubEnv('EXTRACTION_PROVIDER', 'mock');
+    const sheet = await getExtractionProvider().extract({ image: 'c2hlZXQ=', mimeType: 'image/jpeg', subjects: SUBJECTS });
+    expect(sheet.name).not.toBe('');
+    expect(sheet.rollNo).toMatch(/^2024-/);
+    expect(Object.keys(sheet.marks)).toEqual(['math', 'art']);
+    expect(sheet.marks.art).toBeGreaterThanOrEqual(20);
+    expect(sheet.marks.art).toBeLessThanOrEqual(50);
+  });
+
+  it('picks the same fixture for the same image', async () => {
+    vi.stubEnv('EXTRACTION_PROVIDER', 'mock');
+    const [a, b] = await Promise.all([extractStudentDetailsFromImage('c2FtZQ==', SUBJECTS), extractStudentDetailsFromImage('c2FtZQ==', SUBJECTS)]);
+    expect(a).toEqual(b);
+  });
+});
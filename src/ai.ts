@@ -0,0 +1,279 @@
+import { GoogleGenAI, Type, GenerateContentParameters } from "@google/genai";
+import {
+  ComponentMarks,
+  ExtractedSheet,
+  ExtractionErrorCode,
+  ExtractionProvider,
+  Marks,
+  RemarkDraft,
+  RemarkRequest,
+  ScanQueueItem,
+  Subject,
+} from './types';
+import { asRecord, calculateGrade, componentBreakdown, componentField, hasComponents, passMarkFor, withComponentTotals } from './utils';
+import { API_BASE_URL, ApiError, apiRequest, DATA_MODE } from './api';
+import { templateRemarks } from './remarks';
+
+// Every provider failure surfaces as an ExtractionError whose message is safe to show staff.
+class ExtractionError extends Error {
+  code: ExtractionErrorCode;
+  provider: string;
+
+  constructor(code: ExtractionErrorCode, message: string, provider: string, options?: { cause?: unknown }) {
+    super(message, options);
+    this.name = 'ExtractionError';
+    this.code = code;
+    this.provider = provider;
+  }
+}
+
+const DEFAULT_GEMINI_MODEL = 'gemini-3-flash-preview';
+
+// Model output is only trusted for the numbers it gives; anything else is dropped.
+const numbersIn = (value: unknown): Record<string, number> =>
+  Object.fromEntries(Object.entries(asRecord(value)).filter((entry): entry is [string, number] => typeof entry[1] === 'number'));
+
+const normalizeExtractedSheet = (raw: unknown): ExtractedSheet => {
+  const sheet = asRecord(raw);
+  return {
+    name: String(sheet.name ?? ''),
+    rollNo: String(sheet.rollNo ?? ''),
+    className: String(sheet.className ?? ''),
+    examName: String(sheet.examName ?? ''),
+    marks: numbersIn(sheet.marks),
+    componentMarks: Object.fromEntries(Object.entries(asRecord(sheet.componentMarks))
+      .map(([key, parts]) => [key, numbersIn(parts)] as const)
+      .filter(([, parts]) => Object.keys(parts).length)),
+    confidence: numbersIn(sheet.confidence),
+  };
+};
+
+type GeminiRequest = Omit<GenerateContentParameters, 'model'>;
+type GeminiTransport = (request: GeminiRequest) => Promise<string | undefined>;
+
+const directGeminiTransport = (apiKey: string | undefined, model: string): GeminiTransport => async request => {
+  if (!apiKey) throw new ExtractionError('config', 'No Gemini API key is configured. Set GEMINI_API_KEY in .env.local.', 'gemini');
+  const ai = new GoogleGenAI({ apiKey });
+  return (await ai.models.generateContent({ model, ...request })).text;
+};
+
+// The API server adds its own key and model, so neither is built into the client bundle.
+const serverGeminiTransport = (baseUrl: string): GeminiTransport => async request => {
+  try {
+    return (await apiRequest<{ text?: string }>(baseUrl, '/ai/generate', { method: 'POST', body: request })).text;
+  } catch (error) {
+    if (error instanceof ApiError && error.status === 503) throw new ExtractionError('config', error.message, 'server', { cause: error });
+    throw error;
+  }
+};
+
+// Only marks and grades go into the prompt; the student's name and roll number are not sent.
+const remarkPrompt = ({ student, subjects, scheme }: RemarkRequest): string => {
+  const lines = subjects.filter(sub => student.marks[sub.key] !== undefined).map(sub => {
+    const mark = student.marks[sub.key];
+    const breakdown = componentBreakdown(sub, student);
+    return `- ${sub.key} (${sub.name}): ${mark} out of ${sub.maxMarks}${breakdown ? ` (${breakdown})` : ''}, grade ${calculateGrade(mark / sub.maxMarks * 100, scheme)}${mark < passMarkFor(sub, scheme) ? ', below the pass mark' : ''}`;
+  });
+  return `You are a teacher writing remarks for a student's marksheet. Overall: ${student.percentage}%, grade ${student.grade}, result ${student.status}. Subjects:\n${lines.join('\n')}\n\nReturn ONLY a JSON object with the following fields: overall (string - two or three specific, encouraging sentences about the whole result, naming what to work on next), subjects (object with one short sentence of feedback for each subject key listed above). Write in the third person without using a name, and do not invent anything the marks do not show.`;
+};
+
+const normalizeRemarkDraft = (raw: unknown, subjects: Subject[]): RemarkDraft => {
+  const draft = asRecord(raw);
+  const remarks = asRecord(draft.subjects);
+  return {
+    overall: String(draft.overall ?? '').trim(),
+    subjects: Object.fromEntries(subjects
+      .map(sub => [sub.key, String(remarks[sub.key] ?? '').trim()])
+      .filter(([, remark]) => remark)),
+  };
+};
+
+const createGeminiProvider = (id: string, label: string, transport: GeminiTransport): ExtractionProvider => {
+  const generate = async (request: GeminiRequest) => {
+    try {
+      return await transport(request);
+    } catch (error) {
+      if (error instanceof ExtractionError) throw error;
+      throw new ExtractionError('network', 'AI analysis failed. Check the connection and try again.', id, { cause: error });
+    }
+  };
+
+  return {
+    id,
+    label,
+    extract: async ({ image, mimeType, subjects }) => {
+      // Subjects with components are read part by part; their totals are worked out afterwards.
+      const whole = subjects.filter(sub => !hasComponents(sub));
+      const split = subjects.filter(hasComponents);
+      const subjectList = whole
+        .map(sub => `${sub.key} (${sub.name}, out of ${sub.maxMarks}${sub.optional ? ', optional - omit if not attempted' : ''})`)
+        .join(', ');
+      const componentList = split
+        .map(sub => `${sub.key} (${sub.name}${sub.optional ? ', optional - omit if not attempted' : ''}: ${sub.components!.map(c => `${c.kind} out of ${c.maxMarks}`).join(', ')})`)
+        .join('; ');
+      const componentFields = split.flatMap(sub => sub.components!.map(c => componentField(sub.key, c.kind)));
+
+      const text = await generate({
+        contents: [
+          {
+            parts: [
+              {
+                inlineData: {
+                  mimeType,
+                  data: image,
+                },
+              },
+              {
+                text: `Analyze this answer sheet and extract the student details. Return ONLY a JSON object with the following fields: name (string), rollNo (string), className (string), examName (string - if visible on sheet), marks (object with number fields: ${subjectList})${split.length ? `, componentMarks (object with one object of number fields per subject, for the separately marked parts: ${componentList})` : ''}, confidence (object giving your confidence from 0 to 1 for each of name, rollNo, className, examName, every marks field${split.length ? ' and every component as subject.component, e.g. ' + componentFields[0] : ''}). If a value is not found, use empty string for strings or 0 for numbers, with low confidence.`,
+              },
+            ],
+          },
+        ],
+        config: {
+          responseMimeType: 'application/json',
+          responseSchema: {
+            type: Type.OBJECT,
+            properties: {
+              name: { type: Type.STRING },
+              rollNo: { type: Type.STRING },
+              className: { type: Type.STRING },
+              examName: { type: Type.STRING },
+              marks: {
+                type: Type.OBJECT,
+                properties: Object.fromEntries(whole.map(sub => [sub.key, { type: Type.NUMBER }])),
+                required: whole.filter(sub => !sub.optional).map(sub => sub.key)
+              },
+              componentMarks: {
+                type: Type.OBJECT,
+                properties: Object.fromEntries(split.map(sub => [sub.key, {
+                  type: Type.OBJECT,
+                  properties: Object.fromEntries(sub.components!.map(c => [c.kind, { type: Type.NUMBER }])),
+                  required: sub.components!.map(c => c.kind),
+                }])),
+                required: split.filter(sub => !sub.optional).map(sub => sub.key)
+              },
+              confidence: {
+                type: Type.OBJECT,
+                properties: Object.fromEntries(['name', 'rollNo', 'className', 'examName', ...whole.map(sub => sub.key), ...componentFields].map(f => [f, { type: Type.NUMBER }])),
+              }
+            },
+            required: ['name', 'rollNo', 'className', 'examName', 'marks', 'confidence']
+          }
+        }
+      });
+
+      try {
+        return normalizeExtractedSheet(JSON.parse(text || ''));
+      } catch (error) {
+        throw new ExtractionError('invalid_response', 'The AI returned an unreadable response. Please try a clearer photo.', id, { cause: error });
+      }
+    },
+    suggestRemarks: async request => {
+      const taken = request.subjects.filter(sub => request.student.marks[sub.key] !== undefined);
+      const text = await generate({
+        contents: [{ parts: [{ text: remarkPrompt(request) }] }],
+        config: {
+          responseMimeType: 'application/json',
+          responseSchema: {
+            type: Type.OBJECT,
+            properties: {
+              overall: { type: Type.STRING },
+              subjects: {
+                type: Type.OBJECT,
+                properties: Object.fromEntries(taken.map(sub => [sub.key, { type: Type.STRING }])),
+                required: taken.map(sub => sub.key),
+              },
+            },
+            required: ['overall', 'subjects'],
+          },
+        },
+      });
+
+      try {
+        return normalizeRemarkDraft(JSON.parse(text || ''), taken);
+      } catch (error) {
+        throw new ExtractionError('invalid_response', 'The AI returned unreadable remarks. Please try again.', id, { cause: error });
+      }
+    },
+  };
+};
+
+// FNV-1a, so the mock provider answers the same image with the same sheet every time.
+const hashString = (value: string): number => {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    h ^= value.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+};
+
+const MOCK_FIXTURES = Object.values(import.meta.glob('../fixtures/scans/*.json', { eager: true, import: 'default' }));
+
+// Offline stand-in for development: picks a fixture from fixtures/scans by image hash and fills
+// marks for subjects the fixture does not know with values derived from the same hash.
+const createMockProvider = (fixtures: unknown[], latencyMs = 400): ExtractionProvider => ({
+  id: 'mock',
+  label: 'Mock • offline fixtures',
+  extract: async ({ image, subjects }) => {
+    if (!fixtures.length) throw new ExtractionError('config', 'The mock provider has no fixtures in fixtures/scans.', 'mock');
+    await new Promise(resolve => setTimeout(resolve, latencyMs));
+    const hash = hashString(image);
+    const sheet = normalizeExtractedSheet(fixtures[hash % fixtures.length]);
+    const marks: Marks = {};
+    const componentMarks: Record<string, ComponentMarks> = {};
+    subjects.forEach((sub, i) => {
+      if (hasComponents(sub)) {
+        componentMarks[sub.key] = Object.fromEntries(sub.components!.map((c, j) => [c.kind, Math.round(c.maxMarks * (0.4 + ((hash >>> (i + j)) % 60) / 100))]));
+        return;
+      }
+      marks[sub.key] = sheet.marks[sub.key] ?? Math.round(sub.maxMarks * (0.4 + ((hash >>> i) % 60) / 100));
+    });
+    return { ...sheet, marks, componentMarks };
+  },
+  suggestRemarks: async request => {
+    await new Promise(resolve => setTimeout(resolve, latencyMs));
+    return templateRemarks(request);
+  },
+});
+
+const EXTRACTION_PROVIDERS: Record<string, () => ExtractionProvider> = {
+  gemini: () => {
+    const model = process.env.GEMINI_MODEL || DEFAULT_GEMINI_MODEL;
+    return createGeminiProvider('gemini', `Gemini • ${model}`, directGeminiTransport(process.env.API_KEY, model));
+  },
+  server: () => createGeminiProvider('server', 'Gemini • via API server', serverGeminiTransport(API_BASE_URL)),
+  mock: () => createMockProvider(MOCK_FIXTURES),
+};
+
+// Selected with EXTRACTION_PROVIDER in .env.local; defaults to Gemini, proxied through the API in server mode.
+export const getExtractionProvider = (): ExtractionProvider => {
+  const id = process.env.EXTRACTION_PROVIDER || (DATA_MODE === 'server' ? 'server' : 'gemini');
+  const factory = EXTRACTION_PROVIDERS[id];
+  if (!factory) throw new ExtractionError('config', `Unknown extraction provider "${id}".`, id);
+  return factory();
+};
+
+export const extractStudentDetailsFromImage = async (base64Image: string, subjects: Subject[], mimeType: string = 'image/jpeg'): Promise<ExtractedSheet> => {
+  try {
+    return withComponentTotals(await getExtractionProvider().extract({ image: base64Image, mimeType, subjects }), subjects);
+  } catch (error) {
+    console.error("AI extraction failed:", error);
+    throw error;
+  }
+};
+
+export const extractionErrorMessage = (error: unknown, fallback: string): string =>
+  error instanceof ExtractionError ? error.message : fallback;
+
+// Failures that waiting for a connection can fix, as opposed to a bad key or an unreadable sheet.
+export const isConnectivityError = (error: unknown): boolean =>
+  !navigator.onLine || (error instanceof ExtractionError && error.code === 'network');
+
+// Splits a model response into the editable record and the metadata the review screen checks it against.
+export const toReviewFields = ({ confidence, examName, ...fields }: ExtractedSheet): Pick<ScanQueueItem, 'status' | 'data' | 'confidence' | 'sheetExamName'> => ({
+  status: 'ready',
+  data: fields,
+  confidence,
+  sheetExamName: examName,
+});
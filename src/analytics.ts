@@ -0,0 +1,151 @@
+import { jsPDF } from 'jspdf';
+import { Exam, ExamAnalytics, GradeCount, GradingScheme, RankedStudent, SchoolSettings, ScoreStats, Student, TieBreakPolicy } from './types';
+import { calculateGrade, downloadFile, examDetails, passMarkFor } from './utils';
+import { byRank } from './ranking';
+import { fileSafe, toCsv } from './backup';
+import { drawPdfHeader, PDF_MARGIN } from './marksheet';
+
+export const TIE_BREAK_POLICIES: Record<TieBreakPolicy, string> = {
+  shared: 'Equal scores share a rank (1, 2, 2, 4)',
+  dense: 'Equal scores share a rank, no gaps (1, 2, 2, 3)',
+  subjects: 'Break ties by subject marks, in folder order',
+};
+
+const MERIT_COLUMNS: [string, number][] = [['Rank', 0], ['Name', 16], ['Roll No', 76], ['Class', 98], ['Total', 116], ['%', 138], ['Grade', 154], ['Class Rank', 168]];
+
+export const generateMeritListPdf = (exam: Exam, students: RankedStudent[], school: SchoolSettings) => {
+  const doc = new jsPDF({ unit: 'mm', format: 'a4' });
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+  let y = drawPdfHeader(doc, school, `Merit List - ${exam.name}`);
+  if (examDetails(exam)) { doc.setFont('helvetica', 'normal').setFontSize(9).text(examDetails(exam), pageWidth / 2, y - 4, { align: 'center' }); y += 4; }
+
+  const drawHeaderRow = () => {
+    doc.setFillColor(238, 242, 255).rect(PDF_MARGIN, y - 5, pageWidth - PDF_MARGIN * 2, 8, 'F');
+    doc.setFont('helvetica', 'bold').setFontSize(9);
+    MERIT_COLUMNS.forEach(([label, x]) => doc.text(label, PDF_MARGIN + x + 2, y));
+    y += 8;
+    doc.setFont('helvetica', 'normal');
+  };
+  drawHeaderRow();
+  [...students].sort(byRank).forEach(s => {
+    if (y > pageHeight - 20) { doc.addPage(); y = 20; drawHeaderRow(); }
+    const cells = [String(s.rank?.exam ?? '-'), s.name, s.rollNo, s.className, `${s.total}/${s.maxTotal}`, String(s.percentage), s.grade, s.rank ? `${s.rank.class}/${s.rank.classSize}` : '-'];
+    cells.forEach((cell, i) => doc.text(doc.splitTextToSize(cell, (MERIT_COLUMNS[i + 1]?.[1] ?? 182) - MERIT_COLUMNS[i][1] - 3)[0], PDF_MARGIN + MERIT_COLUMNS[i][1] + 2, y));
+    doc.setDrawColor(226, 232, 240).line(PDF_MARGIN, y + 3, pageWidth - PDF_MARGIN, y + 3);
+    y += 7;
+  });
+  doc.save(`${fileSafe(exam.name)} - merit list.pdf`);
+};
+
+// Top three ranks overall and in each class, and the highest scorers in each subject.
+export const generateToppersPdf = (exam: Exam, students: RankedStudent[], scheme: GradingScheme, school: SchoolSettings) => {
+  const analytics = computeExamAnalytics(exam, students, scheme);
+  const doc = new jsPDF({ unit: 'mm', format: 'a4' });
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+  let y = drawPdfHeader(doc, school, `Toppers - ${exam.name}`);
+  const line = (text: string, bold = false, indent = 0) => {
+    doc.setFont('helvetica', bold ? 'bold' : 'normal').setFontSize(bold ? 11 : 10);
+    (doc.splitTextToSize(text, pageWidth - PDF_MARGIN * 2 - indent) as string[]).forEach(part => {
+      if (y > pageHeight - 20) { doc.addPage(); y = 20; }
+      doc.text(part, PDF_MARGIN + indent, y);
+      y += bold ? 7 : 6;
+    });
+  };
+  const entry = (rank: number, s: Student) => line(`${rank}.  ${s.name} (Roll ${s.rollNo}, Class ${s.className})  -  ${s.percentage}%`, false, 4);
+
+  line('Overall', true);
+  students.filter(s => s.rank && s.rank.exam <= 3).sort(byRank).forEach(s => entry(s.rank!.exam, s));
+  y += 4;
+  line('By Class', true);
+  analytics.classes.forEach(c => {
+    line(`Class ${c.className || '-'}`, false, 2);
+    students
+      .filter(s => s.className.trim() === c.className && s.rank && s.rank.class <= 3)
+      .sort((a, b) => a.rank!.class - b.rank!.class)
+      .forEach(s => entry(s.rank!.class, s));
+  });
+  y += 4;
+  line('By Subject', true);
+  analytics.subjects.filter(sub => sub.taken).forEach(sub => {
+    const best = sub.toppers[0].marks[sub.subject.key];
+    line(`${sub.subject.name} (${best}/${sub.subject.maxMarks}): ${sub.toppers.map(s => `${s.name} (Roll ${s.rollNo})`).join(', ')}`, false, 4);
+  });
+  doc.save(`${fileSafe(exam.name)} - toppers.pdf`);
+};
+
+const scoreStats = (percentages: number[], passed: number): ScoreStats => ({
+  average: percentages.length ? Number((percentages.reduce((a, b) => a + b, 0) / percentages.length).toFixed(2)) : 0,
+  highest: percentages.length ? Math.max(...percentages) : 0,
+  lowest: percentages.length ? Math.min(...percentages) : 0,
+  passRate: percentages.length ? Number((passed / percentages.length * 100).toFixed(2)) : 0,
+});
+
+// Every grade of the scheme, best first, so empty grades still show as empty bars.
+const countGrades = (grades: string[], scheme: GradingScheme): GradeCount[] =>
+  [...scheme.bands]
+    .sort((a, b) => b.minPercentage - a.minPercentage)
+    .map(band => ({ grade: band.grade, count: grades.filter(g => g === band.grade).length }));
+
+export const computeExamAnalytics = (exam: Exam, students: Student[], scheme: GradingScheme): ExamAnalytics => {
+  const overall = students.map(s => s.percentage);
+  const subjects = exam.subjects.map(subject => {
+    const takers = students.filter(s => s.marks[subject.key] !== undefined);
+    const percentages = takers.map(s => Number((s.marks[subject.key] / subject.maxMarks * 100).toFixed(2)));
+    const best = Math.max(...takers.map(s => s.marks[subject.key]));
+    return {
+      ...scoreStats(percentages, takers.filter(s => s.marks[subject.key] >= passMarkFor(subject, scheme)).length),
+      subject,
+      taken: takers.length,
+      grades: countGrades(percentages.map(p => calculateGrade(p, scheme)), scheme),
+      toppers: takers.filter(s => s.marks[subject.key] === best),
+    };
+  });
+  const classNames = [...new Set(students.map(s => s.className.trim()))].sort((a, b) => a.localeCompare(b, undefined, { numeric: true }));
+  const classes = classNames.map(className => {
+    const members = students.filter(s => s.className.trim() === className);
+    return { ...scoreStats(members.map(s => s.percentage), members.filter(s => s.status === 'Pass').length), className, count: members.length };
+  });
+  const stats = scoreStats(overall, students.filter(s => s.status === 'Pass').length);
+  return {
+    ...stats,
+    count: students.length,
+    statusCounts: {
+      Pass: students.filter(s => s.status === 'Pass').length,
+      Compartment: students.filter(s => s.status === 'Compartment').length,
+      Fail: students.filter(s => s.status === 'Fail').length,
+    },
+    grades: countGrades(students.map(s => s.grade), scheme),
+    toppers: students.length ? students.filter(s => s.percentage === stats.highest) : [],
+    subjects,
+    classes,
+  };
+};
+
+export const exportAnalyticsCsv = (exam: Exam, analytics: ExamAnalytics) => {
+  const names = (list: Student[]) => list.map(s => `${s.name} (${s.rollNo})`).join('; ');
+  const rows: (string | number)[][] = [
+    ['Summary report', exam.name],
+    ...(examDetails(exam) ? [['Details', examDetails(exam)]] : []),
+    ['Students', analytics.count],
+    ['Average %', analytics.average],
+    ['Highest %', analytics.highest],
+    ['Lowest %', analytics.lowest],
+    ['Pass rate %', analytics.passRate],
+    ['Passed', analytics.statusCounts.Pass],
+    ['Compartment', analytics.statusCounts.Compartment],
+    ['Failed', analytics.statusCounts.Fail],
+    ['Toppers', names(analytics.toppers)],
+    [],
+    ['Grade', 'Students'],
+    ...analytics.grades.map(g => [g.grade, g.count]),
+    [],
+    ['Subject', 'Max Marks', 'Students', 'Average %', 'Highest %', 'Lowest %', 'Pass rate %', 'Toppers'],
+    ...analytics.subjects.map(s => [s.subject.name, s.subject.maxMarks, s.taken, s.average, s.highest, s.lowest, s.passRate, names(s.toppers)]),
+    [],
+    ['Class', 'Students', 'Average %', 'Highest %', 'Lowest %', 'Pass rate %'],
+    ...analytics.classes.map(c => [c.className, c.count, c.average, c.highest, c.lowest, c.passRate]),
+  ];
+  downloadFile(toCsv(rows), `${fileSafe(exam.name)} - summary report.csv`, 'text/csv');
+};
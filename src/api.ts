@@ -0,0 +1,133 @@
+import {
+  AuditEntry,
+  DataBackend,
+  DataMode,
+  Exam,
+  GradingScheme,
+  ReevaluationRequest,
+  SchoolSettings,
+  StoreName,
+  Student,
+  StudentProfile,
+  TrashItem,
+  UserAccount,
+} from './types';
+import { LookupThrottledError } from './auth';
+
+export const API_BASE_URL = process.env.API_BASE_URL || '/api';
+export const DATA_MODE: DataMode = process.env.DATA_MODE === 'server' ? 'server' : 'local';
+
+export class ApiError extends Error {
+  status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.name = 'ApiError';
+    this.status = status;
+  }
+}
+
+export const apiRequest = async <T,>(baseUrl: string, path: string, options: { method?: string; body?: unknown } = {}): Promise<T> => {
+  const token = sessionStorage.getItem('session_token');
+  const response = await fetch(`${baseUrl}${path}`, {
+    method: options.method || 'GET',
+    headers: {
+      ...(options.body !== undefined ? { 'Content-Type': 'application/json' } : {}),
+      ...(token ? { Authorization: `Bearer ${token}` } : {}),
+    },
+    body: options.body !== undefined ? JSON.stringify(options.body) : undefined,
+  });
+  if (!response.ok) {
+    const payload = await response.json().catch(() => null);
+    throw new ApiError(response.status, payload?.error || `Request failed (${response.status}).`);
+  }
+  return (response.status === 204 ? null : await response.json()) as T;
+};
+
+const API_COLLECTIONS: Record<StoreName, string> = {
+  students: 'students',
+  exams: 'exams',
+  gradingSchemes: 'grading-schemes',
+  users: 'users',
+  profiles: 'profiles',
+  audit: 'audit',
+  trash: 'trash',
+  reevaluations: 'reevaluations',
+};
+
+export const createServerBackend = (baseUrl: string): DataBackend => {
+  const request = <T,>(path: string, options?: { method?: string; body?: unknown }) => apiRequest<T>(baseUrl, path, options);
+  const signIn = (session: { token: string; user: UserAccount }) => {
+    sessionStorage.setItem('session_token', session.token);
+    return session.user;
+  };
+
+  return {
+    mode: 'server',
+    load: async () => {
+      const signedIn = !!sessionStorage.getItem('session_token');
+      const [exams, gradingSchemes, settings, students, users, profiles, audit, trash, reevaluations] = await Promise.all([
+        request<Exam[]>('/exams'),
+        request<GradingScheme[]>('/grading-schemes'),
+        request<SchoolSettings | null>('/settings'),
+        // Student records, the registry and accounts are only served to signed-in staff.
+        signedIn ? request<Student[]>('/students').catch(() => []) : [],
+        signedIn ? request<UserAccount[]>('/users').catch(() => []) : [],
+        signedIn ? request<StudentProfile[]>('/profiles').catch(() => []) : [],
+        signedIn ? request<AuditEntry[]>('/audit').catch(() => []) : [],
+        signedIn ? request<TrashItem[]>('/trash').catch(() => []) : [],
+        signedIn ? request<ReevaluationRequest[]>('/reevaluations').catch(() => []) : [],
+      ]);
+      return { exams, gradingSchemes, settings, students, users, profiles, audit, trash, reevaluations };
+    },
+    // Waits for every request, so a failure is only reported once nothing is still in flight.
+    write: async (name, puts, deletes) => {
+      const path = `/${API_COLLECTIONS[name]}/`;
+      const results = await Promise.allSettled([
+        ...puts.map(record => request(path + encodeURIComponent(record.id), { method: 'PUT', body: record })),
+        ...deletes.map(id => request(path + encodeURIComponent(id), { method: 'DELETE' })),
+      ]);
+      const failed = results.find((r): r is PromiseRejectedResult => r.status === 'rejected');
+      if (failed) throw failed.reason;
+    },
+    saveSettings: async settings => { await request('/settings', { method: 'PUT', body: settings }); },
+    needsSetup: async () => (await request<{ needsSetup: boolean }>('/auth/status')).needsSetup,
+    login: async (username, password) => {
+      try {
+        return signIn(await request('/auth/login', { method: 'POST', body: { username, password } }));
+      } catch (error) {
+        if (error instanceof ApiError && error.status === 401) return null;
+        throw error;
+      }
+    },
+    setup: async user => signIn(await request('/auth/setup', { method: 'POST', body: { user } })),
+    resume: async () => {
+      if (!sessionStorage.getItem('session_token')) return null;
+      try {
+        return (await request<{ user: UserAccount }>('/auth/me')).user;
+      } catch (error) {
+        if (error instanceof ApiError && error.status === 401) { sessionStorage.removeItem('session_token'); return null; }
+        throw error;
+      }
+    },
+    logout: async () => {
+      await request('/auth/logout', { method: 'POST' }).catch(() => undefined);
+      sessionStorage.removeItem('session_token');
+    },
+    findResult: async (examId, rollNo, secret) => {
+      try {
+        return await request<Student>('/results/lookup', { method: 'POST', body: { exam: examId, roll: rollNo.trim(), ...secret } });
+      } catch (error) {
+        if (error instanceof ApiError && error.status === 404) return null;
+        if (error instanceof ApiError && error.status === 429) throw new LookupThrottledError(error.message);
+        throw error;
+      }
+    },
+    findHistory: (examId, rollNo, secret) =>
+      request<Student[]>('/results/history', { method: 'POST', body: { exam: examId, roll: rollNo.trim(), ...secret } }),
+    findReevaluations: (examId, rollNo, secret) =>
+      request<ReevaluationRequest[]>('/reevaluations/lookup', { method: 'POST', body: { exam: examId, roll: rollNo.trim(), ...secret } }),
+    submitReevaluation: (examId, rollNo, secret, { subjects, reason }) =>
+      request<ReevaluationRequest>('/reevaluations', { method: 'POST', body: { exam: examId, roll: rollNo.trim(), ...secret, subjects, reason } }),
+  };
+};
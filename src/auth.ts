@@ -0,0 +1,135 @@
+import { AuthSession, Exam, LookupSecret, Permission, Student, StudentProfile, UserAccount } from './types';
+import { verificationCodeMatches } from './verification';
+
+const PBKDF2_ITERATIONS = 100_000;
+const SESSION_TTL_MS = 8 * 60 * 60 * 1000;
+export const MIN_PASSWORD_LENGTH = 8;
+
+const toHex = (bytes: ArrayBuffer | Uint8Array): string =>
+  Array.from(bytes instanceof Uint8Array ? bytes : new Uint8Array(bytes)).map(b => b.toString(16).padStart(2, '0')).join('');
+
+const randomHex = (byteLength: number): string => toHex(crypto.getRandomValues(new Uint8Array(byteLength)));
+
+const hashPassword = async (password: string, salt: string): Promise<string> => {
+  const key = await crypto.subtle.importKey('raw', new TextEncoder().encode(password), 'PBKDF2', false, ['deriveBits']);
+  const bits = await crypto.subtle.deriveBits(
+    { name: 'PBKDF2', hash: 'SHA-256', salt: new TextEncoder().encode(salt), iterations: PBKDF2_ITERATIONS },
+    key,
+    256
+  );
+  return toHex(bits);
+};
+
+export const createUserAccount = async (fields: Pick<UserAccount, 'username' | 'displayName' | 'role' | 'assignedExamIds'>, password: string): Promise<UserAccount> => {
+  const salt = randomHex(16);
+  return {
+    ...fields,
+    id: crypto.randomUUID(),
+    username: fields.username.trim().toLowerCase(),
+    passwordHash: await hashPassword(password, salt),
+    salt,
+    createdAt: new Date().toISOString(),
+  };
+};
+
+export const setUserPassword = async (user: UserAccount, password: string): Promise<UserAccount> => {
+  const salt = randomHex(16);
+  return { ...user, salt, passwordHash: await hashPassword(password, salt) };
+};
+
+// Compares every character, so the time taken does not reveal how much of the hash matched.
+const constantTimeEqual = (a: string, b: string): boolean => {
+  let diff = a.length ^ b.length;
+  for (let i = 0; i < Math.max(a.length, b.length); i++) diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  return diff === 0;
+};
+
+export const verifyPassword = async (user: UserAccount, password: string): Promise<boolean> =>
+  constantTimeEqual(await hashPassword(password, user.salt), user.passwordHash);
+
+export const hasPermission = (user: UserAccount | null, permission: Permission, examId?: string): boolean => {
+  if (!user) return false;
+  if (user.role === 'super_admin') return true;
+  return permission === 'edit_students' && !!examId && user.assignedExamIds.includes(examId);
+};
+
+// Sessions live in localStorage so they can be revoked; the tab only keeps the opaque token.
+const loadSessions = (): AuthSession[] => {
+  const raw = localStorage.getItem('session_db');
+  const now = Date.now();
+  return (raw ? JSON.parse(raw) as AuthSession[] : []).filter(s => new Date(s.expiresAt).getTime() > now);
+};
+
+export const startSession = (userId: string): AuthSession => {
+  const session = { token: randomHex(32), userId, expiresAt: new Date(Date.now() + SESSION_TTL_MS).toISOString() };
+  localStorage.setItem('session_db', JSON.stringify([...loadSessions(), session]));
+  sessionStorage.setItem('session_token', session.token);
+  return session;
+};
+
+export const endSession = () => {
+  const token = sessionStorage.getItem('session_token');
+  localStorage.setItem('session_db', JSON.stringify(loadSessions().filter(s => s.token !== token)));
+  sessionStorage.removeItem('session_token');
+};
+
+export const resumeSession = (users: UserAccount[]): UserAccount | null => {
+  const token = sessionStorage.getItem('session_token');
+  const session = token ? loadSessions().find(s => s.token === token) : undefined;
+  return (session && users.find(u => u.id === session.userId)) || null;
+};
+
+// Failed result lookups allowed per record and in total within the window before lookups are refused.
+const LOOKUP_FAILURE_LIMITS = { record: 5, total: 20 };
+const LOOKUP_WINDOW_MS = 15 * 60 * 1000;
+
+export class LookupThrottledError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'LookupThrottledError';
+  }
+}
+
+const throttledMessage = (retryAfterMs: number) =>
+  `Too many failed attempts. Try again in ${Math.ceil(retryAfterMs / 60_000)} minute(s).`;
+
+export const generateAccessPin = (): string =>
+  String(crypto.getRandomValues(new Uint32Array(1))[0] % 1_000_000).padStart(6, '0');
+
+export const lookupSecretMatches = async (student: Student, exam: Exam, profile: StudentProfile | undefined, secret: LookupSecret): Promise<boolean> => {
+  if (secret.code) return verificationCodeMatches(student, exam, secret.code);
+  if (secret.dateOfBirth && profile?.dateOfBirth) return secret.dateOfBirth === profile.dateOfBirth;
+  if (secret.pin && profile?.accessPin) return secret.pin.trim() === profile.accessPin;
+  return false;
+};
+
+type LookupFailures = Record<string, { count: number; resetAt: number }>;
+
+// Local mode only; in server mode the server keeps these counters.
+const loadLookupFailures = (): LookupFailures => {
+  const now = Date.now();
+  const all: LookupFailures = JSON.parse(localStorage.getItem('lookup_failures') || '{}');
+  return Object.fromEntries(Object.entries(all).filter(([, f]) => f.resetAt > now));
+};
+
+const lookupFailureKeys = (examId: string, rollNo: string): [string, number][] =>
+  [[`${examId}|${rollNo.trim().toLowerCase()}`, LOOKUP_FAILURE_LIMITS.record], ['*', LOOKUP_FAILURE_LIMITS.total]];
+
+export const assertLookupAllowed = (examId: string, rollNo: string) => {
+  const failures = loadLookupFailures();
+  const blocked = lookupFailureKeys(examId, rollNo).find(([key, limit]) => (failures[key]?.count || 0) >= limit);
+  if (blocked) throw new LookupThrottledError(throttledMessage(failures[blocked[0]].resetAt - Date.now()));
+};
+
+export const recordLookupFailure = (examId: string, rollNo: string) => {
+  const failures = loadLookupFailures();
+  lookupFailureKeys(examId, rollNo).forEach(([key]) => {
+    failures[key] = { count: (failures[key]?.count || 0) + 1, resetAt: failures[key]?.resetAt || Date.now() + LOOKUP_WINDOW_MS };
+  });
+  localStorage.setItem('lookup_failures', JSON.stringify(failures));
+};
+
+export const clearLookupFailures = (examId: string, rollNo: string) => {
+  const { [lookupFailureKeys(examId, rollNo)[0][0]]: _, ...rest } = loadLookupFailures();
+  localStorage.setItem('lookup_failures', JSON.stringify(rest));
+};
@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest';
+import { BackupData, BackupFile, Exam, ReevaluationRequest, Subject } from './types';
+import { createBackup, parseBackup, planRestore } from './backup';
+import { processStudentData } from './utils';
+
+const SUBJECTS: Subject[] = [{ key: 'math', name: 'Math', maxMarks: 100 }];
+const exam = (id: string, name: string): Exam => ({ id, name, createdAt: '2024-01-01T00:00:00.000Z', subjects: SUBJECTS, published: true });
+const result = (id: string, examId: string, rollNo: string, math: number) =>
+  processStudentData({ id, examId, rollNo, profileId: `p${rollNo}`, name: `Student ${rollNo}`, className: '5', marks: { math } }, SUBJECTS);
+const request = (id: string, studentId: string): ReevaluationRequest =>
+  ({ id, examId: 'e1', studentId, studentName: 'Student 2', rollNo: '2', subjects: ['math'], reason: '', status: 'pending', submittedAt: '2024-02-01T00:00:00.000Z' });
+
+const FINAL = exam('e1', 'Final');
+const TERM = exam('e2', 'Term 1');
+const CURRENT: BackupData = {
+  exams: [FINAL, TERM],
+  students: [result('s1', 'e1', '1', 80), result('s2', 'e1', '2', 60), result('s3', 'e2', '1', 70)],
+  profiles: [],
+  gradingSchemes: [],
+  reevaluations: [request('r1', 's2')],
+};
+
+const backupOf = (data: Partial<BackupData>): BackupFile =>
+  createBackup({ exams: [], students: [], profiles: [], gradingSchemes: [], reevaluations: [], ...data }, { schoolName: '', address: '', signatoryName: '', signatoryTitle: '' });
+
+describe('parseBackup', () => {
+  it('rejects files it cannot restore', () => {
+    expect(() => parseBackup('{')).toThrow('The file is not valid JSON.');
+    expect(() => parseBackup('{"app":"other"}')).toThrow('This is not an EduResult backup file.');
+    expect(() => parseBackup('{"app":"eduresult","version":99}')).toThrow('Unsupported backup version 99. This app reads up to version 5.');
+    expect(() => parseBackup(JSON.stringify({ app: 'eduresult', version: 5, exams: [], students: [{ id: 's1', rollNo: '7', examId: 'e1' }] })))
+      .toThrow('The backup contains an invalid student record (roll 7).');
+  });
+
+  it('upgrades a first-version backup', () => {
+    const backup = parseBackup(JSON.stringify({
+      app: 'eduresult',
+      version: 1,
+      exams: [{ id: 'e1', name: 'Final', createdAt: '2020-01-01T00:00:00.000Z', subjects: SUBJECTS }],
+      students: [
+        { id: 's1', examName: 'Final', rollNo: '1', name: 'Ann', className: '5', marks: { math: 80 } },
+        { id: 's2', examName: 'Midterm', rollNo: '1', name: 'Ann', className: '5', marks: { math: 70 } },
+      ],
+    }));
+    expect(backup.version).toBe(5);
+    expect(backup.exams.map(e => [e.name, e.published])).toEqual([['Final', true], ['Midterm', true]]);
+    expect(backup.students[0]).toMatchObject({ examId: 'e1', total: 80, grade: 'A' });
+    expect(backup.students[1].examId).toBe(backup.exams[1].id);
+    expect(backup.profiles).toHaveLength(1);
+    expect(backup.students.every(s => s.profileId === backup.profiles[0].id)).toBe(true);
+  });
+
+  it('reads back what createBackup writes, dropping malformed requests', () => {
+    const file = { ...backupOf(CURRENT), reevaluations: [request('r1', 's2'), { id: 'r2' }] };
+    const backup = parseBackup(JSON.stringify(file));
+    expect(backup.students).toEqual(CURRENT.students);
+    expect(backup.reevaluations.map(r => r.id)).toEqual(['r1']);
+  });
+});
+
+describe('planRestore', () => {
+  it('merges the backup into the current records', () => {
+    const backup = backupOf({ exams: [{ ...FINAL, name: 'Final exam' }], students: [result('s1', 'e1', '1', 90), result('s4', 'e1', '4', 50)] });
+    const plan = planRestore(CURRENT, backup, 'merge');
+    expect(plan.exams.map(e => e.name)).toEqual(['Term 1', 'Final exam']);
+    expect(plan.students.map(s => [s.id, s.total])).toEqual([['s1', 90], ['s2', 60], ['s3', 70], ['s4', 50]]);
+    expect(plan.changes.map(c => [c.action, c.after?.id])).toEqual([['update', 'e1'], ['update', 's1'], ['create', 's4']]);
+    expect([plan.removedExams, plan.removedStudents, plan.reevaluations]).toEqual([[], [], CURRENT.reevaluations]);
+  });
+
+  it('skips backup folders and roll numbers that clash with kept records', () => {
+    const backup = backupOf({
+      exams: [exam('e9', ' term 1'), FINAL],
+      students: [result('s9', 'e9', '1', 50), result('s5', 'e1', '2', 40)],
+    });
+    const plan = planRestore(CURRENT, backup, 'merge');
+    expect(plan.skippedExams.map(e => e.id)).toEqual(['e9']);
+    expect(plan.skippedStudents.map(s => s.id)).toEqual(['s9', 's5']);
+    expect(plan.students).toEqual(CURRENT.students);
+  });
+
+  it('replaces the current records, listing what it drops for the trash', () => {
+    const plan = planRestore(CURRENT, backupOf({ exams: [FINAL], students: [result('s1', 'e1', '1', 80)], reevaluations: [request('r1', 's2')] }), 'replace');
+    expect(plan.exams).toEqual([FINAL]);
+    expect(plan.students.map(s => s.id)).toEqual(['s1']);
+    expect(plan.removedExams).toEqual([{ exam: TERM, students: [CURRENT.students[2]] }]);
+    expect(plan.removedStudents.map(s => s.id)).toEqual(['s2']);
+    expect(plan.changes.filter(c => c.action === 'delete').map(c => c.before?.id)).toEqual(['e2', 's2']);
+    expect(plan.reevaluations).toEqual([]);
+  });
+});
@@ -0,0 +1,152 @@
+import {
+  BackupData,
+  BackupFile,
+  Exam,
+  GradingScheme,
+  ReevaluationRequest,
+  RestoreMode,
+  RestorePlan,
+  SchoolSettings,
+  Student,
+  StudentProfile,
+} from './types';
+import {
+  asRecord,
+  COMPONENT_LABELS,
+  downloadFile,
+  findRollConflict,
+  linkResultsToRegistry,
+  linkStudentsToExams,
+  normalizeExam,
+  normalizeStudents,
+} from './utils';
+
+// v2: students reference Exam.id instead of the exam name. v3: adds the student registry.
+// v4: exams are drafts until published; exams in older backups were all public.
+// v5: adds re-evaluation requests. The audit log and trash stay with the installation.
+const BACKUP_VERSION = 5;
+
+export const toCsv = (rows: (string | number)[][]): string =>
+  rows.map(r => r.map(c => {
+    const v = String(c ?? '');
+    return /[",\n]/.test(v) ? `"${v.replace(/"/g, '""')}"` : v;
+  }).join(',')).join('\n') + '\n';
+
+export const fileSafe = (name: string) => name.replace(/[\\/:*?"<>|]+/g, '-');
+
+export const exportExamCsv = (exam: Exam, students: Student[]) => {
+  const header = ['Name', 'Roll No', 'Class', ...exam.subjects.flatMap(sub => [
+    `${sub.name} (/${sub.maxMarks})`,
+    ...(sub.components || []).map(c => `${sub.name} ${COMPONENT_LABELS[c.kind]} (/${c.maxMarks})`),
+  ]), 'Total', 'Max Total', 'Percentage', 'Grade', 'CGPA', 'Status', 'Remarks'];
+  const rows = students.map(s => [
+    s.name, s.rollNo, s.className,
+    ...exam.subjects.flatMap(sub => [s.marks[sub.key] ?? '', ...(sub.components || []).map(c => s.componentMarks?.[sub.key]?.[c.kind] ?? '')]),
+    s.total, s.maxTotal, s.percentage, s.grade, s.gradePoint, s.status, s.remarks?.overall ?? '',
+  ]);
+  downloadFile(toCsv([header, ...rows]), `${fileSafe(exam.name)} - results.csv`, 'text/csv');
+};
+
+export const exportExamJson = (exam: Exam, students: Student[]) =>
+  downloadFile(JSON.stringify({ exam, students }, null, 2), `${fileSafe(exam.name)} - results.json`, 'application/json');
+
+export const createBackup = ({ gradingSchemes, ...data }: BackupData, settings: SchoolSettings): BackupFile => ({
+  app: 'eduresult',
+  version: BACKUP_VERSION,
+  exportedAt: new Date().toISOString(),
+  ...data,
+  gradingSchemes: gradingSchemes.filter(g => !g.builtIn),
+  settings,
+});
+
+// Entries of a list in the file; anything but an object reads as an empty record and fails the checks below.
+const recordsIn = (value: unknown): Record<string, unknown>[] => Array.isArray(value) ? value.map(asRecord) : [];
+
+// Throws with a user-facing message when the file is not a backup this version can restore.
+export const parseBackup = (text: string): BackupFile => {
+  let parsed: unknown;
+  try { parsed = JSON.parse(text); } catch { throw new Error('The file is not valid JSON.'); }
+  const raw = asRecord(parsed);
+  if (raw.app !== 'eduresult') throw new Error('This is not an EduResult backup file.');
+  const version = raw.version;
+  if (typeof version !== 'number' || version > BACKUP_VERSION) throw new Error(`Unsupported backup version ${version}. This app reads up to version ${BACKUP_VERSION}.`);
+  if (!Array.isArray(raw.exams) || !Array.isArray(raw.students)) throw new Error('The backup is missing its exams or students.');
+  const rawExams = recordsIn(raw.exams);
+  if (rawExams.some(e => typeof e.id !== 'string' || typeof e.name !== 'string')) throw new Error('The backup contains an exam without an id or name.');
+  const examKey = version < 2 ? 'examName' : 'examId';
+  const rawStudents = recordsIn(raw.students);
+  const badStudent = rawStudents.find(s => typeof s.id !== 'string' || typeof s.rollNo !== 'string' || typeof s[examKey] !== 'string' || !s.marks || typeof s.marks !== 'object');
+  if (badStudent) throw new Error(`The backup contains an invalid student record${badStudent.rollNo ? ` (roll ${badStudent.rollNo})` : ''}.`);
+  const linked = linkStudentsToExams(rawStudents, (rawExams as unknown as Exam[]).map(normalizeExam));
+  // Exams were all public before v4, folders created above for v1 exam names included.
+  const exams = version < 4 ? linked.exams.map(e => ({ ...e, published: e.published ?? true })) : linked.exams;
+  const gradingSchemes = recordsIn(raw.gradingSchemes).filter(g => typeof g.id === 'string' && Array.isArray(g.bands)) as unknown as GradingScheme[];
+  const profiles = recordsIn(raw.profiles).filter(p => typeof p.id === 'string' && typeof p.rollNo === 'string') as unknown as StudentProfile[];
+  const registered = linkResultsToRegistry(normalizeStudents(linked.students, exams, gradingSchemes), profiles);
+  const reevaluations = recordsIn(raw.reevaluations)
+    .filter(r => typeof r.id === 'string' && typeof r.studentId === 'string' && Array.isArray(r.subjects)) as unknown as ReevaluationRequest[];
+  return {
+    app: 'eduresult',
+    version: BACKUP_VERSION,
+    exportedAt: typeof raw.exportedAt === 'string' ? raw.exportedAt : '',
+    settings: raw.settings && typeof raw.settings === 'object' ? raw.settings as SchoolSettings : undefined,
+    exams,
+    gradingSchemes,
+    students: registered.students,
+    profiles: [...profiles, ...registered.created],
+    reevaluations,
+  };
+};
+
+// Incoming items replace existing ones with the same id; everything else is kept.
+const mergeById = <T extends { id: string }>(current: T[], incoming: T[]): T[] =>
+  [...current.filter(c => !incoming.some(i => i.id === c.id)), ...incoming];
+
+const sameExamName = (a: Exam, b: Exam) => a.name.trim().toLowerCase() === b.name.trim().toLowerCase();
+
+// A restore keeps the rules manual edits follow: folder names and roll numbers stay unique,
+// and whatever a replace drops is listed for the trash rather than lost.
+export const planRestore = (current: BackupData, backup: BackupFile, mode: RestoreMode): RestorePlan => {
+  const changes: RestorePlan['changes'] = [];
+  const kept = mode === 'replace' ? [] : current.exams.filter(e => !backup.exams.some(b => b.id === e.id));
+  const skippedExams = backup.exams.filter(b => kept.some(e => sameExamName(e, b)));
+  const restored = backup.exams.filter(b => !skippedExams.includes(b));
+  restored.forEach(after => changes.push({ action: current.exams.some(e => e.id === after.id) ? 'update' : 'create', before: current.exams.find(e => e.id === after.id), after }));
+  const exams = [...kept, ...restored];
+
+  const students = mode === 'replace' ? [] : [...current.students];
+  const skippedStudents: Student[] = [];
+  backup.students.forEach(after => {
+    if (!exams.some(e => e.id === after.examId) || findRollConflict(after, students)) {
+      skippedStudents.push(after);
+      return;
+    }
+    const at = students.findIndex(st => st.id === after.id);
+    if (at >= 0) students[at] = after;
+    else students.push(after);
+    const before = current.students.find(st => st.id === after.id);
+    changes.push({ action: before ? 'update' : 'create', before, after });
+  });
+
+  const removedExams = current.exams.filter(e => !exams.some(x => x.id === e.id))
+    .map(exam => ({ exam, students: current.students.filter(st => st.examId === exam.id) }));
+  const removedStudents = current.students.filter(st =>
+    !students.some(x => x.id === st.id) && !removedExams.some(r => r.exam.id === st.examId));
+  removedExams.forEach(r => changes.push({ action: 'delete', before: r.exam }));
+  removedStudents.forEach(before => changes.push({ action: 'delete', before }));
+
+  const reevaluations = mode === 'replace' ? backup.reevaluations : mergeById(current.reevaluations, backup.reevaluations);
+  return {
+    exams,
+    students,
+    profiles: mode === 'replace' ? backup.profiles : mergeById(current.profiles, backup.profiles),
+    gradingSchemes: mode === 'replace' ? backup.gradingSchemes : mergeById(current.gradingSchemes, backup.gradingSchemes),
+    // Requests only make sense next to the result they were filed against.
+    reevaluations: reevaluations.filter(r => students.some(st => st.id === r.studentId)),
+    removedExams,
+    removedStudents,
+    changes,
+    skippedExams,
+    skippedStudents,
+  };
+};
@@ -0,0 +1,963 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import {
+  LayoutDashboard,
+  Plus,
+  Search,
+  Trash2,
+  Edit,
+  ChevronLeft,
+  ChevronRight,
+  X,
+  Camera,
+  RotateCcw,
+  Loader2,
+  Scan,
+  AlertCircle,
+  Settings,
+  Folder,
+  FolderPlus,
+  FolderInput,
+  ArrowRight,
+  Upload,
+  Download,
+  DatabaseBackup,
+  School,
+  Users,
+  Copy,
+  Archive,
+  ArchiveRestore,
+  History,
+  ScrollText,
+  Contact,
+  Unlink,
+  BarChart3,
+  Table,
+  FilterX,
+  WifiOff,
+  MessageSquareText,
+  Sparkles,
+  Scale
+} from 'lucide-react';
+import {
+  AdminDashboardProps,
+  ChangeSource,
+  ConflictChoice,
+  Exam,
+  ExamFormMode,
+  RollConflict,
+  ScanStatus,
+  Student,
+  StudentRemarks,
+  StudentSortKey,
+  StudentTableFilters,
+  TieBreakPolicy,
+  TransferMode,
+} from '../types';
+import { extractionErrorMessage } from '../ai';
+import {
+  COMPONENT_LABELS,
+  componentError,
+  DEFAULT_GRADING_SCHEME,
+  DEFAULT_SUBJECTS,
+  EMPTY_TABLE_FILTERS,
+  emptyMarks,
+  examDetails,
+  filterStudents,
+  finalizeSubjects,
+  findRollConflict,
+  hasComponents,
+  processStudentData,
+  schemeFor,
+  statusBadgeClass,
+  studentComparator,
+  TABLE_PAGE_SIZES,
+  toLocalDateTime,
+  withComponentMark,
+} from '../utils';
+import { exportExamCsv, exportExamJson } from '../backup';
+import { hasPermission } from '../auth';
+import {
+  computeExamAnalytics,
+  exportAnalyticsCsv,
+  generateMeritListPdf,
+  generateToppersPdf,
+  TIE_BREAK_POLICIES,
+} from '../analytics';
+import { cleanRemarks, REMARK_SOURCE_LABELS, suggestRemarks, withRemarks } from '../remarks';
+import { AICameraScanner, PendingScansReview } from './Scanner';
+import {
+  BackupRestoreModal,
+  GradingSchemeManager,
+  ImportStudentsModal,
+  SchoolSettingsModal,
+  StudentRegistryModal,
+  SubjectEditor,
+  UserManager,
+} from './AdminModals';
+import { ExamAnalyticsPanel, VisibilityBadge } from './ExamAnalytics';
+import { AuditLogModal, RevisionHistoryModal, TrashModal } from './HistoryModals';
+import { ReevaluationQueueModal, RemarksReviewModal, RollConflictDialog, TransferResultsDialog } from './ReviewModals';
+
+export const AdminDashboard = ({ examId, onOpenExam, currentUser, users, students, profiles, exams, gradingSchemes, schoolSettings, auditLog, trash, reevaluations, pendingScans, online, onQueueOfflineScan, onRetryPendingScans, onRemovePendingScans, onAddStudents, onUpdateStudent, onUpdateStudents, onDeleteStudents, onTransferStudents, onRestoreRevision, onRestoreFromTrash, onPurgeTrash, onResolveReevaluation, onSaveProfile, onDeleteProfile, onAddExam, onUpdateExam, onDeleteExam, onSaveGradingScheme, onDeleteGradingScheme, onRestore, onSaveSchoolSettings, onSaveUser, onDeleteUser }: AdminDashboardProps) => {
+  const [examForm, setExamForm] = useState<{ mode: ExamFormMode; draft: Exam } | null>(null);
+  const [examError, setExamError] = useState<string | null>(null);
+  const [showArchived, setShowArchived] = useState(false);
+  const [showSchemeManager, setShowSchemeManager] = useState(false);
+  const [showStudentModal, setShowStudentModal] = useState(false);
+  const [showScanner, setShowScanner] = useState(false);
+  const [showPendingScans, setShowPendingScans] = useState(false);
+  const [showImport, setShowImport] = useState(false);
+  const [showBackup, setShowBackup] = useState(false);
+  const [showSchoolSettings, setShowSchoolSettings] = useState(false);
+  const [showUsers, setShowUsers] = useState(false);
+  const [showRegistry, setShowRegistry] = useState(false);
+  const [showExportMenu, setShowExportMenu] = useState(false);
+  const [examTab, setExamTab] = useState<'records' | 'analytics'>('records');
+  const [conflicts, setConflicts] = useState<RollConflict[]>([]);
+  const [historyFor, setHistoryFor] = useState<Student | null>(null);
+  const [showAuditLog, setShowAuditLog] = useState(false);
+  const [showTrash, setShowTrash] = useState(false);
+  const [reevaluationScope, setReevaluationScope] = useState<'all' | 'exam' | null>(null);
+  // Whether the open record form was filled in by hand or from a scan.
+  const [formSource, setFormSource] = useState<ChangeSource>('manual');
+  const [studentError, setStudentError] = useState<string | null>(null);
+  const [sortBy, setSortBy] = useState<{ key: StudentSortKey; desc: boolean } | null>(null);
+  const [filters, setFilters] = useState<StudentTableFilters>(EMPTY_TABLE_FILTERS);
+  const [page, setPage] = useState(0);
+  const [pageSize, setPageSize] = useState(TABLE_PAGE_SIZES[0]);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [transferMode, setTransferMode] = useState<TransferMode | null>(null);
+  const [remarksIds, setRemarksIds] = useState<string[] | null>(null);
+  const [suggestingRemarks, setSuggestingRemarks] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [formData, setFormData] = useState<Partial<Student>>({
+    name: '', rollNo: '', className: '', examId: '',
+    marks: emptyMarks(DEFAULT_SUBJECTS)
+  });
+  const canManageExams = hasPermission(currentUser, 'manage_exams');
+  const canManageSettings = hasPermission(currentUser, 'manage_settings');
+  const visibleExams = useMemo(() =>
+    canManageExams ? exams : exams.filter(e => hasPermission(currentUser, 'edit_students', e.id))
+  , [exams, currentUser, canManageExams]);
+  const folderExams = visibleExams.filter(e => showArchived || !e.archived);
+  const archivedCount = visibleExams.filter(e => e.archived).length;
+  const currentExam = visibleExams.find(e => e.id === examId) || null;
+  const visibleAudit = useMemo(() =>
+    canManageExams ? auditLog : auditLog.filter(e => e.entity === 'student' && hasPermission(currentUser, 'edit_students', e.examId))
+  , [auditLog, currentUser, canManageExams]);
+  const visibleTrash = trash.filter(t => t.kind === 'exam' ? canManageExams : hasPermission(currentUser, 'edit_students', t.examId));
+  const visibleReevaluations = reevaluations.filter(r => hasPermission(currentUser, 'edit_students', r.examId));
+  const pendingReevaluations = visibleReevaluations.filter(r => r.status === 'pending');
+  const examReevaluations = visibleReevaluations.filter(r => r.examId === currentExam?.id);
+  const examPendingReevaluations = examReevaluations.filter(r => r.status === 'pending').length;
+  const subjects = currentExam?.subjects || DEFAULT_SUBJECTS;
+  const scheme = schemeFor(currentExam || undefined, gradingSchemes);
+  const examPendingScans = pendingScans.filter(s => s.examId === currentExam?.id);
+  const pendingCount = (status: ScanStatus) => examPendingScans.filter(s => s.status === status).length;
+
+  const filteredStudents = useMemo(() => 
+    currentExam ? students.filter(s => s.examId === currentExam.id) : []
+  , [students, currentExam]);
+
+  const tableStudents = useMemo(() => {
+    const matching = filterStudents(filteredStudents, filters);
+    if (!sortBy) return matching;
+    const compare = studentComparator(sortBy.key);
+    return matching.sort((a, b) => sortBy.desc ? compare(b, a) : compare(a, b));
+  }, [filteredStudents, filters, sortBy]);
+
+  const pageCount = Math.max(1, Math.ceil(tableStudents.length / pageSize));
+  const currentPage = Math.min(page, pageCount - 1);
+  const pageStudents = tableStudents.slice(currentPage * pageSize, (currentPage + 1) * pageSize);
+  // Bulk actions only apply to selected rows that still match the filters.
+  const selectedStudents = tableStudents.filter(s => selectedIds.has(s.id));
+  const pageSelected = pageStudents.length > 0 && pageStudents.every(s => selectedIds.has(s.id));
+  const classOptions = useMemo(() => [...new Set(filteredStudents.map(s => s.className))].filter(Boolean).sort(), [filteredStudents]);
+  const gradeOptions = useMemo(() => [...new Set(filteredStudents.map(s => s.grade))].sort(), [filteredStudents]);
+  const transferTargets = visibleExams.filter(e => e.id !== currentExam?.id && hasPermission(currentUser, 'edit_students', e.id));
+
+  // A different folder starts with a fresh table.
+  useEffect(() => {
+    setFilters(EMPTY_TABLE_FILTERS);
+    setPage(0);
+    setSelectedIds(new Set());
+  }, [examId]);
+
+  const updateFilters = (next: Partial<StudentTableFilters>) => {
+    setFilters({ ...filters, ...next });
+    setPage(0);
+  };
+
+  const toggleSort = (key: StudentSortKey) =>
+    setSortBy(sortBy?.key === key ? { key, desc: !sortBy.desc } : { key, desc: key === 'score' || key === 'grade' });
+
+  const toggleSelected = (ids: string[], selected: boolean) => {
+    const next = new Set(selectedIds);
+    ids.forEach(id => selected ? next.add(id) : next.delete(id));
+    setSelectedIds(next);
+  };
+
+  const analytics = useMemo(() =>
+    currentExam && examTab === 'analytics' ? computeExamAnalytics(currentExam, filteredStudents, scheme) : null
+  , [currentExam, filteredStudents, scheme, examTab]);
+
+  const linkedProfile = formData.profileId ? profiles.find(p => p.id === formData.profileId) : undefined;
+  const registrySuggestions = useMemo(() => {
+    const q = (formData.name || '').trim().toLowerCase();
+    if (formData.profileId || q.length < 2) return [];
+    return profiles.filter(p => p.name.toLowerCase().includes(q) || p.rollNo.toLowerCase() === q).slice(0, 5);
+  }, [profiles, formData.name, formData.profileId]);
+
+  const openExamForm = (mode: ExamFormMode, source?: Exam) => {
+    setExamError(null);
+    if (mode === 'create' || !source) {
+      setExamForm({ mode: 'create', draft: { id: '', name: '', createdAt: '', subjects: DEFAULT_SUBJECTS, gradingSchemeId: DEFAULT_GRADING_SCHEME.id, published: false } });
+    } else if (mode === 'duplicate') {
+      // Copies the folder's setup, not its students.
+      setExamForm({ mode, draft: { ...source, id: '', name: `${source.name} (Copy)`, archived: false, published: false, publishAt: undefined, publishedAt: undefined } });
+    } else {
+      setExamForm({ mode, draft: { ...source } });
+    }
+  };
+
+  const handleExamSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!examForm) return;
+    const { mode, draft } = examForm;
+    const name = draft.name.trim();
+    if (!name) return;
+    if (exams.some(ex => ex.id !== draft.id && ex.name.trim().toLowerCase() === name.toLowerCase())) {
+      setExamError('An exam folder with this name already exists.');
+      return;
+    }
+    const invalidComponents = componentError(draft.subjects);
+    if (invalidComponents) {
+      setExamError(invalidComponents);
+      return;
+    }
+    if (mode === 'edit') onUpdateExam({ ...draft, name, subjects: draft.subjects.map(sub => ({ ...sub, name: sub.name.trim() })) });
+    else onAddExam({ ...draft, id: crypto.randomUUID(), name, createdAt: new Date().toISOString(), subjects: finalizeSubjects(draft.subjects) });
+    setExamForm(null);
+  };
+
+  // New records whose roll number is taken wait in the conflict dialog; the rest are added straight away.
+  const addResults = (records: Student[], source: ChangeSource) => {
+    const accepted: Student[] = [];
+    const queued: RollConflict[] = [];
+    records.forEach(record => {
+      const existing = findRollConflict(record, [...filteredStudents, ...accepted]);
+      if (existing) queued.push({ existing, incoming: record, source });
+      else accepted.push(record);
+    });
+    if (accepted.length) onAddStudents(accepted, source);
+    if (queued.length) setConflicts([...conflicts, ...queued]);
+  };
+
+  const resolveConflict = (choice: ConflictChoice, merged: Student) => {
+    if (choice !== 'keep') onUpdateStudent(processStudentData(merged, subjects, scheme), conflicts[0].source);
+    setConflicts(conflicts.slice(1));
+  };
+
+  const handleStudentSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const data = withRemarks({ ...formData, examId: currentExam?.id || formData.examId }, cleanRemarks(formData.remarks));
+    if (editingId) {
+      const record = processStudentData({ ...data, id: editingId }, subjects, scheme);
+      const clash = findRollConflict(record, students);
+      if (clash) { setStudentError(`Roll number ${record.rollNo} is already used by ${clash.name} in this exam.`); return; }
+      onUpdateStudent(record, formSource);
+    } else {
+      addResults([processStudentData(data, subjects, scheme)], formSource);
+    }
+    setShowStudentModal(false);
+    setEditingId(null);
+  };
+
+  // New remarks typed into the form are approved straight away; suggestions start as drafts.
+  const updateFormRemarks = (patch: Partial<StudentRemarks>) =>
+    setFormData({ ...formData, remarks: { overall: '', subjects: {}, status: 'approved', source: 'manual', ...formData.remarks, ...patch } });
+
+  const suggestFormRemarks = async () => {
+    setSuggestingRemarks(true);
+    setStudentError(null);
+    try {
+      const student = processStudentData({ ...formData, examId: currentExam?.id || formData.examId }, subjects, scheme);
+      const remarks = await suggestRemarks({ student, subjects, scheme }, 'ai');
+      setFormData(data => ({ ...data, remarks }));
+    } catch (err) {
+      setStudentError(extractionErrorMessage(err, 'Remarks could not be suggested.'));
+    } finally {
+      setSuggestingRemarks(false);
+    }
+  };
+
+  const openStudentModal = (s?: Student) => {
+    setStudentError(null);
+    setFormSource('manual');
+    if (s) { setFormData(s); setEditingId(s.id); }
+    else { setFormData({ name: '', rollNo: '', className: '', examId: currentExam?.id || '', marks: emptyMarks(subjects) }); setEditingId(null); }
+    setShowStudentModal(true);
+  };
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 py-8">
+      {showScanner && (
+        <AICameraScanner 
+          fixedExamName={currentExam?.name}
+          subjects={subjects}
+          existingRollNos={filteredStudents.map(s => s.rollNo)}
+          onScanComplete={d => { setFormData(d); setFormSource('scan'); setShowScanner(false); setShowStudentModal(true); }}
+          onBatchComplete={records => addResults(records.map(r => processStudentData({ ...r, examId: currentExam?.id }, subjects, scheme)), 'scan')}
+          onSaveOffline={currentExam ? page => onQueueOfflineScan(page, currentExam.id) : undefined}
+          onClose={() => setShowScanner(false)}
+        />
+      )}
+      {showPendingScans && currentExam && (
+        <PendingScansReview
+          scans={examPendingScans} subjects={subjects} fixedExamName={currentExam.name} online={online}
+          existingRollNos={filteredStudents.map(s => s.rollNo)}
+          onAccept={(scan, data) => {
+            addResults([processStudentData({ ...data, examId: currentExam.id }, subjects, scheme)], 'scan');
+            onRemovePendingScans([scan.id]);
+          }}
+          onDiscard={id => onRemovePendingScans([id])}
+          onRetry={onRetryPendingScans}
+          onClose={() => setShowPendingScans(false)}
+        />
+      )}
+      {showImport && currentExam && (
+        <ImportStudentsModal
+          exam={currentExam} scheme={scheme} existingStudents={filteredStudents}
+          onImport={records => addResults(records, 'import')}
+          onClose={() => setShowImport(false)}
+        />
+      )}
+      {showBackup && (
+        <BackupRestoreModal
+          students={students} profiles={profiles} exams={exams} gradingSchemes={gradingSchemes} reevaluations={reevaluations} settings={schoolSettings}
+          onRestore={onRestore}
+          onClose={() => setShowBackup(false)}
+        />
+      )}
+      {showSchoolSettings && (
+        <SchoolSettingsModal settings={schoolSettings} onSave={onSaveSchoolSettings} onClose={() => setShowSchoolSettings(false)} />
+      )}
+      {conflicts.length > 0 && (
+        <React.Fragment key={conflicts[0].incoming.id}>
+          <RollConflictDialog conflict={conflicts[0]} subjects={subjects} queued={conflicts.length - 1} onResolve={resolveConflict} />
+        </React.Fragment>
+      )}
+      {remarksIds && currentExam && (
+        <RemarksReviewModal
+          exam={currentExam} scheme={scheme}
+          students={filteredStudents.filter(s => remarksIds.includes(s.id))}
+          onSave={onUpdateStudents}
+          onClose={() => setRemarksIds(null)}
+        />
+      )}
+      {transferMode && (
+        <TransferResultsDialog
+          mode={transferMode} count={selectedStudents.length} exams={transferTargets}
+          onConfirm={examId => { onTransferStudents(selectedStudents.map(s => s.id), examId, transferMode); setTransferMode(null); setSelectedIds(new Set()); }}
+          onClose={() => setTransferMode(null)}
+        />
+      )}
+      {historyFor && (
+        <RevisionHistoryModal
+          student={historyFor}
+          entries={auditLog.filter(e => e.entityId === historyFor.id)}
+          onRestore={version => { onRestoreRevision(historyFor.id, version); setHistoryFor(null); }}
+          onClose={() => setHistoryFor(null)}
+        />
+      )}
+      {showAuditLog && <AuditLogModal entries={visibleAudit} exams={visibleExams} onClose={() => setShowAuditLog(false)} />}
+      {reevaluationScope && (
+        <ReevaluationQueueModal
+          requests={reevaluationScope === 'exam' ? examReevaluations : visibleReevaluations}
+          students={students} exams={visibleExams}
+          onResolve={onResolveReevaluation}
+          onClose={() => setReevaluationScope(null)}
+        />
+      )}
+      {showTrash && (
+        <TrashModal items={visibleTrash} canPurge={canManageSettings} onRestore={onRestoreFromTrash} onPurge={onPurgeTrash} onClose={() => setShowTrash(false)} />
+      )}
+      {showRegistry && (
+        <StudentRegistryModal
+          profiles={profiles} students={students} canDelete={canManageExams}
+          onSave={onSaveProfile} onDelete={onDeleteProfile}
+          onClose={() => setShowRegistry(false)}
+        />
+      )}
+      {showUsers && (
+        <UserManager users={users} exams={exams} currentUser={currentUser} onSave={onSaveUser} onDelete={onDeleteUser} onClose={() => setShowUsers(false)} />
+      )}
+      {showSchemeManager && (
+        <GradingSchemeManager
+          schemes={gradingSchemes} exams={exams}
+          onSave={onSaveGradingScheme} onDelete={onDeleteGradingScheme}
+          onClose={() => setShowSchemeManager(false)}
+        />
+      )}
+
+      {/* Header */}
+      <div className="flex flex-col md:flex-row justify-between items-center gap-6 mb-12">
+        <div>
+          <h1 className="text-3xl font-black text-slate-900 tracking-tight flex items-center">
+            <LayoutDashboard className="mr-3 text-indigo-600" size={32} />
+            {currentExam ? `Exam: ${currentExam.name}` : 'Exam Folders'}
+            {!online && (
+              <span className="ml-3 px-3 py-1 bg-amber-100 text-amber-700 rounded-full text-xs font-black uppercase tracking-widest flex items-center gap-1">
+                <WifiOff size={14} /> Offline
+              </span>
+            )}
+          </h1>
+          <p className="text-slate-500 font-medium">
+            {currentExam ? `Manage student records for ${currentExam.name}` : canManageExams ? 'Organize student results by creating folders for different exams.' : 'Exam folders assigned to you.'}
+          </p>
+          {currentExam && examDetails(currentExam) && <p className="text-sm text-slate-400 font-bold mt-1">{examDetails(currentExam)}</p>}
+          {currentExam && (
+            <div className="mt-3 flex items-center gap-3">
+              <VisibilityBadge exam={currentExam} />
+              {canManageExams && (
+                <button
+                  onClick={() => onUpdateExam({ ...currentExam, published: !currentExam.published })}
+                  className="text-xs font-black uppercase tracking-widest text-indigo-600 hover:text-indigo-800"
+                >
+                  {currentExam.published ? 'Unpublish' : 'Publish'}
+                </button>
+              )}
+            </div>
+          )}
+          {currentExam && canManageExams && (
+            <label className="mt-3 flex items-center gap-2 text-xs font-black text-slate-400 uppercase tracking-widest">
+              Grading
+              <select
+                value={scheme.id}
+                onChange={e => onUpdateExam({ ...currentExam, gradingSchemeId: e.target.value })}
+                className="px-3 py-2 border border-slate-200 rounded-xl outline-none focus:ring-2 focus:ring-indigo-500 text-slate-900 font-bold normal-case tracking-normal bg-white"
+              >
+                {gradingSchemes.map(g => <option key={g.id} value={g.id}>{g.name}</option>)}
+              </select>
+            </label>
+          )}
+        </div>
+        <div className="flex flex-wrap gap-4">
+          {currentExam ? (
+            <>
+              <button onClick={() => onOpenExam(null)} className="flex items-center gap-2 px-6 py-3 border border-slate-200 text-slate-600 rounded-2xl font-bold hover:bg-slate-50">
+                <ChevronLeft size={20} /> Back to Folders
+              </button>
+              <button onClick={() => setShowImport(true)} className="flex items-center gap-2 px-6 py-3 border border-slate-200 text-slate-600 rounded-2xl font-bold hover:bg-slate-50">
+                <Upload size={20} /> Import
+              </button>
+              <button onClick={() => setRemarksIds(filteredStudents.map(s => s.id))} className="flex items-center gap-2 px-6 py-3 border border-slate-200 text-slate-600 rounded-2xl font-bold hover:bg-slate-50">
+                <MessageSquareText size={20} /> Remarks
+              </button>
+              <div className="relative">
+                <button onClick={() => setShowExportMenu(!showExportMenu)} className="flex items-center gap-2 px-6 py-3 border border-slate-200 text-slate-600 rounded-2xl font-bold hover:bg-slate-50">
+                  <Download size={20} /> Export
+                </button>
+                {showExportMenu && (
+                  <div className="absolute right-0 mt-2 w-48 bg-white border border-slate-100 rounded-2xl shadow-xl overflow-hidden z-10">
+                    <button onClick={() => { exportExamCsv(currentExam, filteredStudents); setShowExportMenu(false); }} className="w-full px-4 py-3 text-left font-bold text-slate-700 hover:bg-slate-50">CSV</button>
+                    <button onClick={() => { exportExamJson(currentExam, filteredStudents); setShowExportMenu(false); }} className="w-full px-4 py-3 text-left font-bold text-slate-700 hover:bg-slate-50">JSON</button>
+                    <button onClick={() => { exportAnalyticsCsv(currentExam, computeExamAnalytics(currentExam, filteredStudents, scheme)); setShowExportMenu(false); }} className="w-full px-4 py-3 text-left font-bold text-slate-700 hover:bg-slate-50">Summary Report</button>
+                    <button onClick={() => { generateMeritListPdf(currentExam, filteredStudents, schoolSettings); setShowExportMenu(false); }} className="w-full px-4 py-3 text-left font-bold text-slate-700 hover:bg-slate-50">Merit List</button>
+                    <button onClick={() => { generateToppersPdf(currentExam, filteredStudents, scheme, schoolSettings); setShowExportMenu(false); }} className="w-full px-4 py-3 text-left font-bold text-slate-700 hover:bg-slate-50">Toppers</button>
+                  </div>
+                )}
+              </div>
+              <button onClick={() => setShowScanner(true)} className="flex items-center gap-2 px-6 py-3 bg-slate-900 text-white rounded-2xl font-bold hover:bg-slate-800">
+                <Camera size={20} /> AI Scan
+              </button>
+              <button onClick={() => openStudentModal()} className="flex items-center gap-2 px-6 py-3 bg-indigo-600 text-white rounded-2xl font-bold hover:bg-indigo-700">
+                <Plus size={20} /> Add Student
+              </button>
+            </>
+          ) : (
+            <>
+              <button onClick={() => setShowRegistry(true)} className="flex items-center gap-2 px-6 py-4 border border-slate-200 text-slate-600 rounded-2xl font-bold hover:bg-slate-50">
+                <Contact size={20} /> Students
+              </button>
+              {hasPermission(currentUser, 'manage_users') && (
+                <button onClick={() => setShowUsers(true)} className="flex items-center gap-2 px-6 py-4 border border-slate-200 text-slate-600 rounded-2xl font-bold hover:bg-slate-50">
+                  <Users size={20} /> Users
+                </button>
+              )}
+              {canManageSettings && (
+                <>
+                  <button onClick={() => setShowSchoolSettings(true)} className="flex items-center gap-2 px-6 py-4 border border-slate-200 text-slate-600 rounded-2xl font-bold hover:bg-slate-50">
+                    <School size={20} /> Marksheet
+                  </button>
+                  <button onClick={() => setShowBackup(true)} className="flex items-center gap-2 px-6 py-4 border border-slate-200 text-slate-600 rounded-2xl font-bold hover:bg-slate-50">
+                    <DatabaseBackup size={20} /> Backup
+                  </button>
+                  <button onClick={() => setShowSchemeManager(true)} className="flex items-center gap-2 px-6 py-4 border border-slate-200 text-slate-600 rounded-2xl font-bold hover:bg-slate-50">
+                    <Settings size={20} /> Grading Schemes
+                  </button>
+                </>
+              )}
+              <button onClick={() => setShowAuditLog(true)} className="flex items-center gap-2 px-6 py-4 border border-slate-200 text-slate-600 rounded-2xl font-bold hover:bg-slate-50">
+                <ScrollText size={20} /> Audit Log
+              </button>
+              {visibleReevaluations.length > 0 && (
+                <button onClick={() => setReevaluationScope('all')} className={`flex items-center gap-2 px-6 py-4 border rounded-2xl font-bold ${pendingReevaluations.length ? 'border-amber-200 bg-amber-50 text-amber-700' : 'border-slate-200 text-slate-600 hover:bg-slate-50'}`}>
+                  <Scale size={20} /> Re-evaluations{pendingReevaluations.length > 0 && ` (${pendingReevaluations.length} pending)`}
+                </button>
+              )}
+              {visibleTrash.length > 0 && (
+                <button onClick={() => setShowTrash(true)} className="flex items-center gap-2 px-6 py-4 border border-slate-200 text-slate-600 rounded-2xl font-bold hover:bg-slate-50">
+                  <Trash2 size={20} /> Trash ({visibleTrash.length})
+                </button>
+              )}
+              {archivedCount > 0 && (
+                <button onClick={() => setShowArchived(!showArchived)} className={`flex items-center gap-2 px-6 py-4 border rounded-2xl font-bold ${showArchived ? 'border-indigo-200 bg-indigo-50 text-indigo-700' : 'border-slate-200 text-slate-600 hover:bg-slate-50'}`}>
+                  <Archive size={20} /> Archived ({archivedCount})
+                </button>
+              )}
+              {canManageExams && (
+                <button onClick={() => openExamForm('create')} className="flex items-center gap-2 px-8 py-4 bg-indigo-600 text-white rounded-2xl font-black shadow-xl hover:bg-indigo-700 active:scale-95 transition-all">
+                  <FolderPlus size={24} /> New Exam Folder
+                </button>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+
+      {!currentExam ? (
+        /* Folder View */
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-6">
+          {folderExams.map(exam => (
+            <div key={exam.id} className={`bg-white p-8 rounded-[2rem] shadow-sm border border-slate-100 hover:shadow-xl hover:border-indigo-100 transition-all cursor-pointer group flex flex-col justify-between ${exam.archived ? 'opacity-60' : ''}`} onClick={() => onOpenExam(exam.id)}>
+              <div className="flex justify-between items-start mb-6">
+                <div className="p-4 bg-indigo-50 rounded-2xl text-indigo-600 group-hover:bg-indigo-600 group-hover:text-white transition-colors">
+                  <Folder size={32} />
+                </div>
+                {canManageExams && (
+                  <div className="flex" onClick={e => e.stopPropagation()}>
+                    <button onClick={() => openExamForm('edit', exam)} title="Rename & details" className="p-2 text-slate-300 hover:text-indigo-600 hover:bg-indigo-50 rounded-lg transition-colors"><Edit size={18} /></button>
+                    <button onClick={() => openExamForm('duplicate', exam)} title="Duplicate setup" className="p-2 text-slate-300 hover:text-indigo-600 hover:bg-indigo-50 rounded-lg transition-colors"><Copy size={18} /></button>
+                    <button onClick={() => onUpdateExam({ ...exam, archived: !exam.archived })} title={exam.archived ? 'Unarchive' : 'Archive'} className="p-2 text-slate-300 hover:text-indigo-600 hover:bg-indigo-50 rounded-lg transition-colors">
+                      {exam.archived ? <ArchiveRestore size={18} /> : <Archive size={18} />}
+                    </button>
+                    <button 
+                      onClick={() => { if(confirm(`Move folder "${exam.name}" and all its records to the trash?`)) onDeleteExam(exam.id); }}
+                      title="Delete" className="p-2 text-slate-300 hover:text-red-500 hover:bg-red-50 rounded-lg transition-colors"
+                    ><Trash2 size={18} /></button>
+                  </div>
+                )}
+              </div>
+              <div>
+                <h3 className="text-xl font-bold text-slate-900 mb-1 flex items-center gap-2">
+                  {exam.name}
+                  {exam.archived && <span className="px-2 py-0.5 bg-slate-100 text-slate-500 rounded-full text-[10px] font-black uppercase tracking-widest">Archived</span>}
+                  <VisibilityBadge exam={exam} />
+                </h3>
+                {examDetails(exam) && <p className="text-slate-500 text-sm font-bold">{examDetails(exam)}</p>}
+                <p className="text-slate-400 text-sm font-medium">
+                  {students.filter(s => s.examId === exam.id).length} Students Enrolled
+                </p>
+                {pendingScans.some(s => s.examId === exam.id) && (
+                  <p className="text-amber-600 text-sm font-bold flex items-center gap-1">
+                    <WifiOff size={14} /> {pendingScans.filter(s => s.examId === exam.id).length} offline scan(s)
+                  </p>
+                )}
+              </div>
+              <div className="mt-6 flex items-center text-indigo-600 font-bold group-hover:gap-2 transition-all">
+                Enter Folder <ArrowRight size={18} className="ml-1" />
+              </div>
+            </div>
+          ))}
+          {folderExams.length === 0 && (
+            <div className="col-span-full py-24 bg-slate-50 border-2 border-dashed border-slate-200 rounded-[3rem] text-center">
+              <Folder size={64} className="mx-auto text-slate-200 mb-4" />
+              <p className="text-slate-400 font-bold text-xl">{canManageExams ? 'Create your first exam folder to get started.' : 'No exam folders have been assigned to you yet.'}</p>
+            </div>
+          )}
+        </div>
+      ) : (
+        <>
+          {examPendingScans.length > 0 && (
+            <div className="mb-6 p-4 bg-amber-50 border border-amber-100 rounded-2xl flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+              <div className="flex items-center gap-3 text-amber-700">
+                <WifiOff size={20} className="shrink-0" />
+                <div>
+                  <p className="font-bold">{examPendingScans.length} sheet(s) captured offline</p>
+                  <p className="text-sm font-medium">
+                    {[
+                      pendingCount('queued') && `${pendingCount('queued')} waiting for a connection`,
+                      pendingCount('scanning') && `${pendingCount('scanning')} being read`,
+                      pendingCount('ready') && `${pendingCount('ready')} ready to review`,
+                      pendingCount('failed') && `${pendingCount('failed')} failed`,
+                    ].filter(Boolean).join(' · ')}
+                  </p>
+                </div>
+              </div>
+              <div className="flex gap-2">
+                {pendingCount('failed') > 0 && (
+                  <button onClick={() => onRetryPendingScans(examPendingScans.filter(s => s.status === 'failed').map(s => s.id))} className="flex items-center gap-2 px-4 py-2 border border-amber-200 text-amber-700 rounded-xl font-bold hover:bg-amber-100">
+                    <RotateCcw size={16} /> Retry
+                  </button>
+                )}
+                <button onClick={() => setShowPendingScans(true)} className="flex items-center gap-2 px-4 py-2 bg-amber-500 text-white rounded-xl font-bold hover:bg-amber-600">
+                  <Scan size={16} /> Review
+                </button>
+              </div>
+            </div>
+          )}
+          {examPendingReevaluations > 0 && (
+            <div className="mb-6 p-4 bg-amber-50 border border-amber-100 rounded-2xl flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+              <div className="flex items-center gap-3 text-amber-700">
+                <Scale size={20} className="shrink-0" />
+                <p className="font-bold">{examPendingReevaluations} re-evaluation request(s) waiting for review</p>
+              </div>
+              <button onClick={() => setReevaluationScope('exam')} className="flex items-center gap-2 px-4 py-2 bg-amber-500 text-white rounded-xl font-bold hover:bg-amber-600">
+                <Scale size={16} /> Review
+              </button>
+            </div>
+          )}
+          <div className="flex gap-2 mb-6">
+            {([['records', 'Records', Table], ['analytics', 'Analytics', BarChart3]] as const).map(([tab, label, Icon]) => (
+              <button key={tab} onClick={() => setExamTab(tab)} className={`flex items-center gap-2 px-5 py-3 rounded-2xl font-bold ${examTab === tab ? 'bg-slate-900 text-white' : 'text-slate-500 hover:bg-slate-100'}`}>
+                <Icon size={18} /> {label}
+              </button>
+            ))}
+          </div>
+          {examTab === 'analytics' && analytics ? (
+            <ExamAnalyticsPanel exam={currentExam} analytics={analytics} />
+          ) : (
+            /* Student List View */
+            <div className="space-y-4">
+              <div className="flex flex-wrap gap-3">
+                <div className="relative flex-1 min-w-[14rem]">
+                  <Search className="absolute left-4 top-1/2 -translate-y-1/2 text-slate-300" size={18} />
+                  <input value={filters.query} onChange={e => updateFilters({ query: e.target.value })} placeholder="Search by name or roll number" className="w-full pl-11 pr-4 py-3 bg-white border border-slate-200 rounded-2xl outline-none focus:ring-2 focus:ring-indigo-500 text-slate-900 font-bold" />
+                </div>
+                <select value={filters.className} onChange={e => updateFilters({ className: e.target.value })} className="px-4 py-3 bg-white border border-slate-200 rounded-2xl outline-none focus:ring-2 focus:ring-indigo-500 text-slate-700 font-bold">
+                  <option value="">All classes</option>
+                  {classOptions.map(c => <option key={c} value={c}>Class {c}</option>)}
+                </select>
+                <select value={filters.grade} onChange={e => updateFilters({ grade: e.target.value })} className="px-4 py-3 bg-white border border-slate-200 rounded-2xl outline-none focus:ring-2 focus:ring-indigo-500 text-slate-700 font-bold">
+                  <option value="">All grades</option>
+                  {gradeOptions.map(g => <option key={g} value={g}>Grade {g}</option>)}
+                </select>
+                <select value={filters.status} onChange={e => updateFilters({ status: e.target.value as StudentTableFilters['status'] })} className="px-4 py-3 bg-white border border-slate-200 rounded-2xl outline-none focus:ring-2 focus:ring-indigo-500 text-slate-700 font-bold">
+                  <option value="">Any result</option>
+                  <option value="Pass">Pass</option>
+                  <option value="Compartment">Compartment</option>
+                  <option value="Fail">Fail</option>
+                </select>
+                {Object.values(filters).some(Boolean) && (
+                  <button onClick={() => updateFilters(EMPTY_TABLE_FILTERS)} className="flex items-center gap-2 px-4 py-3 text-slate-500 font-bold hover:text-indigo-600">
+                    <FilterX size={18} /> Clear
+                  </button>
+                )}
+              </div>
+              {selectedStudents.length > 0 && (
+                <div className="flex flex-wrap items-center gap-2 px-6 py-3 bg-indigo-50 border border-indigo-100 rounded-2xl">
+                  <span className="font-black text-indigo-700 mr-2">{selectedStudents.length} selected</span>
+                  {selectedStudents.length < tableStudents.length && (
+                    <button onClick={() => toggleSelected(tableStudents.map(s => s.id), true)} className="text-sm font-bold text-indigo-600 hover:underline mr-auto">Select all {tableStudents.length} matching</button>
+                  )}
+                  <div className="flex flex-wrap gap-2 ml-auto">
+                    <button onClick={() => exportExamCsv(currentExam, selectedStudents)} className="flex items-center gap-2 px-4 py-2 bg-white border border-slate-200 text-slate-600 rounded-xl font-bold hover:bg-slate-50"><Download size={16} /> Export</button>
+                    <button onClick={() => setRemarksIds(selectedStudents.map(s => s.id))} className="flex items-center gap-2 px-4 py-2 bg-white border border-slate-200 text-slate-600 rounded-xl font-bold hover:bg-slate-50"><MessageSquareText size={16} /> Remarks</button>
+                    {transferTargets.length > 0 && (
+                      <>
+                        <button onClick={() => setTransferMode('move')} className="flex items-center gap-2 px-4 py-2 bg-white border border-slate-200 text-slate-600 rounded-xl font-bold hover:bg-slate-50"><FolderInput size={16} /> Move</button>
+                        <button onClick={() => setTransferMode('copy')} className="flex items-center gap-2 px-4 py-2 bg-white border border-slate-200 text-slate-600 rounded-xl font-bold hover:bg-slate-50"><Copy size={16} /> Copy</button>
+                      </>
+                    )}
+                    <button onClick={() => onDeleteStudents(selectedStudents.map(s => s.id))} className="flex items-center gap-2 px-4 py-2 bg-white border border-red-100 text-red-600 rounded-xl font-bold hover:bg-red-50"><Trash2 size={16} /> Delete</button>
+                    <button onClick={() => setSelectedIds(new Set())} className="p-2 text-slate-400 hover:text-slate-600" title="Clear selection"><X size={18} /></button>
+                  </div>
+                </div>
+              )}
+              <div className="bg-white rounded-[2rem] shadow-sm border border-slate-100 overflow-hidden">
+                <table className="w-full text-left">
+                  <thead className="bg-slate-50 text-slate-400 text-xs uppercase font-black tracking-widest">
+                    <tr>
+                      <th className="pl-8 py-5 w-4">
+                        <input type="checkbox" aria-label="Select page" checked={pageSelected} onChange={e => toggleSelected(pageStudents.map(s => s.id), e.target.checked)} className="w-4 h-4 accent-indigo-600" />
+                      </th>
+                      {([[['name', 'Student'], ['rollNo', 'Roll']], [['score', 'Score']], [['rank', 'Rank']], [['grade', 'Grade']]] as const).map(column => (
+                        <th key={column[0][0]} className="px-8 py-5 space-x-3">
+                          {column.map(([key, label]) => (
+                            <button key={key} onClick={() => toggleSort(key)} className={`uppercase tracking-widest font-black hover:text-indigo-600 ${sortBy?.key === key ? 'text-indigo-600' : ''}`}>
+                              {label}{sortBy?.key === key && (sortBy.desc ? ' ↓' : ' ↑')}
+                            </button>
+                          ))}
+                        </th>
+                      ))}
+                      <th className="px-8 py-5 text-right">Actions</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-slate-50">
+                    {pageStudents.map(s => (
+                      <tr key={s.id} className={`transition-colors group ${selectedIds.has(s.id) ? 'bg-indigo-50/40' : 'hover:bg-slate-50/50'}`}>
+                        <td className="pl-8 py-5">
+                          <input type="checkbox" aria-label={`Select ${s.name}`} checked={selectedIds.has(s.id)} onChange={e => toggleSelected([s.id], e.target.checked)} className="w-4 h-4 accent-indigo-600" />
+                        </td>
+                        <td className="px-8 py-5">
+                          <p className="font-bold text-slate-900">{s.name}</p>
+                          <p className="text-xs text-slate-400">Roll: {s.rollNo} • {s.className}</p>
+                          {s.remarks?.status === 'draft' && <p className="text-[10px] font-black uppercase tracking-widest text-amber-600 mt-1">Draft remarks</p>}
+                        </td>
+                        <td className="px-8 py-5 font-black text-slate-700">{s.total}/{s.maxTotal} ({s.percentage}%)</td>
+                        <td className="px-8 py-5">
+                          <p className="font-black text-slate-700">{s.rank ? `#${s.rank.exam}` : '-'}</p>
+                          {s.rank && <p className="text-xs text-slate-400">Class #{s.rank.class} • P{s.rank.percentile}</p>}
+                        </td>
+                        <td className="px-8 py-5">
+                          <span className={`px-4 py-1.5 rounded-full text-xs font-black tracking-widest border ${statusBadgeClass(s.status)}`}>
+                            {s.grade} • {s.status}
+                          </span>
+                        </td>
+                        <td className="px-8 py-5 text-right space-x-2">
+                          <button onClick={() => openStudentModal(s)} className="p-2 text-slate-400 hover:text-indigo-600 transition-colors"><Edit size={18} /></button>
+                          <button onClick={() => setHistoryFor(s)} title="Revision history" className="p-2 text-slate-400 hover:text-indigo-600 transition-colors"><History size={18} /></button>
+                          <button onClick={() => onDeleteStudents([s.id])} className="p-2 text-slate-400 hover:text-red-500 transition-colors"><Trash2 size={18} /></button>
+                        </td>
+                      </tr>
+                    ))}
+                    {tableStudents.length === 0 && (
+                      <tr><td colSpan={6} className="py-20 text-center text-slate-300 font-bold">{filteredStudents.length ? 'No records match these filters.' : 'No students in this exam folder.'}</td></tr>
+                    )}
+                  </tbody>
+                </table>
+              </div>
+              {tableStudents.length > TABLE_PAGE_SIZES[0] && (
+                <div className="flex flex-wrap justify-between items-center gap-4 px-2 text-sm font-bold text-slate-500">
+                  <span>Showing {currentPage * pageSize + 1}–{currentPage * pageSize + pageStudents.length} of {tableStudents.length}</span>
+                  <div className="flex items-center gap-2">
+                    <select value={pageSize} onChange={e => { setPageSize(Number(e.target.value)); setPage(0); }} className="px-3 py-2 bg-white border border-slate-200 rounded-xl outline-none focus:ring-2 focus:ring-indigo-500">
+                      {TABLE_PAGE_SIZES.map(n => <option key={n} value={n}>{n} per page</option>)}
+                    </select>
+                    <button disabled={currentPage === 0} onClick={() => setPage(currentPage - 1)} className="p-2 rounded-xl border border-slate-200 bg-white hover:bg-slate-50 disabled:opacity-30"><ChevronLeft size={18} /></button>
+                    <span>Page {currentPage + 1} of {pageCount}</span>
+                    <button disabled={currentPage >= pageCount - 1} onClick={() => setPage(currentPage + 1)} className="p-2 rounded-xl border border-slate-200 bg-white hover:bg-slate-50 disabled:opacity-30"><ChevronRight size={18} /></button>
+                  </div>
+                </div>
+              )}
+            </div>
+          )}
+        </>
+      )}
+
+      {/* Modals */}
+      {examForm && (
+        <div className="fixed inset-0 bg-slate-900/60 backdrop-blur-md flex items-center justify-center p-4 z-[90]">
+          <div className="bg-white rounded-[2rem] w-full max-w-lg max-h-[90vh] overflow-y-auto p-8 shadow-2xl animate-in zoom-in-95">
+            <h3 className="text-2xl font-black text-slate-900 mb-6">
+              {examForm.mode === 'edit' ? 'Edit Exam Folder' : examForm.mode === 'duplicate' ? 'Duplicate Exam Folder' : 'New Exam Folder'}
+            </h3>
+            <form onSubmit={handleExamSubmit} className="space-y-6">
+              <div>
+                <label className="text-xs font-black text-slate-400 uppercase tracking-widest mb-2 block">Exam Name</label>
+                <input required autoFocus value={examForm.draft.name} onChange={e => setExamForm({ ...examForm, draft: { ...examForm.draft, name: e.target.value } })} className="w-full px-6 py-4 border border-slate-100 bg-slate-50 rounded-2xl focus:ring-2 focus:ring-indigo-500 outline-none text-slate-900 font-bold" placeholder="e.g. Finals 2024" />
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="text-xs font-black text-slate-400 uppercase tracking-widest mb-2 block">Academic Year</label>
+                  <input value={examForm.draft.academicYear || ''} onChange={e => setExamForm({ ...examForm, draft: { ...examForm.draft, academicYear: e.target.value } })} className="w-full px-6 py-4 border border-slate-100 bg-slate-50 rounded-2xl focus:ring-2 focus:ring-indigo-500 outline-none text-slate-900 font-bold" placeholder="e.g. 2024-25" />
+                </div>
+                <div>
+                  <label className="text-xs font-black text-slate-400 uppercase tracking-widest mb-2 block">Term</label>
+                  <input value={examForm.draft.term || ''} onChange={e => setExamForm({ ...examForm, draft: { ...examForm.draft, term: e.target.value } })} className="w-full px-6 py-4 border border-slate-100 bg-slate-50 rounded-2xl focus:ring-2 focus:ring-indigo-500 outline-none text-slate-900 font-bold" placeholder="e.g. Term 1" />
+                </div>
+                <div className="col-span-2">
+                  <label className="text-xs font-black text-slate-400 uppercase tracking-widest mb-2 block">Exam Date</label>
+                  <input type="date" value={examForm.draft.examDate || ''} onChange={e => setExamForm({ ...examForm, draft: { ...examForm.draft, examDate: e.target.value || undefined } })} className="w-full px-6 py-4 border border-slate-100 bg-slate-50 rounded-2xl focus:ring-2 focus:ring-indigo-500 outline-none text-slate-900 font-bold" />
+                </div>
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="text-xs font-black text-slate-400 uppercase tracking-widest mb-2 block">Results</label>
+                  <select value={examForm.draft.published ? 'published' : 'draft'} onChange={e => setExamForm({ ...examForm, draft: { ...examForm.draft, published: e.target.value === 'published' } })} className="w-full px-6 py-4 border border-slate-100 bg-slate-50 rounded-2xl focus:ring-2 focus:ring-indigo-500 outline-none text-slate-900 font-bold">
+                    <option value="draft">Draft (hidden)</option>
+                    <option value="published">Published</option>
+                  </select>
+                </div>
+                <div>
+                  <label className="text-xs font-black text-slate-400 uppercase tracking-widest mb-2 block">Publish From</label>
+                  <input
+                    type="datetime-local" disabled={!examForm.draft.published}
+                    value={examForm.draft.publishAt ? toLocalDateTime(examForm.draft.publishAt) : ''}
+                    onChange={e => setExamForm({ ...examForm, draft: { ...examForm.draft, publishAt: e.target.value ? new Date(e.target.value).toISOString() : undefined } })}
+                    className="w-full px-6 py-4 border border-slate-100 bg-slate-50 rounded-2xl focus:ring-2 focus:ring-indigo-500 outline-none text-slate-900 font-bold disabled:opacity-40"
+                  />
+                </div>
+              </div>
+              <div>
+                <label className="text-xs font-black text-slate-400 uppercase tracking-widest mb-2 block">Ranking Ties</label>
+                <select value={examForm.draft.tieBreak || 'shared'} onChange={e => setExamForm({ ...examForm, draft: { ...examForm.draft, tieBreak: e.target.value as TieBreakPolicy } })} className="w-full px-6 py-4 border border-slate-100 bg-slate-50 rounded-2xl focus:ring-2 focus:ring-indigo-500 outline-none text-slate-900 font-bold">
+                  {(Object.keys(TIE_BREAK_POLICIES) as TieBreakPolicy[]).map(p => <option key={p} value={p}>{TIE_BREAK_POLICIES[p]}</option>)}
+                </select>
+              </div>
+              <div>
+                <label className="text-xs font-black text-slate-400 uppercase tracking-widest mb-2 block">Re-evaluation Requests</label>
+                <div className="flex items-center gap-3">
+                  <input
+                    type="number" min="1" placeholder="Off"
+                    value={examForm.draft.reevaluationDays ?? ''}
+                    onChange={e => setExamForm({ ...examForm, draft: { ...examForm.draft, reevaluationDays: parseInt(e.target.value) > 0 ? parseInt(e.target.value) : undefined } })}
+                    className="w-32 px-6 py-4 border border-slate-100 bg-slate-50 rounded-2xl focus:ring-2 focus:ring-indigo-500 outline-none text-slate-900 font-bold"
+                  />
+                  <span className="text-sm font-bold text-slate-400">days after publication</span>
+                </div>
+              </div>
+              <div>
+                <label className="text-xs font-black text-slate-400 uppercase tracking-widest mb-2 block">Subjects &amp; Max Marks</label>
+                <SubjectEditor subjects={examForm.draft.subjects} fixedSubjects={examForm.mode === 'edit'} onChange={subjects => setExamForm({ ...examForm, draft: { ...examForm.draft, subjects } })} />
+                {examForm.mode === 'edit' && <p className="mt-2 text-xs font-medium text-slate-400">Saving re-grades every result in this folder. Results entered as a single mark keep it until their components are marked.</p>}
+              </div>
+              {examForm.mode !== 'edit' && (
+                <div>
+                  <label className="text-xs font-black text-slate-400 uppercase tracking-widest mb-2 block">Grading Scheme</label>
+                  <select value={examForm.draft.gradingSchemeId || DEFAULT_GRADING_SCHEME.id} onChange={e => setExamForm({ ...examForm, draft: { ...examForm.draft, gradingSchemeId: e.target.value } })} className="w-full px-6 py-4 border border-slate-100 bg-slate-50 rounded-2xl focus:ring-2 focus:ring-indigo-500 outline-none text-slate-900 font-bold">
+                    {gradingSchemes.map(g => <option key={g.id} value={g.id}>{g.name}</option>)}
+                  </select>
+                </div>
+              )}
+              {examError && <div className="p-4 bg-red-50 text-red-600 rounded-2xl text-sm font-bold flex items-center gap-2 border border-red-100"><AlertCircle size={18} /> {examError}</div>}
+              <div className="flex gap-4">
+                <button type="button" onClick={() => setExamForm(null)} className="flex-1 py-4 border border-slate-100 rounded-2xl font-bold text-slate-400">Cancel</button>
+                <button type="submit" className="flex-1 py-4 bg-indigo-600 text-white rounded-2xl font-black shadow-lg">{examForm.mode === 'edit' ? 'Save' : 'Create'}</button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+
+      {showStudentModal && (
+        <div className="fixed inset-0 bg-slate-900/60 backdrop-blur-md flex items-center justify-center p-4 z-[90]">
+          <div className="bg-white rounded-[2.5rem] w-full max-w-2xl max-h-[90vh] overflow-y-auto shadow-2xl p-8 animate-in zoom-in-95">
+            <div className="flex justify-between items-center mb-8">
+              <h3 className="text-2xl font-black text-slate-900">{editingId ? 'Edit Student' : 'Enroll Student'}</h3>
+              <button onClick={() => setShowStudentModal(false)} className="text-slate-300 hover:text-slate-600"><X size={32} /></button>
+            </div>
+            <form onSubmit={handleStudentSubmit} className="space-y-8">
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                <div className="md:col-span-2">
+                  <label className="text-xs font-black text-slate-400 uppercase tracking-widest mb-2 block px-1">Full Name</label>
+                  <input required value={formData.name || ''} onChange={e => setFormData({...formData, name: e.target.value})} className="w-full px-6 py-4 bg-slate-50 border border-slate-100 rounded-2xl outline-none focus:ring-2 focus:ring-indigo-500 text-slate-900 font-bold" />
+                  {linkedProfile ? (
+                    <div className="mt-2 flex items-center justify-between gap-2 px-4 py-2 bg-indigo-50 border border-indigo-100 rounded-xl text-sm font-bold text-indigo-700">
+                      <span className="flex items-center gap-2"><Contact size={16} /> Registry: {linkedProfile.name} • Roll {linkedProfile.rollNo} • Class {linkedProfile.className}</span>
+                      <button type="button" onClick={() => setFormData({...formData, profileId: undefined})} className="flex items-center gap-1 text-indigo-400 hover:text-indigo-700"><Unlink size={14} /> Unlink</button>
+                    </div>
+                  ) : registrySuggestions.length > 0 && (
+                    <div className="mt-2 bg-white border border-slate-100 rounded-2xl shadow-lg overflow-hidden">
+                      <p className="px-4 pt-3 text-[10px] font-black text-slate-400 uppercase tracking-widest">Registered students</p>
+                      {registrySuggestions.map(p => (
+                        <button
+                          key={p.id} type="button"
+                          onClick={() => setFormData({...formData, profileId: p.id, name: p.name, rollNo: p.rollNo, className: p.className})}
+                          className="w-full px-4 py-2 text-left font-bold text-slate-700 hover:bg-slate-50"
+                        >
+                          {p.name} <span className="text-xs text-slate-400 font-medium">Roll {p.rollNo} • Class {p.className}{p.section && ` ${p.section}`}</span>
+                        </button>
+                      ))}
+                    </div>
+                  )}
+                </div>
+                <div>
+                  <label className="text-xs font-black text-slate-400 uppercase tracking-widest mb-2 block px-1">Roll No</label>
+                  <input required value={formData.rollNo || ''} onChange={e => setFormData({...formData, rollNo: e.target.value})} className="w-full px-6 py-4 bg-slate-50 border border-slate-100 rounded-2xl outline-none focus:ring-2 focus:ring-indigo-500 text-slate-900 font-bold" />
+                </div>
+                <div>
+                  <label className="text-xs font-black text-slate-400 uppercase tracking-widest mb-2 block px-1">Class</label>
+                  <input required value={formData.className || ''} onChange={e => setFormData({...formData, className: e.target.value})} className="w-full px-6 py-4 bg-slate-50 border border-slate-100 rounded-2xl outline-none focus:ring-2 focus:ring-indigo-500 text-slate-900 font-bold" />
+                </div>
+              </div>
+              <div className="bg-slate-50 p-6 rounded-3xl space-y-4 border border-slate-100">
+                <p className="text-xs font-black text-slate-400 uppercase tracking-widest px-1">Academic Data</p>
+                <div className="grid grid-cols-2 sm:grid-cols-3 gap-4">
+                  {subjects.map(sub => {
+                    const taken = formData.marks?.[sub.key] !== undefined;
+                    return (
+                      <div key={sub.key}>
+                        <label className="flex items-center gap-1 text-[10px] font-black uppercase text-slate-500 mb-1 px-1">
+                          {sub.optional && (
+                            <input type="checkbox" checked={taken} onChange={e => {
+                              const { [sub.key]: _, ...rest } = formData.marks || {};
+                              const { [sub.key]: __, ...otherParts } = formData.componentMarks || {};
+                              setFormData({...formData, marks: e.target.checked ? {...rest, [sub.key]: 0} : rest, componentMarks: otherParts});
+                            }} />
+                          )}
+                          {sub.name} <span className="text-slate-300">/ {sub.maxMarks}</span>
+                          {hasComponents(sub) && taken && <span className="ml-auto text-indigo-600">{formData.marks?.[sub.key]}</span>}
+                        </label>
+                        {hasComponents(sub) ? (
+                          <div className="space-y-1">
+                            {sub.components!.map(c => (
+                              <div key={c.kind} className="flex items-center gap-2">
+                                <span className="w-20 text-[10px] font-bold text-slate-400">{COMPONENT_LABELS[c.kind]} /{c.maxMarks}</span>
+                                <input
+                                  type="number" required={taken} disabled={!taken} min="0" max={c.maxMarks}
+                                  value={formData.componentMarks?.[sub.key]?.[c.kind] ?? ''}
+                                  onChange={e => setFormData(withComponentMark(formData, sub, c.kind, parseInt(e.target.value) || 0))}
+                                  className="flex-1 min-w-0 px-3 py-1.5 bg-white border border-slate-100 rounded-lg outline-none focus:ring-2 focus:ring-indigo-500 text-slate-900 font-black text-center disabled:opacity-40"
+                                />
+                              </div>
+                            ))}
+                          </div>
+                        ) : (
+                          <input 
+                            type="number" required={taken} disabled={!taken} min="0" max={sub.maxMarks}
+                            value={formData.marks?.[sub.key] ?? ''}
+                            onChange={e => setFormData({...formData, marks: {...formData.marks, [sub.key]: parseInt(e.target.value) || 0}})}
+                            className="w-full px-4 py-3 bg-white border border-slate-100 rounded-xl outline-none focus:ring-2 focus:ring-indigo-500 text-slate-900 font-black text-center text-lg disabled:opacity-40"
+                          />
+                        )}
+                      </div>
+                    );
+                  })}
+                </div>
+              </div>
+              <div className="bg-slate-50 p-6 rounded-3xl space-y-4 border border-slate-100">
+                <div className="flex justify-between items-center px-1">
+                  <p className="text-xs font-black text-slate-400 uppercase tracking-widest">Remarks</p>
+                  <button type="button" disabled={suggestingRemarks} onClick={suggestFormRemarks} className="flex items-center gap-2 px-4 py-2 bg-white border border-slate-200 text-indigo-600 rounded-xl font-bold text-sm hover:bg-indigo-50 disabled:opacity-50">
+                    {suggestingRemarks ? <Loader2 size={16} className="animate-spin" /> : <Sparkles size={16} />} Suggest
+                  </button>
+                </div>
+                <textarea
+                  rows={3} value={formData.remarks?.overall || ''} placeholder="Overall remark"
+                  onChange={e => updateFormRemarks({ overall: e.target.value })}
+                  className="w-full px-4 py-3 bg-white border border-slate-100 rounded-xl outline-none focus:ring-2 focus:ring-indigo-500 text-slate-900 font-medium"
+                />
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                  {subjects.filter(sub => formData.marks?.[sub.key] !== undefined).map(sub => (
+                    <div key={sub.key}>
+                      <label className="text-[10px] font-black uppercase text-slate-500 mb-1 px-1 block">{sub.name}</label>
+                      <input
+                        value={formData.remarks?.subjects[sub.key] || ''}
+                        onChange={e => updateFormRemarks({ subjects: { ...formData.remarks?.subjects, [sub.key]: e.target.value } })}
+                        className="w-full px-4 py-2 bg-white border border-slate-100 rounded-xl outline-none focus:ring-2 focus:ring-indigo-500 text-slate-900 text-sm font-medium"
+                      />
+                    </div>
+                  ))}
+                </div>
+                {formData.remarks && (
+                  <label className="flex items-center gap-2 px-1 text-sm font-bold text-slate-600">
+                    <input type="checkbox" checked={formData.remarks.status === 'approved'} onChange={e => updateFormRemarks({ status: e.target.checked ? 'approved' : 'draft' })} className="w-4 h-4 accent-indigo-600" />
+                    Approved for the marksheet
+                    {formData.remarks.status === 'draft' && <span className="text-xs text-amber-600">Draft • {REMARK_SOURCE_LABELS[formData.remarks.source]}</span>}
+                  </label>
+                )}
+              </div>
+              {studentError && <div className="p-4 bg-red-50 text-red-600 rounded-2xl text-sm font-bold flex items-center gap-2 border border-red-100"><AlertCircle size={18} /> {studentError}</div>}
+              <div className="flex gap-4">
+                <button type="button" onClick={() => setShowStudentModal(false)} className="flex-1 py-4 border border-slate-100 rounded-2xl font-bold text-slate-400">Cancel</button>
+                <button type="submit" className="flex-1 py-4 bg-indigo-600 text-white rounded-2xl font-black shadow-lg">Save Record</button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
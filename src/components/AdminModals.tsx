@@ -0,0 +1,724 @@
+import React, { useState, useMemo } from 'react';
+import {
+  Lock,
+  Plus,
+  Search,
+  Trash2,
+  Edit,
+  X,
+  CheckCircle,
+  Loader2,
+  AlertCircle,
+  Upload,
+  FileSpreadsheet,
+  Download,
+  DatabaseBackup,
+  Users,
+  UserPlus,
+  Contact,
+  Layers
+} from 'lucide-react';
+import {
+  BackupFile,
+  BackupRestoreModalProps,
+  ColumnMapping,
+  ComponentKind,
+  GradeBand,
+  GradingScheme,
+  GradingSchemeManagerProps,
+  ImportStudentsModalProps,
+  RestoreMode,
+  SchoolSettings,
+  SchoolSettingsModalProps,
+  StudentProfile,
+  StudentRegistryModalProps,
+  Subject,
+  SubjectComponent,
+  SubjectEditorProps,
+  UserAccount,
+  UserManagerProps,
+  UserRole,
+} from '../types';
+import {
+  COMPONENT_KINDS,
+  COMPONENT_LABELS,
+  componentField,
+  componentWeight,
+  DEFAULT_GRADING_SCHEME,
+  downloadFile,
+  formatExamDate,
+  hasComponents,
+  processStudentData,
+  registryKey,
+  toSubjectKey,
+} from '../utils';
+import { createBackup, fileSafe, parseBackup, toCsv } from '../backup';
+import { createUserAccount, generateAccessPin, MIN_PASSWORD_LENGTH, setUserPassword } from '../auth';
+import { guessColumnMapping, parseSpreadsheet, STUDENT_FIELDS, validateImportRows } from '../import';
+
+export const SchoolSettingsModal = ({ settings, onSave, onClose }: SchoolSettingsModalProps) => {
+  const [draft, setDraft] = useState<SchoolSettings>(settings);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleLogo = (file?: File) => {
+    if (!file) return;
+    if (file.size > 512 * 1024) { setError('Logo must be under 512 KB.'); return; }
+    setError(null);
+    const reader = new FileReader();
+    reader.onload = () => setDraft(d => ({ ...d, logoDataUrl: reader.result as string }));
+    reader.readAsDataURL(file);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    onSave(draft);
+    onClose();
+  };
+
+  const inputClass = "w-full px-6 py-4 border border-slate-100 bg-slate-50 rounded-2xl focus:ring-2 focus:ring-indigo-500 outline-none text-slate-900 font-bold";
+
+  return (
+    <div className="fixed inset-0 bg-slate-900/60 backdrop-blur-md flex items-center justify-center p-4 z-[90]">
+      <div className="bg-white rounded-[2rem] w-full max-w-lg max-h-[90vh] overflow-y-auto p-8 shadow-2xl animate-in zoom-in-95">
+        <h3 className="text-2xl font-black text-slate-900 mb-6">Marksheet Settings</h3>
+        <form onSubmit={handleSubmit} className="space-y-5">
+          <div>
+            <label className="text-xs font-black text-slate-400 uppercase tracking-widest mb-2 block">School Name</label>
+            <input required value={draft.schoolName} onChange={e => setDraft({ ...draft, schoolName: e.target.value })} className={inputClass} />
+          </div>
+          <div>
+            <label className="text-xs font-black text-slate-400 uppercase tracking-widest mb-2 block">Address</label>
+            <input value={draft.address} onChange={e => setDraft({ ...draft, address: e.target.value })} className={inputClass} />
+          </div>
+          <div>
+            <label className="text-xs font-black text-slate-400 uppercase tracking-widest mb-2 block">Logo</label>
+            <div className="flex items-center gap-4">
+              {draft.logoDataUrl && <img src={draft.logoDataUrl} className="h-16 w-16 object-contain rounded-xl border border-slate-100" />}
+              <input type="file" accept="image/png,image/jpeg" onChange={e => handleLogo(e.target.files?.[0])} className="flex-1 text-sm text-slate-500 file:mr-4 file:px-4 file:py-2 file:rounded-xl file:border-0 file:bg-indigo-50 file:text-indigo-600 file:font-bold" />
+              {draft.logoDataUrl && <button type="button" onClick={() => setDraft({ ...draft, logoDataUrl: undefined })} className="p-2 text-slate-300 hover:text-red-500"><X size={18} /></button>}
+            </div>
+            {error && <p className="mt-2 text-sm font-bold text-red-500">{error}</p>}
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="text-xs font-black text-slate-400 uppercase tracking-widest mb-2 block">Signatory</label>
+              <input value={draft.signatoryName} onChange={e => setDraft({ ...draft, signatoryName: e.target.value })} className={inputClass} placeholder="Name" />
+            </div>
+            <div>
+              <label className="text-xs font-black text-slate-400 uppercase tracking-widest mb-2 block">Title</label>
+              <input value={draft.signatoryTitle} onChange={e => setDraft({ ...draft, signatoryTitle: e.target.value })} className={inputClass} />
+            </div>
+          </div>
+          <div className="flex gap-4">
+            <button type="button" onClick={onClose} className="flex-1 py-4 border border-slate-100 rounded-2xl font-bold text-slate-400">Cancel</button>
+            <button type="submit" className="flex-1 py-4 bg-indigo-600 text-white rounded-2xl font-black shadow-lg">Save</button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export const SubjectEditor = ({ subjects, fixedSubjects, onChange }: SubjectEditorProps) => {
+  const update = (i: number, patch: Partial<Subject>) => onChange(subjects.map((sub, j) => j === i ? { ...sub, ...patch } : sub));
+  const addSubject = () => onChange([...subjects, { key: toSubjectKey('New Subject', subjects.map(sub => sub.key)), name: '', maxMarks: 100 }]);
+  const updateComponent = (i: number, j: number, patch: Partial<SubjectComponent>) =>
+    update(i, { components: subjects[i].components!.map((c, k) => k === j ? { ...c, ...patch } : c) });
+  // A new split starts as one theory paper carrying the whole subject.
+  const addComponent = (i: number) => {
+    const sub = subjects[i];
+    const kind = COMPONENT_KINDS.find(k => !sub.components?.some(c => c.kind === k));
+    if (!kind) return;
+    update(i, { components: [...sub.components || [], { kind, maxMarks: sub.components?.length ? 20 : sub.maxMarks, weight: sub.components?.length ? 0 : 100 }] });
+  };
+  const removeComponent = (i: number, j: number) => {
+    const components = subjects[i].components!.filter((_, k) => k !== j);
+    update(i, { components: components.length ? components : undefined });
+  };
+  const inputClass = "px-3 py-2 bg-slate-50 border border-slate-100 rounded-xl outline-none focus:ring-2 focus:ring-indigo-500 text-slate-900 font-black text-center";
+
+  return (
+    <div className="space-y-3">
+      {subjects.map((sub, i) => (
+        <div key={sub.key} className="space-y-2">
+          <div className="flex items-center gap-2">
+            <input required value={sub.name} onChange={e => update(i, { name: e.target.value })} placeholder="Subject" className="flex-1 min-w-0 px-4 py-3 bg-slate-50 border border-slate-100 rounded-xl outline-none focus:ring-2 focus:ring-indigo-500 text-slate-900 font-bold" />
+            <input type="number" required min="1" value={sub.maxMarks} onChange={e => update(i, { maxMarks: parseInt(e.target.value) || 0 })} title="Maximum marks" className="w-20 px-3 py-3 bg-slate-50 border border-slate-100 rounded-xl outline-none focus:ring-2 focus:ring-indigo-500 text-slate-900 font-black text-center" />
+            <input type="number" min="0" max={sub.maxMarks} value={sub.passMarks ?? ''} onChange={e => update(i, { passMarks: e.target.value === '' ? undefined : parseInt(e.target.value) || 0 })} placeholder="Pass" title="Minimum pass mark (blank uses the grading scheme default)" className="w-20 px-3 py-3 bg-slate-50 border border-slate-100 rounded-xl outline-none focus:ring-2 focus:ring-indigo-500 text-slate-900 font-black text-center" />
+            <label className="flex items-center gap-1 text-[10px] font-black uppercase text-slate-400 cursor-pointer">
+              <input type="checkbox" checked={!!sub.optional} onChange={e => update(i, { optional: e.target.checked })} /> Opt
+            </label>
+            <button type="button" disabled={(sub.components?.length || 0) === COMPONENT_KINDS.length} onClick={() => addComponent(i)} title="Add a separately marked component (theory, practical or internal)" className="p-2 text-slate-300 hover:text-indigo-600 disabled:opacity-30"><Layers size={18} /></button>
+            {!fixedSubjects && <button type="button" disabled={subjects.length === 1} onClick={() => onChange(subjects.filter((_, j) => j !== i))} className="p-2 text-slate-300 hover:text-red-500 disabled:opacity-30"><X size={18} /></button>}
+          </div>
+          {hasComponents(sub) && (
+            <div className="ml-4 pl-4 border-l-2 border-indigo-100 space-y-2">
+              {sub.components!.map((c, j) => (
+                <div key={j} className="flex items-center gap-2">
+                  <select value={c.kind} onChange={e => updateComponent(i, j, { kind: e.target.value as ComponentKind })} className="flex-1 min-w-0 px-3 py-2 bg-slate-50 border border-slate-100 rounded-xl outline-none focus:ring-2 focus:ring-indigo-500 text-slate-900 font-bold text-sm">
+                    {COMPONENT_KINDS.map(kind => <option key={kind} value={kind}>{COMPONENT_LABELS[kind]}</option>)}
+                  </select>
+                  <input type="number" required min="1" value={c.maxMarks} onChange={e => updateComponent(i, j, { maxMarks: parseInt(e.target.value) || 0 })} title="Marked out of" className={`w-16 ${inputClass}`} />
+                  <div className="flex items-center gap-1">
+                    <input type="number" required min="0" max="100" value={c.weight} onChange={e => updateComponent(i, j, { weight: parseInt(e.target.value) || 0 })} title="Weight: percentage of the subject's marks" className={`w-16 ${inputClass}`} />
+                    <span className="text-xs font-black text-slate-400">%</span>
+                  </div>
+                  <input type="number" min="0" max={c.maxMarks} value={c.passMarks ?? ''} onChange={e => updateComponent(i, j, { passMarks: e.target.value === '' ? undefined : parseInt(e.target.value) || 0 })} placeholder="Pass" title="Minimum pass mark for this component (blank for none)" className={`w-16 ${inputClass}`} />
+                  <button type="button" onClick={() => removeComponent(i, j)} className="p-1 text-slate-300 hover:text-red-500"><X size={16} /></button>
+                </div>
+              ))}
+              <p className={`text-[10px] font-black uppercase tracking-widest ${componentWeight(sub) === 100 ? 'text-slate-400' : 'text-red-500'}`}>Weights total {componentWeight(sub)}% of {sub.maxMarks} marks</p>
+            </div>
+          )}
+        </div>
+      ))}
+      {!fixedSubjects && <button type="button" onClick={addSubject} className="flex items-center gap-2 text-sm font-bold text-indigo-600 hover:text-indigo-800"><Plus size={16} /> Add Subject</button>}
+    </div>
+  );
+};
+
+export const GradingSchemeManager = ({ schemes, exams, onSave, onDelete, onClose }: GradingSchemeManagerProps) => {
+  const [draft, setDraft] = useState<GradingScheme | null>(null);
+
+  const newScheme = (): GradingScheme => ({
+    ...DEFAULT_GRADING_SCHEME,
+    id: crypto.randomUUID(),
+    name: '',
+    bands: DEFAULT_GRADING_SCHEME.bands.map(b => ({ ...b })),
+    builtIn: false,
+  });
+  const updateBand = (i: number, patch: Partial<GradeBand>) =>
+    draft && setDraft({ ...draft, bands: draft.bands.map((b, j) => j === i ? { ...b, ...patch } : b) });
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!draft) return;
+    onSave({ ...draft, name: draft.name.trim(), bands: [...draft.bands].sort((a, b) => b.minPercentage - a.minPercentage) });
+    setDraft(null);
+  };
+
+  const inputClass = "w-full px-3 py-3 bg-slate-50 border border-slate-100 rounded-xl outline-none focus:ring-2 focus:ring-indigo-500 text-slate-900 font-bold";
+
+  return (
+    <div className="fixed inset-0 bg-slate-900/60 backdrop-blur-md flex items-center justify-center p-4 z-[90]">
+      <div className="bg-white rounded-[2.5rem] w-full max-w-2xl max-h-[90vh] overflow-y-auto shadow-2xl p-8 animate-in zoom-in-95">
+        <div className="flex justify-between items-center mb-8">
+          <h3 className="text-2xl font-black text-slate-900">{draft ? (draft.name || 'New Grading Scheme') : 'Grading Schemes'}</h3>
+          <button onClick={draft ? () => setDraft(null) : onClose} className="text-slate-300 hover:text-slate-600"><X size={32} /></button>
+        </div>
+        {!draft ? (
+          <div className="space-y-3">
+            {schemes.map(g => {
+              const inUse = exams.some(ex => ex.gradingSchemeId === g.id);
+              return (
+                <div key={g.id} className="flex justify-between items-center p-4 bg-slate-50 rounded-2xl border border-slate-100">
+                  <div>
+                    <p className="font-bold text-slate-900">{g.name}</p>
+                    <p className="text-xs text-slate-400">{g.bands.map(b => b.grade).join(' / ')} • Subject pass {g.subjectPassPercentage}% • Compartment up to {g.compartmentLimit}</p>
+                  </div>
+                  {!g.builtIn && (
+                    <div className="flex gap-1">
+                      <button onClick={() => setDraft(g)} className="p-2 text-slate-400 hover:text-indigo-600"><Edit size={18} /></button>
+                      <button disabled={inUse} title={inUse ? 'Used by an exam folder' : undefined} onClick={() => { if (confirm(`Delete scheme "${g.name}"?`)) onDelete(g.id); }} className="p-2 text-slate-400 hover:text-red-500 disabled:opacity-30"><Trash2 size={18} /></button>
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+            <button onClick={() => setDraft(newScheme())} className="w-full flex items-center justify-center gap-2 py-4 border-2 border-dashed border-slate-200 rounded-2xl font-bold text-indigo-600 hover:bg-indigo-50"><Plus size={18} /> New Scheme</button>
+          </div>
+        ) : (
+          <form onSubmit={handleSave} className="space-y-6">
+            <div>
+              <label className="text-xs font-black text-slate-400 uppercase tracking-widest mb-2 block px-1">Scheme Name</label>
+              <input required autoFocus value={draft.name} onChange={e => setDraft({ ...draft, name: e.target.value })} className={inputClass} placeholder="e.g. Board Pattern" />
+            </div>
+            <div className="grid grid-cols-3 gap-4">
+              <div>
+                <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest mb-1 block px-1">Subject Pass %</label>
+                <input type="number" required min="0" max="100" value={draft.subjectPassPercentage} onChange={e => setDraft({ ...draft, subjectPassPercentage: parseFloat(e.target.value) || 0 })} className={inputClass} />
+              </div>
+              <div>
+                <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest mb-1 block px-1">Overall Pass %</label>
+                <input type="number" required min="0" max="100" value={draft.overallPassPercentage} onChange={e => setDraft({ ...draft, overallPassPercentage: parseFloat(e.target.value) || 0 })} className={inputClass} />
+              </div>
+              <div>
+                <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest mb-1 block px-1">Compartment Limit</label>
+                <input type="number" required min="0" value={draft.compartmentLimit} onChange={e => setDraft({ ...draft, compartmentLimit: parseInt(e.target.value) || 0 })} className={inputClass} />
+              </div>
+            </div>
+            <div className="bg-slate-50 p-6 rounded-3xl space-y-3 border border-slate-100">
+              <div className="grid grid-cols-[1fr_1fr_1fr_auto] gap-2 text-[10px] font-black uppercase text-slate-400 tracking-widest px-1">
+                <span>Grade</span><span>Min %</span><span>Grade Point</span><span className="w-8" />
+              </div>
+              {draft.bands.map((b, i) => (
+                <div key={i} className="grid grid-cols-[1fr_1fr_1fr_auto] gap-2 items-center">
+                  <input required value={b.grade} onChange={e => updateBand(i, { grade: e.target.value })} className={inputClass} />
+                  <input type="number" required min="0" max="100" step="any" value={b.minPercentage} onChange={e => updateBand(i, { minPercentage: parseFloat(e.target.value) || 0 })} className={inputClass} />
+                  <input type="number" required min="0" step="any" value={b.gradePoint} onChange={e => updateBand(i, { gradePoint: parseFloat(e.target.value) || 0 })} className={inputClass} />
+                  <button type="button" disabled={draft.bands.length === 1} onClick={() => setDraft({ ...draft, bands: draft.bands.filter((_, j) => j !== i) })} className="w-8 p-1 text-slate-300 hover:text-red-500 disabled:opacity-30"><X size={18} /></button>
+                </div>
+              ))}
+              <button type="button" onClick={() => setDraft({ ...draft, bands: [...draft.bands, { grade: '', minPercentage: 0, gradePoint: 0 }] })} className="flex items-center gap-2 text-sm font-bold text-indigo-600 hover:text-indigo-800"><Plus size={16} /> Add Band</button>
+            </div>
+            <div className="flex gap-4">
+              <button type="button" onClick={() => setDraft(null)} className="flex-1 py-4 border border-slate-100 rounded-2xl font-bold text-slate-400">Cancel</button>
+              <button type="submit" className="flex-1 py-4 bg-indigo-600 text-white rounded-2xl font-black shadow-lg">Save Scheme</button>
+            </div>
+          </form>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export const BackupRestoreModal = ({ students, profiles, exams, gradingSchemes, reevaluations, settings, onRestore, onClose }: BackupRestoreModalProps) => {
+  const [backup, setBackup] = useState<BackupFile | null>(null);
+  const [mode, setMode] = useState<RestoreMode>('merge');
+  const [error, setError] = useState<string | null>(null);
+
+  const handleDownload = () => {
+    const stamp = new Date().toISOString().slice(0, 10);
+    downloadFile(JSON.stringify(createBackup({ exams, students, profiles, gradingSchemes, reevaluations }, settings), null, 2), `eduresult-backup-${stamp}.json`, 'application/json');
+  };
+
+  const handleFile = async (file?: File) => {
+    if (!file) return;
+    setError(null);
+    setBackup(null);
+    try {
+      setBackup(parseBackup(await file.text()));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not read the backup file.');
+    }
+  };
+
+  const handleRestore = () => {
+    if (!backup) return;
+    if (mode === 'replace' && !confirm('Replace ALL current exams and student records with this backup? Records not in the backup will be moved to the trash.')) return;
+    onRestore(backup, mode);
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-slate-900/60 backdrop-blur-md flex items-center justify-center p-4 z-[90]">
+      <div className="bg-white rounded-[2.5rem] w-full max-w-lg max-h-[90vh] overflow-y-auto shadow-2xl p-8 animate-in zoom-in-95">
+        <div className="flex justify-between items-center mb-8">
+          <h3 className="text-2xl font-black text-slate-900 flex items-center gap-3"><DatabaseBackup className="text-indigo-600" /> Backup &amp; Restore</h3>
+          <button onClick={onClose} className="text-slate-300 hover:text-slate-600"><X size={32} /></button>
+        </div>
+        <div className="space-y-8">
+          <div className="p-6 bg-slate-50 rounded-3xl border border-slate-100 space-y-3">
+            <p className="text-xs font-black text-slate-400 uppercase tracking-widest">Full Backup</p>
+            <p className="text-sm text-slate-500 font-medium">{exams.length} exam folders, {students.length} student records and {profiles.length} registered students, including re-evaluation requests, custom grading schemes and marksheet settings. The audit log and trash are not included.</p>
+            <button onClick={handleDownload} className="w-full flex items-center justify-center gap-2 py-4 bg-slate-900 text-white rounded-2xl font-black hover:bg-slate-800"><Download size={20} /> Download Backup</button>
+          </div>
+          <div className="p-6 bg-slate-50 rounded-3xl border border-slate-100 space-y-4">
+            <p className="text-xs font-black text-slate-400 uppercase tracking-widest">Restore</p>
+            <input type="file" accept=".json,application/json" onChange={e => handleFile(e.target.files?.[0])} className="w-full text-sm text-slate-500 file:mr-4 file:px-4 file:py-2 file:rounded-xl file:border-0 file:bg-indigo-50 file:text-indigo-600 file:font-bold" />
+            {error && <div className="p-4 bg-red-50 text-red-600 rounded-2xl text-sm font-bold flex items-center gap-2 border border-red-100"><AlertCircle size={18} /> {error}</div>}
+            {backup && (
+              <>
+                <p className="text-sm font-bold text-slate-700">
+                  Backup v{backup.version} from {new Date(backup.exportedAt).toLocaleString()}: {backup.exams.length} exams, {backup.students.length} students.
+                </p>
+                <div className="grid grid-cols-2 gap-3">
+                  {(['merge', 'replace'] as RestoreMode[]).map(m => (
+                    <button key={m} type="button" onClick={() => setMode(m)} className={`p-4 rounded-2xl border text-left ${mode === m ? 'border-indigo-500 bg-indigo-50' : 'border-slate-200 bg-white'}`}>
+                      <p className="font-black text-slate-900 capitalize">{m}</p>
+                      <p className="text-xs text-slate-500">{m === 'merge' ? 'Add to current data; backup records win on conflicts.' : 'Move current data to the trash and load only the backup.'}</p>
+                    </button>
+                  ))}
+                </div>
+                <button onClick={handleRestore} className={`w-full py-4 text-white rounded-2xl font-black shadow-lg ${mode === 'replace' ? 'bg-red-600 hover:bg-red-700' : 'bg-indigo-600 hover:bg-indigo-700'}`}>Restore Backup</button>
+              </>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export const ImportStudentsModal = ({ exam, scheme, existingStudents, onImport, onClose }: ImportStudentsModalProps) => {
+  const [fileName, setFileName] = useState('');
+  const [headers, setHeaders] = useState<string[]>([]);
+  const [rows, setRows] = useState<string[][]>([]);
+  const [mapping, setMapping] = useState<ColumnMapping>({});
+  const [error, setError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  const fields = [...STUDENT_FIELDS, ...exam.subjects.flatMap(sub => [
+    { field: sub.key, label: `${sub.name} (/${sub.maxMarks})` },
+    ...(sub.components || []).map(c => ({ field: componentField(sub.key, c.kind), label: `${sub.name} ${COMPONENT_LABELS[c.kind]} (/${c.maxMarks})` })),
+  ])];
+  const preview = useMemo(
+    () => validateImportRows(rows, mapping, exam.subjects, existingStudents.map(s => s.rollNo)),
+    [rows, mapping, exam.subjects, existingStudents]
+  );
+  const validRows = preview.filter(r => r.issues.length === 0);
+  const conflicting = validRows.filter(r => r.conflict).length;
+
+  const handleFile = async (file?: File) => {
+    if (!file) return;
+    setLoading(true);
+    setError(null);
+    try {
+      const [head = [], ...body] = await parseSpreadsheet(file);
+      if (!body.length) throw new Error('empty');
+      setFileName(file.name);
+      setHeaders(head);
+      setRows(body);
+      setMapping(guessColumnMapping(head, exam.subjects));
+    } catch (err) {
+      setError('Could not read any rows from this file. Use a CSV or Excel sheet with a header row.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const downloadTemplate = () => {
+    const header = ['Name', 'Roll No', 'Class', ...exam.subjects.map(sub => sub.name)];
+    downloadFile(toCsv([header]), `${fileSafe(exam.name)} - import template.csv`, 'text/csv');
+  };
+
+  const handleImport = () => {
+    onImport(validRows.map(r => processStudentData({ ...r.data, examId: exam.id }, exam.subjects, scheme)));
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-slate-900/60 backdrop-blur-md flex items-center justify-center p-4 z-[90]">
+      <div className="bg-white rounded-[2.5rem] w-full max-w-5xl max-h-[90vh] overflow-y-auto shadow-2xl p-8 animate-in zoom-in-95">
+        <div className="flex justify-between items-center mb-8">
+          <h3 className="text-2xl font-black text-slate-900 flex items-center gap-3"><FileSpreadsheet className="text-indigo-600" /> Import Students</h3>
+          <button onClick={onClose} className="text-slate-300 hover:text-slate-600"><X size={32} /></button>
+        </div>
+
+        {!rows.length ? (
+          <div className="space-y-4">
+            <label
+              onDragOver={e => e.preventDefault()}
+              onDrop={e => { e.preventDefault(); handleFile(e.dataTransfer.files[0]); }}
+              className="flex flex-col items-center justify-center gap-4 py-16 border-2 border-dashed border-slate-200 rounded-[2rem] bg-slate-50 cursor-pointer hover:border-indigo-300 hover:bg-indigo-50/50 transition-colors"
+            >
+              {loading ? <Loader2 className="animate-spin text-indigo-500" size={48} /> : <Upload className="text-indigo-400" size={48} />}
+              <p className="font-bold text-slate-600">Drop a CSV or Excel file here, or click to browse</p>
+              <p className="text-xs text-slate-400">The first row must contain column headers.</p>
+              <input type="file" accept=".csv,.xlsx,.xls" className="hidden" onChange={e => handleFile(e.target.files?.[0])} />
+            </label>
+            {error && <div className="p-4 bg-red-50 text-red-600 rounded-2xl text-sm font-bold flex items-center gap-2 border border-red-100"><AlertCircle size={18} /> {error}</div>}
+            <button onClick={downloadTemplate} className="flex items-center gap-2 text-sm font-bold text-indigo-600 hover:text-indigo-800"><Download size={16} /> Download CSV template</button>
+          </div>
+        ) : (
+          <div className="space-y-8">
+            <div className="bg-slate-50 p-6 rounded-3xl border border-slate-100 space-y-4">
+              <p className="text-xs font-black text-slate-400 uppercase tracking-widest px-1">Column Mapping • {fileName}</p>
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                {fields.map(f => (
+                  <div key={f.field}>
+                    <label className="block text-[10px] font-black uppercase text-slate-500 mb-1 px-1">{f.label}</label>
+                    <select
+                      value={mapping[f.field] ?? -1}
+                      onChange={e => setMapping({ ...mapping, [f.field]: parseInt(e.target.value) })}
+                      className="w-full px-3 py-2 bg-white border border-slate-100 rounded-xl outline-none focus:ring-2 focus:ring-indigo-500 text-slate-900 font-bold text-sm"
+                    >
+                      <option value={-1}>— Not mapped —</option>
+                      {headers.map((h, i) => <option key={i} value={i}>{h || `Column ${i + 1}`}</option>)}
+                    </select>
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            <div>
+              <p className="text-sm font-bold text-slate-600 mb-3">
+                <span className="text-green-600">{validRows.length} ready</span> • <span className="text-red-500">{preview.length - validRows.length} with issues (will be skipped)</span>
+                {conflicting > 0 && <> • <span className="text-amber-600">{conflicting} already in this exam (you will choose which record to keep)</span></>}
+              </p>
+              <div className="border border-slate-100 rounded-2xl overflow-x-auto max-h-80">
+                <table className="w-full text-left text-sm">
+                  <thead className="bg-slate-50 text-slate-400 text-[10px] uppercase font-black tracking-widest sticky top-0">
+                    <tr>
+                      <th className="px-4 py-3">Row</th>
+                      <th className="px-4 py-3">Student</th>
+                      {exam.subjects.map(sub => <th key={sub.key} className="px-4 py-3">{sub.name}</th>)}
+                      <th className="px-4 py-3">Issues</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-slate-50">
+                    {preview.map(r => (
+                      <tr key={r.line} className={r.issues.length ? 'bg-red-50/50' : ''}>
+                        <td className="px-4 py-3 text-slate-400 font-bold">{r.line}</td>
+                        <td className="px-4 py-3"><p className="font-bold text-slate-900">{r.data.name || '—'}</p><p className="text-xs text-slate-400">Roll: {r.data.rollNo || '—'} • {r.data.className}</p></td>
+                        {exam.subjects.map(sub => <td key={sub.key} className="px-4 py-3 font-black text-slate-700">{r.data.marks?.[sub.key] ?? '—'}</td>)}
+                        <td className="px-4 py-3">
+                          {r.issues.length
+                            ? <ul className="text-xs font-bold text-red-500 space-y-0.5">{r.issues.map(msg => <li key={msg}>{msg}</li>)}</ul>
+                            : r.conflict ? <p className="text-xs font-bold text-amber-600">Roll number already in this exam</p>
+                            : <CheckCircle size={18} className="text-green-500" />}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+
+            <div className="flex gap-4">
+              <button type="button" onClick={() => { setRows([]); setHeaders([]); }} className="flex-1 py-4 border border-slate-100 rounded-2xl font-bold text-slate-400">Choose Another File</button>
+              <button disabled={!validRows.length} onClick={handleImport} className="flex-1 py-4 bg-indigo-600 text-white rounded-2xl font-black shadow-lg disabled:opacity-50">Import {validRows.length} Students</button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export const UserManager = ({ users, exams, currentUser, onSave, onDelete, onClose }: UserManagerProps) => {
+  const [draft, setDraft] = useState<(Partial<UserAccount> & { password?: string }) | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const superAdmins = users.filter(u => u.role === 'super_admin');
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!draft) return;
+    setError(null);
+    const username = (draft.username || '').trim().toLowerCase();
+    if (users.some(u => u.username === username && u.id !== draft.id)) { setError('That username is already taken.'); return; }
+    if ((!draft.id || draft.password) && (draft.password || '').length < MIN_PASSWORD_LENGTH) { setError(`Password must be at least ${MIN_PASSWORD_LENGTH} characters.`); return; }
+    const existing = users.find(u => u.id === draft.id);
+    if (existing?.role === 'super_admin' && draft.role !== 'super_admin' && superAdmins.length === 1) { setError('At least one super-admin is required.'); return; }
+    setSaving(true);
+    try {
+      const fields = { username, displayName: (draft.displayName || '').trim() || username, role: draft.role || 'teacher', assignedExamIds: draft.assignedExamIds || [] };
+      const saved = existing
+        ? (draft.password ? await setUserPassword({ ...existing, ...fields }, draft.password) : { ...existing, ...fields })
+        : await createUserAccount(fields, draft.password!);
+      onSave(saved);
+      setDraft(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'The user could not be saved.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const toggleExam = (examId: string) => draft && setDraft({
+    ...draft,
+    assignedExamIds: draft.assignedExamIds?.includes(examId) ? draft.assignedExamIds.filter(id => id !== examId) : [...(draft.assignedExamIds || []), examId],
+  });
+
+  const inputClass = "w-full px-4 py-3 bg-slate-50 border border-slate-100 rounded-xl outline-none focus:ring-2 focus:ring-indigo-500 text-slate-900 font-bold";
+
+  return (
+    <div className="fixed inset-0 bg-slate-900/60 backdrop-blur-md flex items-center justify-center p-4 z-[90]">
+      <div className="bg-white rounded-[2.5rem] w-full max-w-2xl max-h-[90vh] overflow-y-auto shadow-2xl p-8 animate-in zoom-in-95">
+        <div className="flex justify-between items-center mb-8">
+          <h3 className="text-2xl font-black text-slate-900 flex items-center gap-3"><Users className="text-indigo-600" /> {draft ? (draft.id ? 'Edit User' : 'New User') : 'Users'}</h3>
+          <button onClick={draft ? () => setDraft(null) : onClose} className="text-slate-300 hover:text-slate-600"><X size={32} /></button>
+        </div>
+        {!draft ? (
+          <div className="space-y-3">
+            {users.map(u => (
+              <div key={u.id} className="flex justify-between items-center p-4 bg-slate-50 rounded-2xl border border-slate-100">
+                <div>
+                  <p className="font-bold text-slate-900">{u.displayName} <span className="text-xs text-slate-400 font-medium">@{u.username}</span></p>
+                  <p className="text-xs text-slate-400">
+                    {u.role === 'super_admin' ? 'Super-admin • all exams' : `Teacher • ${exams.filter(ex => u.assignedExamIds.includes(ex.id)).map(ex => ex.name).join(', ') || 'no exams assigned'}`}
+                  </p>
+                </div>
+                <div className="flex gap-1">
+                  <button onClick={() => { setError(null); setDraft({ ...u }); }} className="p-2 text-slate-400 hover:text-indigo-600"><Edit size={18} /></button>
+                  <button
+                    disabled={u.id === currentUser.id || (u.role === 'super_admin' && superAdmins.length === 1)}
+                    onClick={() => { if (confirm(`Delete user "${u.username}"?`)) onDelete(u.id); }}
+                    className="p-2 text-slate-400 hover:text-red-500 disabled:opacity-30"
+                  ><Trash2 size={18} /></button>
+                </div>
+              </div>
+            ))}
+            <button onClick={() => { setError(null); setDraft({ role: 'teacher', assignedExamIds: [] }); }} className="w-full flex items-center justify-center gap-2 py-4 border-2 border-dashed border-slate-200 rounded-2xl font-bold text-indigo-600 hover:bg-indigo-50"><UserPlus size={18} /> New User</button>
+          </div>
+        ) : (
+          <form onSubmit={handleSave} className="space-y-5">
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest mb-1 block px-1">Username</label>
+                <input required value={draft.username || ''} onChange={e => setDraft({ ...draft, username: e.target.value })} className={inputClass} />
+              </div>
+              <div>
+                <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest mb-1 block px-1">Display Name</label>
+                <input value={draft.displayName || ''} onChange={e => setDraft({ ...draft, displayName: e.target.value })} className={inputClass} />
+              </div>
+              <div>
+                <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest mb-1 block px-1">Role</label>
+                <select value={draft.role} onChange={e => setDraft({ ...draft, role: e.target.value as UserRole })} className={inputClass}>
+                  <option value="teacher">Teacher</option>
+                  <option value="super_admin">Super-admin</option>
+                </select>
+              </div>
+              <div>
+                <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest mb-1 block px-1">{draft.id ? 'New Password (optional)' : 'Password'}</label>
+                <input type="password" autoComplete="new-password" required={!draft.id} value={draft.password || ''} onChange={e => setDraft({ ...draft, password: e.target.value })} className={inputClass} />
+              </div>
+            </div>
+            {draft.role === 'teacher' && (
+              <div className="bg-slate-50 p-5 rounded-3xl border border-slate-100 space-y-2">
+                <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest px-1">Assigned Exam Folders</p>
+                {exams.map(ex => (
+                  <label key={ex.id} className="flex items-center gap-3 px-1 font-bold text-slate-700 cursor-pointer">
+                    <input type="checkbox" checked={!!draft.assignedExamIds?.includes(ex.id)} onChange={() => toggleExam(ex.id)} /> {ex.name}
+                  </label>
+                ))}
+                {exams.length === 0 && <p className="text-sm text-slate-400 px-1">No exam folders yet.</p>}
+              </div>
+            )}
+            {error && <div className="p-4 bg-red-50 text-red-600 rounded-2xl text-sm font-bold flex items-center gap-2 border border-red-100"><AlertCircle size={18} /> {error}</div>}
+            <div className="flex gap-4">
+              <button type="button" onClick={() => setDraft(null)} className="flex-1 py-4 border border-slate-100 rounded-2xl font-bold text-slate-400">Cancel</button>
+              <button type="submit" disabled={saving} className="flex-1 py-4 bg-indigo-600 text-white rounded-2xl font-black shadow-lg disabled:opacity-50">Save User</button>
+            </div>
+          </form>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export const StudentRegistryModal = ({ profiles, students, canDelete, onSave, onDelete, onClose }: StudentRegistryModalProps) => {
+  const [query, setQuery] = useState('');
+  const [draft, setDraft] = useState<Partial<StudentProfile> | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const resultCounts = useMemo(() => students.reduce((counts, st) => {
+    if (st.profileId) counts.set(st.profileId, (counts.get(st.profileId) || 0) + 1);
+    return counts;
+  }, new Map<string, number>()), [students]);
+
+  const matches = useMemo(() => {
+    const q = query.trim().toLowerCase();
+    return profiles
+      .filter(p => !q || p.name.toLowerCase().includes(q) || p.rollNo.toLowerCase().includes(q))
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }, [profiles, query]);
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!draft) return;
+    const name = (draft.name || '').trim();
+    const rollNo = (draft.rollNo || '').trim();
+    if (profiles.some(p => p.id !== draft.id && registryKey(p.name, p.rollNo) === registryKey(name, rollNo))) {
+      setError('A student with this name and roll number is already registered.');
+      return;
+    }
+    onSave({
+      id: draft.id || crypto.randomUUID(),
+      createdAt: draft.createdAt || new Date().toISOString(),
+      name,
+      rollNo,
+      className: (draft.className || '').trim(),
+      section: draft.section?.trim() || undefined,
+      dateOfBirth: draft.dateOfBirth || undefined,
+      accessPin: draft.accessPin?.trim() || undefined,
+      hasAccessPin: !draft.accessPin?.trim() && draft.hasAccessPin || undefined,
+    });
+    setDraft(null);
+  };
+
+  const withoutPin = profiles.filter(p => !p.accessPin && !p.hasAccessPin);
+
+  const inputClass = "w-full px-4 py-3 bg-slate-50 border border-slate-100 rounded-xl outline-none focus:ring-2 focus:ring-indigo-500 text-slate-900 font-bold";
+
+  return (
+    <div className="fixed inset-0 bg-slate-900/60 backdrop-blur-md flex items-center justify-center p-4 z-[90]">
+      <div className="bg-white rounded-[2.5rem] w-full max-w-2xl max-h-[90vh] overflow-y-auto shadow-2xl p-8 animate-in zoom-in-95">
+        <div className="flex justify-between items-center mb-8">
+          <h3 className="text-2xl font-black text-slate-900 flex items-center gap-3"><Contact className="text-indigo-600" /> {draft ? (draft.id ? 'Edit Student' : 'Register Student') : 'Student Registry'}</h3>
+          <button onClick={draft ? () => setDraft(null) : onClose} className="text-slate-300 hover:text-slate-600"><X size={32} /></button>
+        </div>
+        {!draft ? (
+          <div className="space-y-3">
+            <div className="relative">
+              <Search className="absolute left-4 top-1/2 -translate-y-1/2 text-slate-300" size={18} />
+              <input value={query} onChange={e => setQuery(e.target.value)} placeholder="Search by name or roll number" className={`${inputClass} pl-11`} />
+            </div>
+            {matches.map(p => {
+              const results = resultCounts.get(p.id) || 0;
+              return (
+                <div key={p.id} className="flex justify-between items-center p-4 bg-slate-50 rounded-2xl border border-slate-100">
+                  <div>
+                    <p className="font-bold text-slate-900">{p.name} <span className="text-xs text-slate-400 font-medium">Roll {p.rollNo}</span></p>
+                    <p className="text-xs text-slate-400">
+                      Class {p.className}{p.section && ` • Section ${p.section}`}{p.dateOfBirth && ` • Born ${formatExamDate(p.dateOfBirth)}`} • {results} {results === 1 ? 'result' : 'results'}
+                      {p.accessPin ? <> • PIN <span className="font-mono">{p.accessPin}</span></> : p.hasAccessPin && ' • PIN issued'}
+                    </p>
+                    {!p.dateOfBirth && !p.accessPin && !p.hasAccessPin && <p className="text-xs font-bold text-amber-600">No date of birth or PIN: results cannot be viewed online.</p>}
+                  </div>
+                  <div className="flex gap-1">
+                    <button onClick={() => { setError(null); setDraft({ ...p }); }} className="p-2 text-slate-400 hover:text-indigo-600"><Edit size={18} /></button>
+                    {canDelete && (
+                      <button
+                        disabled={results > 0}
+                        title={results > 0 ? 'Delete this student\'s exam results first' : undefined}
+                        onClick={() => { if (confirm(`Remove "${p.name}" from the registry?`)) onDelete(p.id); }}
+                        className="p-2 text-slate-400 hover:text-red-500 disabled:opacity-30"
+                      ><Trash2 size={18} /></button>
+                    )}
+                  </div>
+                </div>
+              );
+            })}
+            {matches.length === 0 && <p className="text-sm text-slate-400 text-center py-6">{profiles.length ? 'No registered student matches your search.' : 'No students registered yet. Results you add are registered automatically.'}</p>}
+            <button onClick={() => { setError(null); setDraft({}); }} className="w-full flex items-center justify-center gap-2 py-4 border-2 border-dashed border-slate-200 rounded-2xl font-bold text-indigo-600 hover:bg-indigo-50"><UserPlus size={18} /> Register Student</button>
+            {withoutPin.length > 0 && (
+              <button
+                onClick={() => { if (confirm(`Issue access PINs to ${withoutPin.length} student(s) without one?`)) withoutPin.forEach(p => onSave({ ...p, accessPin: generateAccessPin() })); }}
+                className="w-full flex items-center justify-center gap-2 py-4 border border-slate-200 rounded-2xl font-bold text-slate-600 hover:bg-slate-50"
+              ><Lock size={18} /> Issue Missing PINs ({withoutPin.length})</button>
+            )}
+          </div>
+        ) : (
+          <form onSubmit={handleSave} className="space-y-5">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="col-span-2">
+                <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest mb-1 block px-1">Full Name</label>
+                <input required value={draft.name || ''} onChange={e => setDraft({ ...draft, name: e.target.value })} className={inputClass} />
+              </div>
+              <div>
+                <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest mb-1 block px-1">Roll No</label>
+                <input required value={draft.rollNo || ''} onChange={e => setDraft({ ...draft, rollNo: e.target.value })} className={inputClass} />
+              </div>
+              <div>
+                <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest mb-1 block px-1">Date of Birth</label>
+                <input type="date" value={draft.dateOfBirth || ''} onChange={e => setDraft({ ...draft, dateOfBirth: e.target.value })} className={inputClass} />
+              </div>
+              <div>
+                <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest mb-1 block px-1">Class</label>
+                <input required value={draft.className || ''} onChange={e => setDraft({ ...draft, className: e.target.value })} className={inputClass} />
+              </div>
+              <div>
+                <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest mb-1 block px-1">Section</label>
+                <input value={draft.section || ''} onChange={e => setDraft({ ...draft, section: e.target.value })} className={inputClass} />
+              </div>
+              <div className="col-span-2">
+                <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest mb-1 block px-1">Access PIN</label>
+                <div className="flex gap-2">
+                  <input value={draft.accessPin || ''} onChange={e => setDraft({ ...draft, accessPin: e.target.value })} placeholder={draft.hasAccessPin ? 'Issued • enter a new PIN to replace it' : undefined} className={`${inputClass} font-mono`} />
+                  <button type="button" onClick={() => setDraft({ ...draft, accessPin: generateAccessPin() })} className="px-4 border border-slate-200 rounded-xl font-bold text-slate-600 hover:bg-slate-50 whitespace-nowrap">Generate</button>
+                </div>
+              </div>
+            </div>
+            {error && <div className="p-4 bg-red-50 text-red-600 rounded-2xl text-sm font-bold flex items-center gap-2 border border-red-100"><AlertCircle size={18} /> {error}</div>}
+            <div className="flex gap-4">
+              <button type="button" onClick={() => setDraft(null)} className="flex-1 py-4 border border-slate-100 rounded-2xl font-bold text-slate-400">Cancel</button>
+              <button type="submit" className="flex-1 py-4 bg-indigo-600 text-white rounded-2xl font-black shadow-lg">Save Student</button>
+            </div>
+          </form>
+        )}
+      </div>
+    </div>
+  );
+};
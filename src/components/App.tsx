@@ -0,0 +1,536 @@
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { Loader2, AlertCircle } from 'lucide-react';
+import {
+  AuditEntry,
+  Exam,
+  GradingScheme,
+  LookupSecret,
+  PendingScan,
+  ProgressEntry,
+  RankedStudent,
+  ReevaluationRequest,
+  Route,
+  SchoolSettings,
+  Student,
+  StudentProfile,
+  TrashItem,
+  UserAccount,
+} from '../types';
+import { extractionErrorMessage, extractStudentDetailsFromImage, isConnectivityError, toReviewFields } from '../ai';
+import {
+  BUILT_IN_GRADING_SCHEMES,
+  createAuditEntry,
+  createReevaluationRequest,
+  describeChanges,
+  findRollConflict,
+  isExamPublished,
+  linkResultsToRegistry,
+  processStudentData,
+  reevaluationBlocker,
+  sameRollNo,
+  schemeFor,
+  stampPublication,
+  transferResults,
+} from '../utils';
+import { rankAllExams } from '../ranking';
+import { planRestore } from '../backup';
+import { assertLookupAllowed, clearLookupFailures, hasPermission, lookupSecretMatches, recordLookupFailure } from '../auth';
+import { dataBackend, loadPendingScans, loadStoredData, saveSettings, syncPendingScans, syncStore } from '../data';
+import { DEFAULT_SCHOOL_SETTINGS } from '../marksheet';
+import { parseRoute, routePath } from '../routing';
+import { Navbar } from './Navbar';
+import { Landing, StudentResult, VerifyResult } from './ResultPages';
+import { AdminDashboard } from './AdminDashboard';
+import { Login } from './Login';
+
+export const App = () => {
+  const [route, setRoute] = useState<Route>(() => parseRoute(window.location));
+  const [users, setUsers] = useState<UserAccount[]>([]);
+  const [currentUser, setCurrentUser] = useState<UserAccount | null>(null);
+  const [needsSetup, setNeedsSetup] = useState(false);
+  const [storageState, setStorageState] = useState<'loading' | 'ready' | 'error'>('loading');
+  const [students, setStudents] = useState<Student[]>([]);
+  const [profiles, setProfiles] = useState<StudentProfile[]>([]);
+  const [auditLog, setAuditLog] = useState<AuditEntry[]>([]);
+  const [trash, setTrash] = useState<TrashItem[]>([]);
+  const [reevaluations, setReevaluations] = useState<ReevaluationRequest[]>([]);
+  const [pendingScans, setPendingScans] = useState<PendingScan[]>([]);
+  const [online, setOnline] = useState(navigator.onLine);
+  const [exams, setExams] = useState<Exam[]>([]);
+  const [customSchemes, setCustomSchemes] = useState<GradingScheme[]>([]);
+  const [schoolSettings, setSchoolSettings] = useState<SchoolSettings>(DEFAULT_SCHOOL_SETTINGS);
+  const [selected, setSelected] = useState<Student | null>(null);
+  const [history, setHistory] = useState<ProgressEntry[]>([]);
+  // The visitor's last successful lookup, kept in memory to file and follow re-evaluation requests.
+  const [resultAccess, setResultAccess] = useState<{ examId: string; rollNo: string; secret: LookupSecret } | null>(null);
+  const [fetchedRequests, setFetchedRequests] = useState<ReevaluationRequest[] | null>(null);
+  const gradingSchemes = useMemo(() => [...BUILT_IN_GRADING_SCHEMES, ...customSchemes], [customSchemes]);
+  // Results as shown, with ranks; `students` stays as stored.
+  const rankedStudents = useMemo(() => rankAllExams(students, exams), [students, exams]);
+
+  // Re-grades every record of an exam after its subjects or grading scheme changed.
+  const recomputeExam = (exam: Exam, list: Student[], schemes: GradingScheme[] = gradingSchemes) =>
+    list.map(st => st.examId === exam.id ? processStudentData(st, exam.subjects, schemeFor(exam, schemes)) : st);
+
+  // Loads everything the current session may see; in server mode that changes on sign-in and sign-out.
+  const refreshData = async () => {
+    const data = await loadStoredData();
+    setStudents(data.students);
+    setProfiles(data.profiles);
+    setAuditLog(data.audit);
+    setTrash(data.trash);
+    setReevaluations(data.reevaluations);
+    setExams(data.exams);
+    setCustomSchemes(data.gradingSchemes);
+    setSchoolSettings(data.settings);
+    setUsers(data.users);
+    setNeedsSetup(await dataBackend.needsSetup(data.users));
+    return data;
+  };
+
+  useEffect(() => {
+    refreshData()
+      .then(async data => {
+        setCurrentUser(await dataBackend.resume(data.users));
+        setStorageState('ready');
+      })
+      .catch(err => {
+        console.error('Failed to load data', err);
+        setStorageState('error');
+      });
+    loadPendingScans().then(setPendingScans).catch(err => console.error('Failed to load pending scans', err));
+    const onPopState = () => setRoute(parseRoute(window.location));
+    const onConnectionChange = () => setOnline(navigator.onLine);
+    window.addEventListener('popstate', onPopState);
+    window.addEventListener('online', onConnectionChange);
+    window.addEventListener('offline', onConnectionChange);
+    return () => {
+      window.removeEventListener('popstate', onPopState);
+      window.removeEventListener('online', onConnectionChange);
+      window.removeEventListener('offline', onConnectionChange);
+    };
+  }, []);
+
+  const navigate = (next: Route, replace = false) => {
+    const path = routePath(next);
+    if (path !== window.location.pathname + window.location.search) {
+      if (replace) window.history.replaceState(null, '', path);
+      else { window.history.pushState(null, '', path); window.scrollTo(0, 0); }
+    }
+    setRoute(next);
+  };
+
+  // The screen is reset to what was actually stored, so it never shows changes that were lost.
+  // Several stores failing together are reported and reloaded once.
+  const reloadingAfterError = useRef(false);
+  const reportSaveError = (err: unknown) => {
+    console.error('Failed to save changes', err);
+    if (reloadingAfterError.current) return;
+    reloadingAfterError.current = true;
+    alert(`Changes could not be saved: ${err instanceof Error ? err.message : 'unknown error'}. The last saved data will be reloaded.`);
+    refreshData()
+      .catch(error => console.error('Failed to reload data', error))
+      .finally(() => { reloadingAfterError.current = false; });
+  };
+
+  // Nothing is written until the stored data has loaded, so the empty initial state never overwrites it.
+  const ready = storageState === 'ready';
+  useEffect(() => { if (ready) syncStore('students', students).catch(reportSaveError); }, [students, ready]);
+  useEffect(() => { if (ready) syncStore('exams', exams).catch(reportSaveError); }, [exams, ready]);
+  useEffect(() => { if (ready) syncStore('gradingSchemes', customSchemes).catch(reportSaveError); }, [customSchemes, ready]);
+  useEffect(() => { if (ready) syncStore('users', users).catch(reportSaveError); }, [users, ready]);
+  useEffect(() => { if (ready) syncStore('profiles', profiles).catch(reportSaveError); }, [profiles, ready]);
+  useEffect(() => { if (ready) syncStore('audit', auditLog).catch(reportSaveError); }, [auditLog, ready]);
+  useEffect(() => { if (ready) syncStore('trash', trash).catch(reportSaveError); }, [trash, ready]);
+  useEffect(() => { if (ready) syncStore('reevaluations', reevaluations).catch(reportSaveError); }, [reevaluations, ready]);
+  useEffect(() => { if (ready) saveSettings(schoolSettings).catch(reportSaveError); }, [schoolSettings, ready]);
+  useEffect(() => { if (ready) syncPendingScans(pendingScans).catch(reportSaveError); }, [pendingScans, ready]);
+
+  const updatePendingScan = (id: string, patch: Partial<PendingScan>) =>
+    setPendingScans(list => list.map(s => s.id === id ? { ...s, ...patch } : s));
+
+  // Reads offline sheets one at a time while connected; a sheet that loses the connection again waits for it.
+  useEffect(() => {
+    if (!ready || !online || !currentUser || pendingScans.some(s => s.status === 'scanning')) return;
+    const scan = pendingScans.find(s => s.status === 'queued');
+    if (!scan) return;
+    const exam = exams.find(e => e.id === scan.examId);
+    if (!exam) { updatePendingScan(scan.id, { status: 'failed', error: 'The exam folder for this sheet no longer exists.' }); return; }
+    updatePendingScan(scan.id, { status: 'scanning', error: undefined });
+    extractStudentDetailsFromImage(scan.image.split(',')[1], exam.subjects, scan.mimeType)
+      .then(extracted => updatePendingScan(scan.id, toReviewFields(extracted)))
+      .catch(error => {
+        if (isConnectivityError(error)) { updatePendingScan(scan.id, { status: 'queued' }); setOnline(false); }
+        else updatePendingScan(scan.id, { status: 'failed', error: extractionErrorMessage(error, 'Could not read this sheet.') });
+      });
+  }, [ready, online, currentUser, pendingScans, exams]);
+
+  // A failed request can mark the app offline while the browser still reports a connection, so check again now and then.
+  useEffect(() => {
+    if (online) return;
+    const timer = setInterval(() => setOnline(navigator.onLine), 30_000);
+    return () => clearInterval(timer);
+  }, [online]);
+
+  // Returns to the admin page that sent the user to sign in; anything else in `next` is ignored.
+  const signIn = async (user: UserAccount) => {
+    await refreshData();
+    setCurrentUser(user);
+    const next = route.page === 'login' && route.next ? parseRoute(new URL(route.next, window.location.origin)) : null;
+    navigate(next?.page === 'admin' ? next : { page: 'admin' }, true);
+  };
+
+  const handleLogin = async (username: string, password: string) => {
+    const user = await dataBackend.login(username, password, users);
+    if (user) await signIn(user);
+    return !!user;
+  };
+
+  const handleLogout = async () => {
+    await dataBackend.logout();
+    setCurrentUser(null);
+    navigate({ page: 'landing' });
+    await refreshData();
+  };
+
+  // Log out once the session expires, even if the tab stays open.
+  useEffect(() => {
+    if (!currentUser) return;
+    const timer = setInterval(async () => {
+      if (!(await dataBackend.resume(users))) { await handleLogout(); alert('Your session has expired. Please sign in again.'); }
+    }, 60_000);
+    return () => clearInterval(timer);
+  }, [currentUser, users]);
+
+  // In server mode this browser only holds the records its user may edit, so public lookups ask the API.
+  const lookupResult = async (examId: string, rollNo: string, secret: LookupSecret): Promise<Student | null> => {
+    if (dataBackend.findResult) return dataBackend.findResult(examId, rollNo, secret);
+    assertLookupAllowed(examId, rollNo);
+    const exam = exams.find(e => e.id === examId);
+    const student = rankedStudents.find(st => st.examId === examId && sameRollNo(st.rollNo, rollNo));
+    const profile = profiles.find(p => p.id === student?.profileId);
+    if (exam && student && isExamPublished(exam) && await lookupSecretMatches(student, exam, profile, secret)) {
+      clearLookupFailures(examId, rollNo);
+      return student;
+    }
+    recordLookupFailure(examId, rollNo);
+    return null;
+  };
+
+  // New results join the registry entry with the same name and roll number, or create one.
+  const registerResults = (list: Student[]) => {
+    const linked = linkResultsToRegistry(list, profiles);
+    if (linked.created.length) setProfiles([...profiles, ...linked.created]);
+    return linked.students;
+  };
+
+  const publicExams = useMemo(() => exams.filter(e => isExamPublished(e)).sort((a, b) => a.name.localeCompare(b.name)), [exams]);
+
+  const canEditExam = (examId?: string) => hasPermission(currentUser, 'edit_students', examId);
+
+  // Visitors see a result only after looking it up; staff may open any result of their own exams.
+  const shownResult = useMemo(() => {
+    if (route.page !== 'result') return null;
+    const matches = (st: Student) => st.examId === route.examId && sameRollNo(st.rollNo, route.rollNo);
+    if (selected && matches(selected)) return selected;
+    return currentUser && canEditExam(route.examId) ? rankedStudents.find(matches) || null : null;
+  }, [route, selected, currentUser, rankedStudents]);
+  const shownExam = shownResult && exams.find(e => e.id === shownResult.examId);
+
+  const checkResult = async (rollNo: string, examId: string, secret: LookupSecret) => {
+    const s = await lookupResult(examId, rollNo, secret);
+    if (s) {
+      setSelected(s);
+      setResultAccess({ examId, rollNo: s.rollNo, secret });
+      navigate({ page: 'result', examId, rollNo: s.rollNo });
+    }
+    return !!s;
+  };
+
+  const visitorAccess = shownResult && resultAccess?.examId === shownResult.examId && sameRollNo(resultAccess.rollNo, shownResult.rollNo) ? resultAccess : null;
+
+  // Visitors in server mode fetch their requests on every lookup; otherwise they are already loaded.
+  useEffect(() => {
+    setFetchedRequests(null);
+    if (!visitorAccess || !dataBackend.findReevaluations) return;
+    let cancelled = false;
+    dataBackend.findReevaluations(visitorAccess.examId, visitorAccess.rollNo, visitorAccess.secret)
+      .then(list => { if (!cancelled) setFetchedRequests(list); })
+      .catch(err => console.error('Failed to load re-evaluation requests', err));
+    return () => { cancelled = true; };
+  }, [visitorAccess]);
+  // Every result registered to the same student, oldest exam first. Visitors in server mode fetch theirs with
+  // the secret they looked the result up with; otherwise the records are already loaded.
+  useEffect(() => {
+    setHistory([]);
+    const remote = visitorAccess && dataBackend.findHistory;
+    if (!shownResult || (!remote && !shownResult.profileId)) return;
+    let cancelled = false;
+    const results = visitorAccess && dataBackend.findHistory
+      ? dataBackend.findHistory(visitorAccess.examId, visitorAccess.rollNo, visitorAccess.secret)
+      : Promise.resolve(rankedStudents.filter(st => st.profileId === shownResult.profileId));
+    results.then(list => {
+      const entries = list
+        .map(result => ({ result, exam: exams.find(e => e.id === result.examId) }))
+        .filter((h): h is ProgressEntry => !!h.exam && isExamPublished(h.exam))
+        .sort((a, b) => (a.exam.examDate || a.exam.createdAt).localeCompare(b.exam.examDate || b.exam.createdAt));
+      if (!cancelled) setHistory(entries);
+    }).catch(err => console.error('Failed to load progress history', err));
+    return () => { cancelled = true; };
+  }, [shownResult, visitorAccess, exams]);
+
+  const shownRequests = fetchedRequests || reevaluations.filter(r => r.studentId === shownResult?.id);
+
+  const requestReevaluation = async (subjects: string[], reason: string) => {
+    if (!shownResult || !shownExam || !visitorAccess) return;
+    if (dataBackend.submitReevaluation) {
+      const created = await dataBackend.submitReevaluation(visitorAccess.examId, visitorAccess.rollNo, visitorAccess.secret, { subjects, reason });
+      setFetchedRequests([...shownRequests, created]);
+      return;
+    }
+    const blocker = reevaluationBlocker(shownExam, shownRequests);
+    if (blocker) throw new Error(blocker);
+    setReevaluations([...reevaluations, createReevaluationRequest(shownResult, subjects, reason)]);
+  };
+
+  // Admin routes need a signed-in user who may open the folder in the URL.
+  useEffect(() => {
+    if (!ready) return;
+    if (route.page === 'admin' && !currentUser) navigate({ page: 'login', next: routePath(route) }, true);
+    else if (route.page === 'login' && currentUser) navigate({ page: 'admin' }, true);
+    else if (route.page === 'admin' && route.examId && !(exams.some(e => e.id === route.examId) && canEditExam(route.examId))) navigate({ page: 'admin' }, true);
+  }, [ready, route, currentUser, exams]);
+
+  // The log is append-only; saves that change no field are not recorded.
+  const logChanges = (entries: AuditEntry[]) => {
+    const recorded = entries.filter(e => e.action !== 'update' || describeChanges(e.before, e.after).length);
+    if (recorded.length) setAuditLog(log => [...log, ...recorded]);
+  };
+
+  const moveToTrash = (kind: TrashItem['kind'], examId: string, records: Student[], exam?: Exam) =>
+    setTrash(list => [...list, {
+      id: crypto.randomUUID(), kind, examId, exam, students: records,
+      deletedAt: new Date().toISOString(), deletedBy: currentUser?.displayName || '',
+    }]);
+
+  // Registry entries may have been deleted while a record sat in the trash; those records get relinked.
+  // Records trashed while ranks were still stored may carry one; it is dropped on restore.
+  const relinkRestored = (records: RankedStudent[]) =>
+    registerResults(records.map(({ rank, ...st }) => profiles.some(p => p.id === st.profileId) ? st : { ...st, profileId: undefined }));
+
+  return (
+    <div className="min-h-screen bg-[#f8fafc] flex flex-col selection:bg-indigo-100 selection:text-indigo-700">
+      <Navbar user={currentUser} onLogout={handleLogout} onNavigate={navigate} />
+      <main className="flex-1">
+        {storageState === 'loading' && (
+          <div className="min-h-[60vh] flex items-center justify-center text-slate-400"><Loader2 className="animate-spin" size={40} /></div>
+        )}
+        {storageState === 'error' && (
+          <div className="max-w-lg mx-auto my-24 p-8 bg-red-50 text-red-600 rounded-[2rem] border border-red-100 font-bold flex items-center gap-3">
+            <AlertCircle size={24} />
+            {dataBackend.mode === 'server'
+              ? 'The EduResult server could not be reached. Check your connection, then reload.'
+              : 'Local storage is unavailable in this browser. Disable private browsing or allow site data, then reload.'}
+          </div>
+        )}
+        {ready && (
+          <>
+            {route.page === 'landing' && <Landing exams={publicExams} onCheckResult={checkResult} />}
+            {route.page === 'login' && <Login needsSetup={needsSetup} onLogin={handleLogin} onSetup={async u => signIn(await dataBackend.setup(u))} />}
+            {route.page === 'verify' && (
+              <React.Fragment key={routePath(route)}>
+                <VerifyResult exams={publicExams} lookup={lookupResult} initialExam={route.examId} initialRollNo={route.rollNo} initialCode={route.code} />
+              </React.Fragment>
+            )}
+            {route.page === 'result' && (shownResult && shownExam
+              ? (
+                <StudentResult
+                  student={shownResult} exam={shownExam} scheme={schemeFor(shownExam, gradingSchemes)} school={schoolSettings} history={history}
+                  reevaluations={shownRequests} onRequestReevaluation={visitorAccess ? requestReevaluation : undefined}
+                  onBack={() => navigate({ page: 'landing' })}
+                />
+              )
+              : (
+                <React.Fragment key={routePath(route)}>
+                  <Landing exams={publicExams} initialExamId={route.examId} initialRollNo={route.rollNo} onCheckResult={checkResult} />
+                </React.Fragment>
+              ))}
+            {route.page === 'admin' && currentUser && (
+              <AdminDashboard 
+                examId={route.examId} onOpenExam={examId => navigate(examId ? { page: 'admin', examId } : { page: 'admin' })}
+                currentUser={currentUser} users={users}
+                students={rankedStudents} profiles={profiles} exams={exams} gradingSchemes={gradingSchemes} schoolSettings={schoolSettings}
+                auditLog={auditLog} trash={trash} reevaluations={reevaluations} pendingScans={pendingScans} online={online}
+                onQueueOfflineScan={(page, examId) => {
+                  setPendingScans(list => [...list, {
+                    id: crypto.randomUUID(), examId, image: page.dataUrl, mimeType: page.mimeType, label: page.label,
+                    status: 'queued', capturedAt: new Date().toISOString(),
+                  }]);
+                  setOnline(false);
+                }}
+                onRetryPendingScans={ids => {
+                  setPendingScans(list => list.map(s => ids.includes(s.id) ? { ...s, status: 'queued', error: undefined } : s));
+                  setOnline(true);
+                }}
+                onRemovePendingScans={ids => setPendingScans(list => list.filter(s => !ids.includes(s.id)))}
+                onAddStudents={(list, source) => {
+                  const added = registerResults(list.filter(s => canEditExam(s.examId)));
+                  setStudents([...students, ...added]);
+                  logChanges(added.map(s => createAuditEntry(currentUser, 'create', source, undefined, s)));
+                }}
+                onUpdateStudent={(s, source) => {
+                  if (!canEditExam(s.examId)) return;
+                  const [linked] = registerResults([s]);
+                  setStudents(students.map(st => st.id === s.id ? linked : st));
+                  logChanges([createAuditEntry(currentUser, 'update', source, students.find(st => st.id === s.id), linked)]);
+                }}
+                onUpdateStudents={(list, source) => {
+                  const updated = new Map(list.filter(s => canEditExam(s.examId)).map(s => [s.id, s]));
+                  setStudents(students.map(st => updated.get(st.id) || st));
+                  logChanges([...updated.values()].map(s => createAuditEntry(currentUser, 'update', source, students.find(st => st.id === s.id), s)));
+                }}
+                onDeleteStudents={ids => {
+                  const targets = students.filter(s => ids.includes(s.id) && canEditExam(s.examId));
+                  if (!targets.length || !confirm(targets.length === 1 ? 'Move this record to the trash?' : `Move ${targets.length} records to the trash?`)) return;
+                  setStudents(students.filter(s => !targets.includes(s)));
+                  targets.forEach(t => moveToTrash('student', t.examId, [t]));
+                  logChanges(targets.map(t => createAuditEntry(currentUser, 'delete', 'manual', t)));
+                }}
+                onTransferStudents={(ids, examId, mode) => {
+                  const target = exams.find(e => e.id === examId);
+                  if (!target || !canEditExam(examId)) return;
+                  const records = students.filter(s => ids.includes(s.id) && s.examId !== examId && canEditExam(s.examId));
+                  const { transferred, skipped } = transferResults(records, target, schemeFor(target, gradingSchemes), students.filter(s => s.examId === examId), mode);
+                  if (mode === 'move') {
+                    const moved = new Map(transferred.map(r => [r.id, r]));
+                    setStudents(students.map(s => moved.get(s.id) || s));
+                    logChanges(transferred.map(r => createAuditEntry(currentUser, 'update', 'manual', students.find(s => s.id === r.id), r)));
+                  } else {
+                    setStudents([...students, ...transferred]);
+                    logChanges(transferred.map(r => createAuditEntry(currentUser, 'create', 'manual', undefined, r)));
+                  }
+                  if (skipped.length) alert(`${skipped.length} record(s) were not ${mode === 'move' ? 'moved' : 'copied'} because their roll numbers are already used in ${target.name}: ${skipped.map(s => s.rollNo).join(', ')}.`);
+                }}
+                onRestoreRevision={(studentId, version) => {
+                  const current = students.find(s => s.id === studentId);
+                  const exam = current && exams.find(e => e.id === current.examId);
+                  if (!current || !exam || !canEditExam(exam.id)) return;
+                  const restored = processStudentData({ ...version, id: current.id, examId: exam.id, profileId: current.profileId }, exam.subjects, schemeFor(exam, gradingSchemes));
+                  if (findRollConflict(restored, students)) { alert(`Roll number ${restored.rollNo} now belongs to another record in this exam.`); return; }
+                  setStudents(students.map(s => s.id === studentId ? restored : s));
+                  logChanges([createAuditEntry(currentUser, 'restore', 'manual', current, restored)]);
+                }}
+                onRestoreFromTrash={itemId => {
+                  const item = trash.find(t => t.id === itemId);
+                  if (!item) return;
+                  if (item.kind === 'exam' && item.exam) {
+                    const exam = item.exam;
+                    if (!hasPermission(currentUser, 'manage_exams')) return;
+                    if (exams.some(e => e.name.toLowerCase() === exam.name.toLowerCase())) { alert(`Rename the existing "${exam.name}" folder before restoring this one.`); return; }
+                    const restored = relinkRestored(item.students);
+                    setExams([...exams, exam]);
+                    setStudents([...students, ...restored]);
+                    logChanges([exam, ...restored].map(r => createAuditEntry(currentUser, 'restore', 'manual', undefined, r)));
+                  } else {
+                    const exam = exams.find(e => e.id === item.examId);
+                    if (!canEditExam(item.examId)) return;
+                    if (!exam) { alert('Restore the exam folder this record belonged to first.'); return; }
+                    const clash = item.students.find(st => findRollConflict(st, students));
+                    if (clash) { alert(`Roll number ${clash.rollNo} is already used in ${exam.name}.`); return; }
+                    const restored = relinkRestored(item.students).map(st => processStudentData(st, exam.subjects, schemeFor(exam, gradingSchemes)));
+                    setStudents([...students, ...restored]);
+                    logChanges(restored.map(r => createAuditEntry(currentUser, 'restore', 'manual', undefined, r)));
+                  }
+                  setTrash(trash.filter(t => t.id !== itemId));
+                }}
+                onPurgeTrash={ids => hasPermission(currentUser, 'manage_settings') && setTrash(trash.filter(t => !ids.includes(t.id)))}
+                onSaveProfile={p => setProfiles(list => list.some(x => x.id === p.id) ? list.map(x => x.id === p.id ? p : x) : [...list, p])}
+                onDeleteProfile={id => {
+                  if (!hasPermission(currentUser, 'manage_exams') || students.some(s => s.profileId === id)) return;
+                  setProfiles(profiles.filter(p => p.id !== id));
+                }}
+                onAddExam={added => {
+                  if (!hasPermission(currentUser, 'manage_exams')) return;
+                  const ex = stampPublication(added);
+                  setExams([...exams, ex]);
+                  logChanges([createAuditEntry(currentUser, 'create', 'manual', undefined, ex)]);
+                }}
+                onUpdateExam={updated => {
+                  if (!hasPermission(currentUser, 'manage_exams')) return;
+                  const previous = exams.find(e => e.id === updated.id);
+                  const ex = stampPublication(updated, previous);
+                  setExams(exams.map(e => e.id === ex.id ? ex : e));
+                  setStudents(recomputeExam(ex, students));
+                  logChanges([createAuditEntry(currentUser, 'update', 'manual', previous, ex)]);
+                }}
+                onDeleteExam={id => {
+                  const exam = exams.find(e => e.id === id);
+                  if (!exam || !hasPermission(currentUser, 'manage_exams')) return;
+                  setExams(exams.filter(e => e.id !== id));
+                  setStudents(students.filter(s => s.examId !== id));
+                  moveToTrash('exam', id, students.filter(s => s.examId === id), exam);
+                  logChanges([createAuditEntry(currentUser, 'delete', 'manual', exam)]);
+                }}
+                onResolveReevaluation={(id, status, note, revised) => {
+                  const request = reevaluations.find(r => r.id === id);
+                  if (!request || request.status !== 'pending' || !canEditExam(request.examId)) return;
+                  const resolved: ReevaluationRequest = { ...request, status, note: note.trim() || undefined, resolvedAt: new Date().toISOString(), resolvedBy: currentUser.displayName };
+                  if (status === 'approved') {
+                    const student = students.find(s => s.id === request.studentId);
+                    const exam = student && exams.find(e => e.id === student.examId);
+                    if (!student || !exam) { alert('The result this request is about no longer exists. Restore it from the trash or reject the request.'); return; }
+                    // Subjects marked in parts take their revised components and are aggregated again.
+                    const updated = processStudentData({
+                      ...student,
+                      marks: { ...student.marks, ...revised?.marks },
+                      componentMarks: { ...student.componentMarks, ...revised?.componentMarks },
+                    }, exam.subjects, schemeFor(exam, gradingSchemes));
+                    resolved.previousMarks = Object.fromEntries(request.subjects.map(key => [key, student.marks[key]]));
+                    resolved.revisedMarks = Object.fromEntries(request.subjects.map(key => [key, updated.marks[key]]));
+                    setStudents(students.map(s => s.id === student.id ? updated : s));
+                    logChanges([createAuditEntry(currentUser, 'update', 'reevaluation', student, updated)]);
+                  }
+                  setReevaluations(reevaluations.map(r => r.id === id ? resolved : r));
+                }}
+                onSaveGradingScheme={g => {
+                  if (!hasPermission(currentUser, 'manage_settings')) return;
+                  const next = customSchemes.some(c => c.id === g.id) ? customSchemes.map(c => c.id === g.id ? g : c) : [...customSchemes, g];
+                  const schemes = [...BUILT_IN_GRADING_SCHEMES, ...next];
+                  setCustomSchemes(next);
+                  setStudents(exams.filter(ex => ex.gradingSchemeId === g.id).reduce((list, ex) => recomputeExam(ex, list, schemes), students));
+                }}
+                onDeleteGradingScheme={id => hasPermission(currentUser, 'manage_settings') && setCustomSchemes(customSchemes.filter(c => c.id !== id))}
+                onRestore={(backup, mode) => {
+                  if (!hasPermission(currentUser, 'manage_settings')) return;
+                  const plan = planRestore({ exams, students, profiles, gradingSchemes: customSchemes, reevaluations }, backup, mode);
+                  setExams(plan.exams);
+                  setStudents(plan.students);
+                  setProfiles(plan.profiles);
+                  setCustomSchemes(plan.gradingSchemes);
+                  setReevaluations(plan.reevaluations);
+                  if (mode === 'replace' && backup.settings) setSchoolSettings(backup.settings);
+                  plan.removedExams.forEach(({ exam, students: records }) => moveToTrash('exam', exam.id, records, exam));
+                  plan.removedStudents.forEach(st => moveToTrash('student', st.examId, [st]));
+                  logChanges(plan.changes.map(c => createAuditEntry(currentUser, c.action, 'backup', c.before, c.after)));
+                  if (plan.skippedExams.length) alert(`${plan.skippedExams.length} exam folder(s) were not restored because their names are already used: ${plan.skippedExams.map(e => e.name).join(', ')}.`);
+                  if (plan.skippedStudents.length) alert(`${plan.skippedStudents.length} record(s) were not restored because their roll numbers are already used or their exam folder was not restored: ${plan.skippedStudents.map(st => st.rollNo).join(', ')}.`);
+                }}
+                onSaveSchoolSettings={settings => hasPermission(currentUser, 'manage_settings') && setSchoolSettings(settings)}
+                onSaveUser={u => {
+                  if (!hasPermission(currentUser, 'manage_users')) return;
+                  setUsers(users.some(x => x.id === u.id) ? users.map(x => x.id === u.id ? u : x) : [...users, u]);
+                  if (u.id === currentUser.id) setCurrentUser(u);
+                }}
+                onDeleteUser={id => hasPermission(currentUser, 'manage_users') && id !== currentUser.id && setUsers(users.filter(u => u.id !== id))}
+              />
+            )}
+          </>
+        )}
+      </main>
+      <footer className="py-8 text-center text-slate-400 text-sm border-t bg-white print:hidden">
+        <p className="font-bold uppercase tracking-[0.2em] text-[10px] mb-1">EduResult Portal</p>
+        <p className="font-medium">&copy; {new Date().getFullYear()} Advanced AI-Powered Record Management</p>
+      </footer>
+    </div>
+  );
+};
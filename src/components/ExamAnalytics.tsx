@@ -0,0 +1,127 @@
+import { Trophy } from 'lucide-react';
+import { ExamAnalyticsPanelProps, ExamVisibility, GradeHistogramProps, ResultStatus, VisibilityBadgeProps } from '../types';
+import { examVisibility, statusBadgeClass } from '../utils';
+
+const VISIBILITY_BADGES: Record<ExamVisibility, string> = {
+  draft: 'bg-amber-100 text-amber-600',
+  scheduled: 'bg-sky-100 text-sky-600',
+  published: 'bg-green-100 text-green-600',
+};
+
+export const VisibilityBadge = ({ exam }: VisibilityBadgeProps) => {
+  const visibility = examVisibility(exam);
+  return (
+    <span title={visibility === 'scheduled' ? `Publishes ${new Date(exam.publishAt!).toLocaleString()}` : undefined} className={`px-2 py-0.5 rounded-full text-[10px] font-black uppercase tracking-widest ${VISIBILITY_BADGES[visibility]}`}>
+      {visibility}
+    </span>
+  );
+};
+
+const GradeHistogram = ({ grades }: GradeHistogramProps) => {
+  const peak = Math.max(1, ...grades.map(g => g.count));
+  return (
+    <div className="flex items-end gap-2 h-36">
+      {grades.map(g => (
+        <div key={g.grade} className="flex-1 flex flex-col items-center justify-end h-full gap-1">
+          <span className="text-xs font-black text-slate-500">{g.count}</span>
+          <div className="w-full bg-indigo-500 rounded-t-lg" style={{ height: `${g.count / peak * 100}%`, minHeight: g.count ? 4 : 0 }} />
+          <span className="text-xs font-black text-slate-400 uppercase">{g.grade}</span>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export const ExamAnalyticsPanel = ({ exam, analytics }: ExamAnalyticsPanelProps) => {
+  if (!analytics.count) {
+    return <div className="py-20 bg-white rounded-[2rem] border border-slate-100 text-center text-slate-300 font-bold">Add student records to see analytics for {exam.name}.</div>;
+  }
+  const cards = [
+    { label: 'Students', value: analytics.count },
+    { label: 'Average', value: `${analytics.average}%` },
+    { label: 'Highest', value: `${analytics.highest}%` },
+    { label: 'Lowest', value: `${analytics.lowest}%` },
+    { label: 'Pass Rate', value: `${analytics.passRate}%` },
+  ];
+  const cardClass = "bg-white p-8 rounded-[2rem] shadow-sm border border-slate-100";
+  const headingClass = "text-xs font-black text-slate-400 uppercase tracking-widest mb-4";
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+        {cards.map(c => (
+          <div key={c.label} className="bg-white p-6 rounded-[2rem] shadow-sm border border-slate-100">
+            <p className="text-xs font-black text-slate-400 uppercase tracking-widest">{c.label}</p>
+            <p className="text-3xl font-black text-slate-900 mt-1">{c.value}</p>
+          </div>
+        ))}
+      </div>
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <div className={cardClass}>
+          <p className={headingClass}>Grade Distribution</p>
+          <GradeHistogram grades={analytics.grades} />
+          <div className="flex gap-2 mt-6">
+            {(['Pass', 'Compartment', 'Fail'] as ResultStatus[]).map(status => (
+              <span key={status} className={`px-4 py-1.5 rounded-full text-xs font-black tracking-widest border ${statusBadgeClass(status)}`}>
+                {status} • {analytics.statusCounts[status]}
+              </span>
+            ))}
+          </div>
+        </div>
+        <div className={cardClass}>
+          <p className={headingClass}>Class Comparison</p>
+          <table className="w-full text-left text-sm">
+            <thead className="text-slate-400 text-[10px] uppercase font-black tracking-widest">
+              <tr><th className="py-2">Class</th><th className="py-2">Students</th><th className="py-2">Average</th><th className="py-2">Highest</th><th className="py-2">Pass Rate</th></tr>
+            </thead>
+            <tbody className="divide-y divide-slate-50">
+              {analytics.classes.map(c => (
+                <tr key={c.className}>
+                  <td className="py-3 font-bold text-slate-900">{c.className || '—'}</td>
+                  <td className="py-3 text-slate-600">{c.count}</td>
+                  <td className="py-3">
+                    <div className="flex items-center gap-2">
+                      <div className="w-20 bg-slate-100 h-2 rounded-full overflow-hidden"><div className="h-full bg-indigo-500" style={{ width: `${c.average}%` }} /></div>
+                      <span className="font-black text-slate-700">{c.average}%</span>
+                    </div>
+                  </td>
+                  <td className="py-3 text-slate-600">{c.highest}%</td>
+                  <td className="py-3 text-slate-600">{c.passRate}%</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <p className="mt-6 text-sm font-bold text-slate-500 flex items-center gap-2">
+            <Trophy size={16} className="text-amber-500" /> Top: {analytics.toppers.map(s => s.name).join(', ')} ({analytics.highest}%)
+          </p>
+        </div>
+      </div>
+      <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-6">
+        {analytics.subjects.map(s => (
+          <div key={s.subject.key} className={cardClass}>
+            <div className="flex justify-between items-start mb-4">
+              <p className="font-black text-slate-900 capitalize">{s.subject.name}</p>
+              <span className="text-xs font-bold text-slate-400">{s.taken} students</span>
+            </div>
+            {s.taken > 0 ? (
+              <>
+                <div className="grid grid-cols-2 gap-2 text-sm mb-6">
+                  <p className="text-slate-500">Average <span className="font-black text-slate-800">{s.average}%</span></p>
+                  <p className="text-slate-500">Pass rate <span className="font-black text-slate-800">{s.passRate}%</span></p>
+                  <p className="text-slate-500">Highest <span className="font-black text-slate-800">{s.highest}%</span></p>
+                  <p className="text-slate-500">Lowest <span className="font-black text-slate-800">{s.lowest}%</span></p>
+                </div>
+                <GradeHistogram grades={s.grades} />
+                <p className="mt-4 text-xs font-bold text-slate-500 flex items-center gap-2">
+                  <Trophy size={14} className="text-amber-500" /> {s.toppers.map(t => t.name).join(', ')}
+                </p>
+              </>
+            ) : (
+              <p className="text-sm text-slate-400">No student has taken this subject.</p>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,169 @@
+import { useState, useMemo } from 'react';
+import { Search, Trash2, X, FileText, Folder, ArrowRight, History, ScrollText, Undo2 } from 'lucide-react';
+import {
+  AuditEntryHeaderProps,
+  AuditLogModalProps,
+  ChangeListProps,
+  RevisionHistoryModalProps,
+  Student,
+  TrashModalProps,
+} from '../types';
+import { CHANGE_SOURCE_LABELS, describeChanges } from '../utils';
+import { FIELD_LABELS } from '../scanSources';
+
+const ChangeList = ({ changes }: ChangeListProps) => (
+  <ul className="mt-2 space-y-1 text-xs">
+    {changes.map(c => (
+      <li key={c.field} className="flex flex-wrap gap-2">
+        <span className="font-black text-slate-500 capitalize">{FIELD_LABELS[c.field] || c.field.replace(/^marks\./, '').replace(/^componentMarks\.(.+)\.(\w+)$/, '$1 $2').replace(/^remarks\.(.+)/, '$1 remark')}</span>
+        <span className="text-red-500 line-through">{c.from}</span>
+        <ArrowRight size={12} className="text-slate-300 self-center" />
+        <span className="text-emerald-600 font-bold">{c.to}</span>
+      </li>
+    ))}
+  </ul>
+);
+
+const AuditEntryHeader = ({ entry }: AuditEntryHeaderProps) => (
+  <p className="text-xs text-slate-400">
+    <span className="font-black uppercase tracking-widest text-slate-600">{entry.action}</span>
+    {' • '}{new Date(entry.at).toLocaleString()} • {entry.userName} • {CHANGE_SOURCE_LABELS[entry.source]}
+  </p>
+);
+
+export const RevisionHistoryModal = ({ student, entries, onRestore, onClose }: RevisionHistoryModalProps) => {
+  const revisions = [...entries].reverse();
+  return (
+    <div className="fixed inset-0 bg-slate-900/60 backdrop-blur-md flex items-center justify-center p-4 z-[90]">
+      <div className="bg-white rounded-[2.5rem] w-full max-w-2xl max-h-[90vh] overflow-y-auto shadow-2xl p-8 animate-in zoom-in-95">
+        <div className="flex justify-between items-center mb-8">
+          <h3 className="text-2xl font-black text-slate-900 flex items-center gap-3"><History className="text-indigo-600" /> {student.name} <span className="text-sm text-slate-400 font-medium">Roll {student.rollNo}</span></h3>
+          <button onClick={onClose} className="text-slate-300 hover:text-slate-600"><X size={32} /></button>
+        </div>
+        <div className="space-y-3">
+          {revisions.map(entry => {
+            const changes = entry.action === 'create' ? [] : describeChanges(entry.before, entry.after);
+            // Each entry's "after" is a past version; restoring one that matches the current record would be a no-op.
+            const restorable = entry.after && describeChanges(student, entry.after).length > 0;
+            return (
+              <div key={entry.id} className="p-4 bg-slate-50 rounded-2xl border border-slate-100">
+                <div className="flex justify-between items-start gap-4">
+                  <AuditEntryHeader entry={entry} />
+                  {restorable && (
+                    <button
+                      onClick={() => { if (confirm('Restore the record to this version?')) onRestore(entry.after as Student); }}
+                      className="flex items-center gap-1 text-xs font-black uppercase tracking-widest text-indigo-600 hover:text-indigo-800 whitespace-nowrap"
+                    ><Undo2 size={14} /> Restore</button>
+                  )}
+                </div>
+                {changes.length > 0 && <ChangeList changes={changes} />}
+              </div>
+            );
+          })}
+          {revisions.length === 0 && <p className="text-sm text-slate-400 text-center py-6">No changes have been recorded for this result yet.</p>}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+const AUDIT_PAGE_SIZE = 50;
+
+export const AuditLogModal = ({ entries, exams, onClose }: AuditLogModalProps) => {
+  const [query, setQuery] = useState('');
+  const [examId, setExamId] = useState('');
+  const [limit, setLimit] = useState(AUDIT_PAGE_SIZE);
+
+  const matches = useMemo(() => {
+    const q = query.trim().toLowerCase();
+    return entries
+      .filter(e => !examId || e.examId === examId)
+      .filter(e => !q || e.label.toLowerCase().includes(q) || e.userName.toLowerCase().includes(q))
+      .sort((a, b) => b.at.localeCompare(a.at));
+  }, [entries, query, examId]);
+
+  const examName = (id: string) => exams.find(e => e.id === id)?.name || 'Deleted exam';
+  const inputClass = "px-4 py-3 bg-slate-50 border border-slate-100 rounded-xl outline-none focus:ring-2 focus:ring-indigo-500 text-slate-900 font-bold";
+
+  return (
+    <div className="fixed inset-0 bg-slate-900/60 backdrop-blur-md flex items-center justify-center p-4 z-[90]">
+      <div className="bg-white rounded-[2.5rem] w-full max-w-3xl max-h-[90vh] overflow-y-auto shadow-2xl p-8 animate-in zoom-in-95">
+        <div className="flex justify-between items-center mb-8">
+          <h3 className="text-2xl font-black text-slate-900 flex items-center gap-3"><ScrollText className="text-indigo-600" /> Audit Log</h3>
+          <button onClick={onClose} className="text-slate-300 hover:text-slate-600"><X size={32} /></button>
+        </div>
+        <div className="flex flex-wrap gap-3 mb-4">
+          <div className="relative flex-1 min-w-[12rem]">
+            <Search className="absolute left-4 top-1/2 -translate-y-1/2 text-slate-300" size={18} />
+            <input value={query} onChange={e => { setQuery(e.target.value); setLimit(AUDIT_PAGE_SIZE); }} placeholder="Search by record or user" className={`${inputClass} w-full pl-11`} />
+          </div>
+          <select value={examId} onChange={e => { setExamId(e.target.value); setLimit(AUDIT_PAGE_SIZE); }} className={inputClass}>
+            <option value="">All exams</option>
+            {exams.map(e => <option key={e.id} value={e.id}>{e.name}</option>)}
+          </select>
+        </div>
+        <div className="space-y-3">
+          {matches.slice(0, limit).map(entry => (
+            <div key={entry.id} className="p-4 bg-slate-50 rounded-2xl border border-slate-100">
+              <p className="font-bold text-slate-900">
+                {entry.label}
+                <span className="ml-2 text-xs text-slate-400 font-medium">{entry.entity === 'exam' ? 'Exam folder' : examName(entry.examId)}</span>
+              </p>
+              <AuditEntryHeader entry={entry} />
+              {entry.action === 'update' && <ChangeList changes={describeChanges(entry.before, entry.after)} />}
+            </div>
+          ))}
+          {matches.length === 0 && <p className="text-sm text-slate-400 text-center py-6">{entries.length ? 'No entries match your search.' : 'No changes have been recorded yet.'}</p>}
+          {matches.length > limit && (
+            <button onClick={() => setLimit(limit + AUDIT_PAGE_SIZE)} className="w-full py-4 border border-slate-200 rounded-2xl font-bold text-slate-600 hover:bg-slate-50">
+              Show More ({matches.length - limit} older)
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export const TrashModal = ({ items, canPurge, onRestore, onPurge, onClose }: TrashModalProps) => {
+  const sorted = [...items].sort((a, b) => b.deletedAt.localeCompare(a.deletedAt));
+  return (
+    <div className="fixed inset-0 bg-slate-900/60 backdrop-blur-md flex items-center justify-center p-4 z-[90]">
+      <div className="bg-white rounded-[2.5rem] w-full max-w-2xl max-h-[90vh] overflow-y-auto shadow-2xl p-8 animate-in zoom-in-95">
+        <div className="flex justify-between items-center mb-8">
+          <h3 className="text-2xl font-black text-slate-900 flex items-center gap-3"><Trash2 className="text-indigo-600" /> Trash</h3>
+          <button onClick={onClose} className="text-slate-300 hover:text-slate-600"><X size={32} /></button>
+        </div>
+        <div className="space-y-3">
+          {sorted.map(item => (
+            <div key={item.id} className="flex justify-between items-center gap-4 p-4 bg-slate-50 rounded-2xl border border-slate-100">
+              <div>
+                <p className="font-bold text-slate-900 flex items-center gap-2">
+                  {item.kind === 'exam' ? <Folder size={16} className="text-indigo-600" /> : <FileText size={16} className="text-indigo-600" />}
+                  {item.kind === 'exam' ? item.exam?.name : `${item.students[0]?.name} (Roll ${item.students[0]?.rollNo})`}
+                </p>
+                <p className="text-xs text-slate-400">
+                  {item.kind === 'exam' && `${item.students.length} ${item.students.length === 1 ? 'record' : 'records'} • `}
+                  Deleted {new Date(item.deletedAt).toLocaleString()} by {item.deletedBy}
+                </p>
+              </div>
+              <div className="flex gap-1">
+                <button onClick={() => onRestore(item.id)} title="Restore" className="p-2 text-slate-400 hover:text-indigo-600"><Undo2 size={18} /></button>
+                {canPurge && (
+                  <button onClick={() => { if (confirm('Delete this item permanently? This cannot be undone.')) onPurge([item.id]); }} title="Delete permanently" className="p-2 text-slate-400 hover:text-red-500"><Trash2 size={18} /></button>
+                )}
+              </div>
+            </div>
+          ))}
+          {sorted.length === 0 && <p className="text-sm text-slate-400 text-center py-6">The trash is empty.</p>}
+          {canPurge && sorted.length > 0 && (
+            <button
+              onClick={() => { if (confirm(`Permanently delete all ${sorted.length} item(s) in the trash?`)) onPurge(sorted.map(t => t.id)); }}
+              className="w-full flex items-center justify-center gap-2 py-4 border border-red-100 rounded-2xl font-bold text-red-600 hover:bg-red-50"
+            ><Trash2 size={18} /> Empty Trash</button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,82 @@
+import React, { useState } from 'react';
+import { User, Lock, GraduationCap, Loader2, AlertCircle } from 'lucide-react';
+import { LoginProps } from '../types';
+import { createUserAccount, MIN_PASSWORD_LENGTH } from '../auth';
+import { ApiError } from '../api';
+
+export const Login = ({ needsSetup: isSetup, onLogin, onSetup }: LoginProps) => {
+  const [user, setUser] = useState('');
+  const [displayName, setDisplayName] = useState('');
+  const [pass, setPass] = useState('');
+  const [confirmPass, setConfirmPass] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  const handleLogin = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setLoading(true);
+    setError('');
+    try {
+      if (!(await onLogin(user, pass))) { setError('Unauthorized Credentials'); setLoading(false); }
+    } catch (err) {
+      setError(err instanceof ApiError ? err.message : 'Sign-in failed. Please try again.');
+      setLoading(false);
+    }
+  };
+
+  const handleSetup = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    if (pass.length < MIN_PASSWORD_LENGTH) { setError(`Password must be at least ${MIN_PASSWORD_LENGTH} characters.`); return; }
+    if (pass !== confirmPass) { setError('Passwords do not match.'); return; }
+    setLoading(true);
+    try {
+      await onSetup(await createUserAccount({ username: user, displayName: displayName.trim() || user.trim(), role: 'super_admin', assignedExamIds: [] }, pass));
+    } catch (err) {
+      setError(err instanceof ApiError ? err.message : 'Setup failed. Please try again.');
+      setLoading(false);
+    }
+  };
+
+  const inputClass = "w-full pl-12 pr-4 py-4 bg-slate-50/50 border border-slate-100 rounded-2xl outline-none focus:ring-2 focus:ring-indigo-500 text-slate-900 font-bold";
+
+  return (
+    <div className="min-h-[70vh] flex items-center justify-center p-4">
+      <div className="w-full max-w-md bg-white p-12 rounded-[3rem] shadow-2xl border border-slate-100 relative overflow-hidden">
+        <div className="absolute -top-6 left-1/2 -translate-x-1/2 bg-indigo-600 text-white p-5 rounded-[2rem] shadow-xl">
+           {loading ? <Loader2 className="animate-spin" size={32} /> : <Lock size={32} />}
+        </div>
+        <div className="text-center mt-10 mb-8">
+          <h2 className="text-3xl font-black text-slate-900 mb-2">{isSetup ? 'First-Run Setup' : 'Admin Gateway'}</h2>
+          <p className="text-slate-500 font-medium">{isSetup ? 'Create the super-admin account for this installation.' : 'Access centralized management system.'}</p>
+        </div>
+        <form onSubmit={isSetup ? handleSetup : handleLogin} className="space-y-6">
+          <div className="space-y-4">
+            <div className="relative">
+              <User className="absolute left-4 top-1/2 -translate-y-1/2 text-slate-300" size={20} />
+              <input required autoComplete="username" value={user} onChange={e => setUser(e.target.value)} className={inputClass} placeholder="Username" />
+            </div>
+            {isSetup && (
+              <div className="relative">
+                <GraduationCap className="absolute left-4 top-1/2 -translate-y-1/2 text-slate-300" size={20} />
+                <input value={displayName} onChange={e => setDisplayName(e.target.value)} className={inputClass} placeholder="Display Name" />
+              </div>
+            )}
+            <div className="relative">
+              <Lock className="absolute left-4 top-1/2 -translate-y-1/2 text-slate-300" size={20} />
+              <input type="password" required autoComplete={isSetup ? 'new-password' : 'current-password'} value={pass} onChange={e => setPass(e.target.value)} className={inputClass} placeholder="Password" />
+            </div>
+            {isSetup && (
+              <div className="relative">
+                <Lock className="absolute left-4 top-1/2 -translate-y-1/2 text-slate-300" size={20} />
+                <input type="password" required autoComplete="new-password" value={confirmPass} onChange={e => setConfirmPass(e.target.value)} className={inputClass} placeholder="Confirm Password" />
+              </div>
+            )}
+          </div>
+          {error && <div className="p-4 bg-red-50 text-red-600 rounded-2xl text-sm font-bold flex items-center gap-2 border border-red-100"><AlertCircle size={18} /> {error}</div>}
+          <button disabled={loading} className="w-full bg-slate-900 text-white py-5 rounded-2xl font-black shadow-xl hover:bg-slate-800 disabled:bg-slate-400 transition-all text-lg">{isSetup ? 'Create Admin Account' : 'Sign In'}</button>
+        </form>
+      </div>
+    </div>
+  );
+};
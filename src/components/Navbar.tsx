@@ -0,0 +1,42 @@
+import { Lock, LayoutDashboard, LogOut, GraduationCap, ShieldCheck } from 'lucide-react';
+import { NavbarProps } from '../types';
+
+export const Navbar = ({ onLogout, user, onNavigate }: NavbarProps) => (
+  <nav className="bg-indigo-700 text-white shadow-lg sticky top-0 z-50 print:hidden">
+    <div className="max-w-7xl mx-auto px-4 h-16 flex justify-between items-center">
+      <div className="flex items-center cursor-pointer group" onClick={() => onNavigate({ page: 'landing' })}>
+        <GraduationCap className="h-8 w-8 mr-2 group-hover:rotate-12 transition-transform" />
+        <span className="font-bold text-xl tracking-tight">EduResult</span>
+      </div>
+      <div className="flex items-center space-x-4">
+        <button onClick={() => onNavigate({ page: 'verify' })} className="flex items-center space-x-2 hover:bg-indigo-800 px-4 py-2 rounded-xl transition-all active:scale-95">
+          <ShieldCheck size={18} />
+          <span className="font-medium hidden sm:inline">Verify</span>
+        </button>
+        {user && (
+          <button onClick={() => onNavigate({ page: 'admin' })} className="flex items-center space-x-2 hover:bg-indigo-800 px-4 py-2 rounded-xl transition-all active:scale-95">
+            <LayoutDashboard size={18} />
+            <span className="font-medium hidden sm:inline">Dashboard</span>
+          </button>
+        )}
+        {user && (
+          <div className="hidden md:flex flex-col items-end leading-tight">
+            <span className="font-bold text-sm">{user.displayName}</span>
+            <span className="text-[10px] uppercase tracking-widest text-indigo-200">{user.role === 'super_admin' ? 'Super-admin' : 'Teacher'}</span>
+          </div>
+        )}
+        {user ? (
+          <button onClick={onLogout} className="flex items-center space-x-2 bg-indigo-800 hover:bg-indigo-900 px-4 py-2 rounded-xl transition-all active:scale-95">
+            <LogOut size={18} />
+            <span className="font-medium">Logout</span>
+          </button>
+        ) : (
+          <button onClick={() => onNavigate({ page: 'login' })} className="flex items-center space-x-2 bg-indigo-800 hover:bg-indigo-900 px-4 py-2 rounded-xl transition-all active:scale-95">
+            <Lock size={18} />
+            <span className="font-medium">Admin Access</span>
+          </button>
+        )}
+      </div>
+    </div>
+  </nav>
+);
@@ -0,0 +1,526 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import {
+  Lock,
+  Search,
+  ClipboardList,
+  ChevronLeft,
+  FileText,
+  CheckCircle,
+  Loader2,
+  AlertCircle,
+  BookOpen,
+  ArrowRight,
+  Download,
+  Printer,
+  ShieldCheck,
+  ShieldX,
+  TrendingUp,
+  Link2,
+  MessageSquareText,
+  Scale,
+  Send
+} from 'lucide-react';
+import QRCode from 'qrcode';
+import {
+  Exam,
+  LandingProps,
+  MarksheetDocumentProps,
+  ProgressChartProps,
+  ProgressChartSeries,
+  ReevaluationStatus,
+  Student,
+  StudentResultProps,
+  VerifyResultProps,
+} from '../types';
+import {
+  calculateGrade,
+  COMPONENT_LABELS,
+  componentBreakdown,
+  examDetails,
+  failedComponents,
+  hasComponents,
+  passMarkFor,
+  reevaluationBlocker,
+  reevaluationDeadline,
+} from '../utils';
+import { computeVerificationCode } from '../verification';
+import { LookupThrottledError } from '../auth';
+import { generateMarksheetPdf, verificationUrl } from '../marksheet';
+import { publishedRemarks } from '../remarks';
+import { routePath } from '../routing';
+
+export const Landing = ({ exams, initialExamId = '', initialRollNo = '', onCheckResult }: LandingProps) => {
+  const [rollNo, setRollNo] = useState(initialRollNo);
+  const [selectedExam, setSelectedExam] = useState(initialExamId);
+  const [factor, setFactor] = useState<'dateOfBirth' | 'pin'>('dateOfBirth');
+  const [secret, setSecret] = useState('');
+  const [checking, setChecking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => { if (exams.length > 0 && !selectedExam) setSelectedExam(exams[0].id); }, [exams]);
+
+  const handleCheck = async () => {
+    setError(null);
+    setChecking(true);
+    try {
+      if (!(await onCheckResult(rollNo, selectedExam, { [factor]: secret }))) {
+        setError(`No published result matches this roll number and ${factor === 'pin' ? 'access PIN' : 'date of birth'}.`);
+      }
+    } catch (err) {
+      setError(err instanceof LookupThrottledError ? err.message : 'The result could not be loaded. Please try again.');
+    } finally {
+      setChecking(false);
+    }
+  };
+
+  return (
+    <div className="min-h-[80vh] flex flex-col items-center justify-center p-4">
+      <div className="text-center mb-12">
+        <h1 className="text-4xl md:text-6xl font-extrabold text-slate-900 mb-4 tracking-tight">Check Your <span className="text-indigo-600">Results</span></h1>
+        <p className="text-slate-600 text-lg max-w-lg mx-auto leading-relaxed">Secure and fast access to your academic performance records.</p>
+      </div>
+      <div className="w-full max-w-md bg-white p-8 rounded-3xl shadow-xl border border-slate-100 space-y-5">
+        <div className="space-y-2">
+          <label className="text-xs font-black text-slate-400 uppercase tracking-widest px-1">Select Exam</label>
+          <div className="relative">
+            <BookOpen className="absolute left-4 top-1/2 -translate-y-1/2 text-slate-400" size={20} />
+            <select 
+              value={selectedExam} onChange={e => setSelectedExam(e.target.value)}
+              className="w-full pl-12 pr-4 py-4 border border-slate-200 rounded-2xl focus:ring-2 focus:ring-indigo-500 outline-none text-slate-900 font-semibold appearance-none bg-white"
+            >
+              {exams.length === 0 ? <option disabled>No exams available</option> : exams.map(e => <option key={e.id} value={e.id}>{e.academicYear ? `${e.name} (${e.academicYear})` : e.name}</option>)}
+            </select>
+          </div>
+        </div>
+        <div className="space-y-2">
+          <label className="text-xs font-black text-slate-400 uppercase tracking-widest px-1">Roll Number</label>
+          <div className="relative">
+            <Search className="absolute left-4 top-1/2 -translate-y-1/2 text-slate-400" size={20} />
+            <input 
+              type="text" value={rollNo} onChange={e => setRollNo(e.target.value)}
+              placeholder="e.g. 2024-001"
+              className="w-full pl-12 pr-4 py-4 border border-slate-200 rounded-2xl focus:ring-2 focus:ring-indigo-500 outline-none text-slate-900 font-semibold"
+            />
+          </div>
+        </div>
+        <div className="space-y-2">
+          <div className="flex justify-between items-center px-1">
+            <label className="text-xs font-black text-slate-400 uppercase tracking-widest">{factor === 'pin' ? 'Access PIN' : 'Date of Birth'}</label>
+            <button type="button" onClick={() => { setFactor(factor === 'pin' ? 'dateOfBirth' : 'pin'); setSecret(''); }} className="text-xs font-bold text-indigo-600 hover:text-indigo-800">
+              Use {factor === 'pin' ? 'date of birth' : 'access PIN'} instead
+            </button>
+          </div>
+          <div className="relative">
+            <Lock className="absolute left-4 top-1/2 -translate-y-1/2 text-slate-400" size={20} />
+            <input
+              type={factor === 'pin' ? 'password' : 'date'} inputMode={factor === 'pin' ? 'numeric' : undefined} autoComplete="off"
+              value={secret} onChange={e => setSecret(e.target.value)}
+              placeholder={factor === 'pin' ? '6-digit PIN from your school' : undefined}
+              className="w-full pl-12 pr-4 py-4 border border-slate-200 rounded-2xl focus:ring-2 focus:ring-indigo-500 outline-none text-slate-900 font-semibold"
+            />
+          </div>
+        </div>
+        {error && <div className="p-4 bg-red-50 text-red-600 rounded-2xl text-sm font-bold flex items-center gap-2 border border-red-100"><AlertCircle size={18} /> {error}</div>}
+        <button 
+          onClick={handleCheck}
+          disabled={!rollNo || !selectedExam || !secret || checking}
+          className="w-full bg-indigo-600 text-white py-4 rounded-2xl font-bold hover:bg-indigo-700 transition-all shadow-lg disabled:opacity-50 text-lg"
+        >
+          View Marksheet
+        </button>
+      </div>
+    </div>
+  );
+};
+
+// Print-only layout; the on-screen card is hidden via print:hidden when the browser prints.
+const MarksheetDocument = ({ student, exam, scheme, school, code, qrDataUrl }: MarksheetDocumentProps) => {
+  const remarks = publishedRemarks(student);
+  const subjectRemarks = !!remarks && Object.keys(remarks.subjects).length > 0;
+  return (
+    <div className="hidden print:block text-slate-900 p-8">
+      <div className="flex items-center gap-6 border-b-2 border-slate-900 pb-4 mb-6">
+        {school.logoDataUrl && <img src={school.logoDataUrl} className="h-20 w-20 object-contain" />}
+        <div className="flex-1 text-center">
+          <h1 className="text-3xl font-black">{school.schoolName}</h1>
+          {school.address && <p className="text-sm">{school.address}</p>}
+          <p className="mt-2 text-lg font-bold">Statement of Marks • {exam.name}</p>
+          {examDetails(exam) && <p className="text-sm">{examDetails(exam)}</p>}
+        </div>
+      </div>
+      <div className="grid grid-cols-3 gap-4 mb-6 text-sm">
+        <p><span className="font-bold">Name:</span> {student.name}</p>
+        <p><span className="font-bold">Roll No:</span> {student.rollNo}</p>
+        <p><span className="font-bold">Class:</span> {student.className}</p>
+      </div>
+      <table className="w-full text-sm border border-slate-300 mb-6">
+        <thead className="bg-slate-100">
+          <tr>{['Subject', 'Max', 'Pass', 'Obtained', 'Grade', ...(subjectRemarks ? ['Remarks'] : [])].map(h => <th key={h} className="border border-slate-300 px-3 py-2 text-left">{h}</th>)}</tr>
+        </thead>
+        <tbody>
+          {exam.subjects.filter(sub => student.marks[sub.key] !== undefined).map(sub => (
+            <tr key={sub.key}>
+              <td className="border border-slate-300 px-3 py-2">
+                {sub.name}
+                {componentBreakdown(sub, student) && <p className="text-[10px] text-slate-500">{componentBreakdown(sub, student)}</p>}
+              </td>
+              <td className="border border-slate-300 px-3 py-2">{sub.maxMarks}</td>
+              <td className="border border-slate-300 px-3 py-2">{passMarkFor(sub, scheme)}</td>
+              <td className="border border-slate-300 px-3 py-2 font-bold">{student.marks[sub.key]}</td>
+              <td className="border border-slate-300 px-3 py-2">{calculateGrade(student.marks[sub.key] / sub.maxMarks * 100, scheme)}</td>
+              {subjectRemarks && <td className="border border-slate-300 px-3 py-2 text-xs">{remarks.subjects[sub.key]}</td>}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      <div className={`grid grid-cols-4 gap-4 text-sm font-bold ${remarks?.overall ? 'mb-6' : 'mb-16'}`}>
+        <p>Total: {student.total} / {student.maxTotal}</p>
+        <p>Percentage: {student.percentage}%</p>
+        <p>Grade: {student.grade} (CGPA {student.gradePoint})</p>
+        <p>Result: {student.status}</p>
+      </div>
+      {remarks?.overall && (
+        <div className="border border-slate-300 p-3 text-sm mb-16">
+          <p className="font-bold mb-1">Teacher's Remarks</p>
+          <p>{remarks.overall}</p>
+        </div>
+      )}
+      <div className="flex justify-between items-end">
+        <div>
+          {qrDataUrl && <img src={qrDataUrl} className="h-28 w-28" />}
+          <p className="text-xs mt-1">Scan to verify • <span className="font-mono font-bold">{code}</span></p>
+        </div>
+        <div className="text-center w-56">
+          <div className="border-t border-slate-900 pt-2 font-bold">{school.signatoryName || '\u00a0'}</div>
+          <p className="text-xs">{school.signatoryTitle}</p>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+const CHART_COLORS = ['#4f46e5', '#0891b2', '#16a34a', '#d97706', '#dc2626', '#9333ea', '#db2777', '#475569'];
+
+// Line chart of percentages (0-100) across exams; gaps where a value is null.
+const ProgressChart = ({ labels, series }: ProgressChartProps) => {
+  const width = 640, height = 240, left = 40, right = 16, top = 12, bottom = 44;
+  const x = (i: number) => labels.length === 1 ? left + (width - left - right) / 2 : left + i * (width - left - right) / (labels.length - 1);
+  const y = (v: number) => top + (1 - v / 100) * (height - top - bottom);
+
+  return (
+    <svg viewBox={`0 0 ${width} ${height}`} className="w-full h-auto">
+      {[0, 25, 50, 75, 100].map(v => (
+        <g key={v}>
+          <line x1={left} x2={width - right} y1={y(v)} y2={y(v)} stroke="#e2e8f0" strokeDasharray={v ? '4 4' : undefined} />
+          <text x={left - 8} y={y(v) + 4} textAnchor="end" className="fill-slate-400 text-[11px] font-bold">{v}</text>
+        </g>
+      ))}
+      {labels.map((label, i) => (
+        <text key={i} x={x(i)} y={height - bottom + 20} textAnchor="middle" className="fill-slate-500 text-[11px] font-bold">
+          <title>{label}</title>
+          {label.length > 16 ? `${label.slice(0, 15)}…` : label}
+        </text>
+      ))}
+      {series.map(line => {
+        const path = line.values
+          .map((v, i) => v === null ? '' : `${i > 0 && line.values[i - 1] !== null ? 'L' : 'M'}${x(i)},${y(v)}`)
+          .join(' ');
+        return (
+          <g key={line.name}>
+            <path d={path} fill="none" stroke={line.color} strokeWidth={3} strokeLinejoin="round" strokeLinecap="round" />
+            {line.values.map((v, i) => v !== null && (
+              <circle key={i} cx={x(i)} cy={y(v)} r={5} fill="white" stroke={line.color} strokeWidth={3}>
+                <title>{`${line.name} • ${labels[i]}: ${v}%`}</title>
+              </circle>
+            ))}
+          </g>
+        );
+      })}
+    </svg>
+  );
+};
+
+export const REEVALUATION_STATUS_LABELS: Record<ReevaluationStatus, string> = { pending: 'Under review', approved: 'Approved', rejected: 'Rejected' };
+
+export const REEVALUATION_STATUS_CLASSES: Record<ReevaluationStatus, string> = {
+  pending: 'bg-amber-50 text-amber-700 border-amber-100',
+  approved: 'bg-green-50 text-green-700 border-green-100',
+  rejected: 'bg-red-50 text-red-600 border-red-100',
+};
+
+export const subjectName = (exam: Exam | undefined, key: string) => exam?.subjects.find(sub => sub.key === key)?.name || key;
+
+export const StudentResult = ({ student, exam, scheme, school, history, reevaluations, onRequestReevaluation, onBack }: StudentResultProps) => {
+  const [reevaluationSubjects, setReevaluationSubjects] = useState<string[]>([]);
+  const [reevaluationReason, setReevaluationReason] = useState('');
+  const [reevaluationError, setReevaluationError] = useState<string | null>(null);
+  const [submittingReevaluation, setSubmittingReevaluation] = useState(false);
+  const [code, setCode] = useState('');
+  const [qrDataUrl, setQrDataUrl] = useState('');
+  const [linkCopied, setLinkCopied] = useState(false);
+  const subjects = exam.subjects;
+  const remarks = publishedRemarks(student);
+  const deadline = reevaluationDeadline(exam);
+  const reevaluationBlocked = reevaluationBlocker(exam, reevaluations);
+
+  const submitReevaluation = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!onRequestReevaluation) return;
+    setSubmittingReevaluation(true);
+    setReevaluationError(null);
+    try {
+      await onRequestReevaluation(reevaluationSubjects, reevaluationReason.trim());
+      setReevaluationSubjects([]);
+      setReevaluationReason('');
+    } catch (err) {
+      setReevaluationError(err instanceof Error ? err.message : 'The request could not be sent.');
+    } finally {
+      setSubmittingReevaluation(false);
+    }
+  };
+
+  // The link opens the lookup form pre-filled; viewers still need the date of birth or PIN.
+  const copyLink = async () => {
+    await navigator.clipboard.writeText(window.location.origin + routePath({ page: 'result', examId: exam.id, rollNo: student.rollNo }));
+    setLinkCopied(true);
+    setTimeout(() => setLinkCopied(false), 2000);
+  };
+
+  const progress = useMemo(() => {
+    const labels = history.map(h => h.exam.name);
+    const subjectSeries = new Map<string, ProgressChartSeries>();
+    history.forEach(({ exam: ex, result }, i) => ex.subjects.forEach(sub => {
+      if (result.marks[sub.key] === undefined) return;
+      const id = sub.name.trim().toLowerCase();
+      if (!subjectSeries.has(id)) {
+        subjectSeries.set(id, { name: sub.name, color: CHART_COLORS[subjectSeries.size % CHART_COLORS.length], values: history.map(() => null) });
+      }
+      subjectSeries.get(id)!.values[i] = Math.round(result.marks[sub.key] / sub.maxMarks * 1000) / 10;
+    }));
+    return {
+      labels,
+      overall: [{ name: 'Overall', color: CHART_COLORS[0], values: history.map(h => h.result.percentage) }],
+      subjects: [...subjectSeries.values()],
+    };
+  }, [history]);
+
+  useEffect(() => {
+    let cancelled = false;
+    computeVerificationCode(student, exam).then(async c => {
+      const qr = await QRCode.toDataURL(verificationUrl(student, c), { margin: 1, width: 256 });
+      if (!cancelled) { setCode(c); setQrDataUrl(qr); }
+    });
+    return () => { cancelled = true; };
+  }, [student, exam]);
+
+  return (
+    <div className="max-w-4xl mx-auto p-4 py-12 print:p-0 print:max-w-none">
+      <MarksheetDocument student={student} exam={exam} scheme={scheme} school={school} code={code} qrDataUrl={qrDataUrl} />
+      <div className="print:hidden">
+        <div className="flex justify-between items-center mb-8">
+          <button onClick={onBack} className="flex items-center text-indigo-600 hover:text-indigo-800 font-semibold transition-colors group">
+            <ChevronLeft size={20} className="group-hover:-translate-x-1 transition-transform" />
+            <span>Back to Search</span>
+          </button>
+          <div className="flex gap-3">
+            <button onClick={copyLink} className="flex items-center gap-2 px-5 py-3 border border-slate-200 text-slate-600 rounded-2xl font-bold hover:bg-slate-50">{linkCopied ? <CheckCircle size={18} /> : <Link2 size={18} />} {linkCopied ? 'Copied' : 'Copy Link'}</button>
+            <button onClick={() => window.print()} className="flex items-center gap-2 px-5 py-3 border border-slate-200 text-slate-600 rounded-2xl font-bold hover:bg-slate-50"><Printer size={18} /> Print</button>
+            <button disabled={!code} onClick={() => generateMarksheetPdf({ student, exam, scheme, school, code, qrDataUrl })} className="flex items-center gap-2 px-5 py-3 bg-indigo-600 text-white rounded-2xl font-bold hover:bg-indigo-700 disabled:opacity-50"><Download size={18} /> Download PDF</button>
+          </div>
+        </div>
+        <div className="bg-white rounded-3xl shadow-2xl overflow-hidden border border-slate-100">
+          <div className={`${student.status === 'Fail' ? 'bg-red-600' : student.status === 'Compartment' ? 'bg-amber-600' : 'bg-indigo-700'} p-12 text-white flex flex-col md:flex-row justify-between items-center gap-8`}>
+            <div className="text-center md:text-left">
+              <h2 className="text-4xl font-black uppercase mb-2">{student.name}</h2>
+              <p className="text-xl opacity-80 font-medium">{exam.name} • Roll: {student.rollNo}</p>
+              <p className="mt-4 inline-block px-4 py-1.5 bg-white/20 border border-white/30 rounded-full text-sm font-black uppercase tracking-widest">Result: {student.status}</p>
+            </div>
+            <div className="bg-white/20 px-10 py-6 rounded-3xl text-center border border-white/30 backdrop-blur-sm">
+              <p className="text-xs uppercase font-black text-white/70 tracking-widest mb-1">Final Grade</p>
+              <p className="text-6xl font-black">{student.grade}</p>
+              <p className="text-sm font-bold text-white/80 mt-1">CGPA {student.gradePoint}</p>
+            </div>
+          </div>
+          <div className="p-12 grid grid-cols-1 md:grid-cols-2 gap-12">
+            <div className="space-y-4">
+              <h3 className="text-xl font-bold text-slate-800 flex items-center border-b pb-3"><ClipboardList className="mr-3 text-indigo-500" /> Subject Marks</h3>
+              {subjects.filter(sub => student.marks[sub.key] !== undefined).map(sub => {
+                const failed = student.failedSubjects.includes(sub.key);
+                const parts = hasComponents(sub) ? student.componentMarks?.[sub.key] : undefined;
+                const failedParts = failedComponents(sub, parts);
+                return (
+                  <div key={sub.key} className={`flex justify-between items-center p-4 rounded-2xl border ${failed ? 'bg-red-50 border-red-100' : 'bg-slate-50 border-slate-100'}`}>
+                    <div>
+                      <span className="font-semibold capitalize text-slate-700">{sub.name}</span>
+                      <p className="text-[10px] font-black uppercase tracking-widest text-slate-400">Pass {passMarkFor(sub, scheme)}{failed && <span className="text-red-500"> • {failedParts.length ? `Below pass mark in ${failedParts.map(c => COMPONENT_LABELS[c.kind].toLowerCase()).join(' and ')}` : 'Below pass mark'}</span>}</p>
+                      {parts && (
+                        <div className="flex flex-wrap gap-2 mt-2">
+                          {sub.components!.map(c => (
+                            <span key={c.kind} className={`px-2 py-0.5 rounded-lg text-xs font-bold border ${failedParts.includes(c) ? 'bg-red-100 border-red-200 text-red-600' : 'bg-white border-slate-200 text-slate-600'}`}>
+                              {COMPONENT_LABELS[c.kind]} {parts[c.kind] ?? 0}<span className="text-slate-400">/{c.maxMarks}</span> <span className="text-slate-400">• {c.weight}%</span>
+                            </span>
+                          ))}
+                        </div>
+                      )}
+                      {remarks?.subjects[sub.key] && <p className="text-sm text-slate-500 mt-1">{remarks.subjects[sub.key]}</p>}
+                    </div>
+                    <span className="font-black text-slate-900">
+                      {student.marks[sub.key]} <span className="text-xs text-slate-400">/ {sub.maxMarks}</span>
+                      <span className="ml-3 text-xs text-indigo-600">{calculateGrade(student.marks[sub.key] / sub.maxMarks * 100, scheme)}</span>
+                    </span>
+                  </div>
+                );
+              })}
+            </div>
+            <div className="space-y-6">
+              <h3 className="text-xl font-bold text-slate-800 flex items-center border-b pb-3"><FileText className="mr-3 text-indigo-500" /> Summary</h3>
+              <div className="p-8 bg-indigo-50/50 rounded-3xl border border-indigo-100">
+                <div className="grid grid-cols-2 gap-8 mb-8">
+                  <div><p className="text-xs font-black text-slate-400 uppercase tracking-widest">Total</p><p className="text-4xl font-black text-slate-800">{student.total}<span className="text-lg text-slate-400"> / {student.maxTotal}</span></p></div>
+                  <div className="text-right"><p className="text-xs font-black text-slate-400 uppercase tracking-widest">Percentage</p><p className="text-4xl font-black text-indigo-600">{student.percentage}%</p></div>
+                </div>
+                <div className="w-full bg-slate-200 h-3 rounded-full overflow-hidden"><div className="h-full bg-indigo-600 transition-all duration-1000" style={{ width: `${student.percentage}%` }}></div></div>
+                {student.rank && (
+                  <div className="grid grid-cols-3 gap-4 mt-8 pt-6 border-t border-indigo-100">
+                    <div><p className="text-xs font-black text-slate-400 uppercase tracking-widest">Rank</p><p className="text-2xl font-black text-slate-800">{student.rank.exam}<span className="text-sm text-slate-400"> / {student.rank.examSize}</span></p></div>
+                    <div><p className="text-xs font-black text-slate-400 uppercase tracking-widest">Class Rank</p><p className="text-2xl font-black text-slate-800">{student.rank.class}<span className="text-sm text-slate-400"> / {student.rank.classSize}</span></p></div>
+                    <div className="text-right"><p className="text-xs font-black text-slate-400 uppercase tracking-widest">Percentile</p><p className="text-2xl font-black text-indigo-600">{student.rank.percentile}</p></div>
+                  </div>
+                )}
+              </div>
+            </div>
+          </div>
+          {remarks?.overall && (
+            <div className="px-12 pb-12">
+              <h3 className="text-xl font-bold text-slate-800 flex items-center border-b pb-3 mb-4"><MessageSquareText className="mr-3 text-indigo-500" /> Teacher's Remarks</h3>
+              <p className="text-slate-600 font-medium leading-relaxed">{remarks.overall}</p>
+            </div>
+          )}
+        </div>
+        {history.length > 1 && (
+          <div className="mt-8 bg-white rounded-3xl shadow-2xl border border-slate-100 p-12 space-y-10">
+            <h3 className="text-xl font-bold text-slate-800 flex items-center border-b pb-3"><TrendingUp className="mr-3 text-indigo-500" /> Progress Across {history.length} Exams</h3>
+            <div>
+              <p className="text-xs font-black text-slate-400 uppercase tracking-widest mb-3">Overall Percentage</p>
+              <ProgressChart labels={progress.labels} series={progress.overall} />
+            </div>
+            <div>
+              <p className="text-xs font-black text-slate-400 uppercase tracking-widest mb-3">Subject Percentages</p>
+              <ProgressChart labels={progress.labels} series={progress.subjects} />
+              <div className="flex flex-wrap gap-4 mt-4">
+                {progress.subjects.map(line => (
+                  <span key={line.name} className="flex items-center gap-2 text-sm font-bold text-slate-600">
+                    <span className="w-3 h-3 rounded-full" style={{ backgroundColor: line.color }} /> {line.name}
+                  </span>
+                ))}
+              </div>
+            </div>
+          </div>
+        )}
+        {(reevaluations.length > 0 || (onRequestReevaluation && deadline)) && (
+          <div className="mt-8 bg-white rounded-3xl shadow-2xl border border-slate-100 p-12 space-y-6">
+            <h3 className="text-xl font-bold text-slate-800 flex items-center border-b pb-3"><Scale className="mr-3 text-indigo-500" /> Re-evaluation</h3>
+            {[...reevaluations].sort((a, b) => b.submittedAt.localeCompare(a.submittedAt)).map(r => (
+              <div key={r.id} className="p-5 bg-slate-50 border border-slate-100 rounded-2xl space-y-2">
+                <div className="flex justify-between items-center gap-4">
+                  <p className="font-bold text-slate-700">{r.subjects.map(key => subjectName(exam, key)).join(', ')}</p>
+                  <span className={`px-3 py-1 rounded-full text-[10px] font-black uppercase tracking-widest border ${REEVALUATION_STATUS_CLASSES[r.status]}`}>{REEVALUATION_STATUS_LABELS[r.status]}</span>
+                </div>
+                <p className="text-xs text-slate-400">Filed {new Date(r.submittedAt).toLocaleDateString()}{r.resolvedAt && ` • Resolved ${new Date(r.resolvedAt).toLocaleDateString()}`}</p>
+                {r.status === 'approved' && r.subjects.map(key => (
+                  <p key={key} className="text-sm font-bold text-slate-600">{subjectName(exam, key)}: {r.previousMarks?.[key] ?? '—'} <ArrowRight size={12} className="inline text-slate-300" /> {r.revisedMarks?.[key] ?? '—'}</p>
+                ))}
+                {r.note && <p className="text-sm text-slate-600">{r.note}</p>}
+              </div>
+            ))}
+            {onRequestReevaluation && deadline && (reevaluationBlocked ? (
+              <p className="text-sm font-bold text-slate-400">{reevaluationBlocked}</p>
+            ) : (
+              <form onSubmit={submitReevaluation} className="space-y-4">
+                <p className="text-sm text-slate-500 font-medium">Think a paper was marked incorrectly? Choose the subjects to be re-checked. Requests close on {deadline.toLocaleDateString()}.</p>
+                <div className="flex flex-wrap gap-2">
+                  {subjects.filter(sub => student.marks[sub.key] !== undefined).map(sub => (
+                    <label key={sub.key} className={`flex items-center gap-2 px-4 py-2 border rounded-xl text-sm font-bold cursor-pointer ${reevaluationSubjects.includes(sub.key) ? 'border-indigo-200 bg-indigo-50 text-indigo-700' : 'border-slate-200 text-slate-600'}`}>
+                      <input
+                        type="checkbox" checked={reevaluationSubjects.includes(sub.key)}
+                        onChange={e => setReevaluationSubjects(e.target.checked ? [...reevaluationSubjects, sub.key] : reevaluationSubjects.filter(k => k !== sub.key))}
+                        className="accent-indigo-600"
+                      />
+                      {sub.name}
+                    </label>
+                  ))}
+                </div>
+                <textarea
+                  required rows={3} maxLength={1000} value={reevaluationReason}
+                  onChange={e => setReevaluationReason(e.target.value)}
+                  placeholder="Why should these papers be re-checked?"
+                  className="w-full px-4 py-3 bg-slate-50 border border-slate-100 rounded-2xl outline-none focus:ring-2 focus:ring-indigo-500 text-slate-900 font-medium"
+                />
+                {reevaluationError && (
+                  <div className="p-4 bg-red-50 text-red-600 rounded-2xl text-sm font-bold flex items-center gap-2"><AlertCircle size={18} /> {reevaluationError}</div>
+                )}
+                <button
+                  type="submit" disabled={submittingReevaluation || !reevaluationSubjects.length || !reevaluationReason.trim()}
+                  className="flex items-center gap-2 px-6 py-3 bg-indigo-600 text-white rounded-2xl font-bold hover:bg-indigo-700 disabled:opacity-50"
+                >
+                  {submittingReevaluation ? <Loader2 size={18} className="animate-spin" /> : <Send size={18} />} Request Re-evaluation
+                </button>
+              </form>
+            ))}
+          </div>
+        )}
+        {code && <p className="mt-6 text-center text-xs font-bold text-slate-400 uppercase tracking-widest">Verification Code <span className="font-mono text-slate-600">{code}</span></p>}
+      </div>
+    </div>
+  );
+};
+
+export const VerifyResult = ({ exams, lookup, initialExam = '', initialRollNo = '', initialCode = '' }: VerifyResultProps) => {
+  // QR codes printed before students linked to exams by id carry the exam name.
+  const [examId, setExamId] = useState(() => exams.find(e => e.id === initialExam || e.name === initialExam)?.id || '');
+  const [rollNo, setRollNo] = useState(initialRollNo);
+  const [code, setCode] = useState(initialCode);
+  const [outcome, setOutcome] = useState<{ valid: boolean; student?: Student; message?: string } | null>(null);
+
+  // The code is the lookup secret, so a record comes back only when it matches the stored marks.
+  const verify = async () => {
+    try {
+      const student = await lookup(examId, rollNo, { code });
+      setOutcome(student ? { valid: true, student } : { valid: false });
+    } catch (err) {
+      setOutcome({ valid: false, message: err instanceof LookupThrottledError ? err.message : undefined });
+    }
+  };
+
+  useEffect(() => { if (initialCode) verify(); }, []);
+
+  return (
+    <div className="min-h-[70vh] flex items-center justify-center p-4">
+      <div className="w-full max-w-md bg-white p-8 rounded-3xl shadow-xl border border-slate-100 space-y-5">
+        <div className="text-center">
+          <ShieldCheck className="mx-auto text-indigo-600 mb-3" size={48} />
+          <h2 className="text-3xl font-black text-slate-900">Verify Marksheet</h2>
+          <p className="text-slate-500 font-medium">Confirm a printed marksheet matches the official record.</p>
+        </div>
+        <select value={examId} onChange={e => setExamId(e.target.value)} className="w-full px-4 py-4 border border-slate-200 rounded-2xl focus:ring-2 focus:ring-indigo-500 outline-none text-slate-900 font-semibold bg-white">
+          <option value="">Select exam</option>
+          {exams.map(e => <option key={e.id} value={e.id}>{e.academicYear ? `${e.name} (${e.academicYear})` : e.name}</option>)}
+        </select>
+        <input value={rollNo} onChange={e => setRollNo(e.target.value)} placeholder="Roll Number" className="w-full px-4 py-4 border border-slate-200 rounded-2xl focus:ring-2 focus:ring-indigo-500 outline-none text-slate-900 font-semibold" />
+        <input value={code} onChange={e => setCode(e.target.value)} placeholder="Verification Code (XXXX-XXXX-XXXX)" className="w-full px-4 py-4 border border-slate-200 rounded-2xl focus:ring-2 focus:ring-indigo-500 outline-none text-slate-900 font-mono font-semibold uppercase" />
+        <button onClick={verify} disabled={!examId || !rollNo || !code} className="w-full bg-indigo-600 text-white py-4 rounded-2xl font-bold hover:bg-indigo-700 transition-all shadow-lg disabled:opacity-50 text-lg">Verify</button>
+        {outcome && (outcome.valid && outcome.student ? (
+          <div className="p-5 bg-green-50 border border-green-100 rounded-2xl text-green-700">
+            <p className="font-black flex items-center gap-2"><ShieldCheck size={20} /> Authentic marksheet</p>
+            <p className="text-sm mt-1">The marks match the stored record for {outcome.student.name}: {outcome.student.total} / {outcome.student.maxTotal} ({outcome.student.percentage}%), grade {outcome.student.grade}, {outcome.student.status}.</p>
+          </div>
+        ) : (
+          <div className="p-5 bg-red-50 border border-red-100 rounded-2xl text-red-600">
+            <p className="font-black flex items-center gap-2"><ShieldX size={20} /> Verification failed</p>
+            <p className="text-sm mt-1">{outcome.message || 'No published record matches this exam, roll number and code. The document may have been altered or the record updated since it was issued.'}</p>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
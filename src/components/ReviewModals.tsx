@@ -0,0 +1,428 @@
+import { useState, useMemo, useRef } from 'react';
+import {
+  X,
+  CheckCircle,
+  Loader2,
+  AlertCircle,
+  FolderInput,
+  ArrowRight,
+  Copy,
+  WifiOff,
+  MessageSquareText,
+  Sparkles,
+  Scale
+} from 'lucide-react';
+import {
+  ComponentMarks,
+  ConflictPicks,
+  Marks,
+  ReevaluationQueueModalProps,
+  RemarkSource,
+  RemarksReviewModalProps,
+  RollConflictDialogProps,
+  Student,
+  StudentRemarks,
+  TransferResultsDialogProps,
+} from '../types';
+import { extractionErrorMessage, getExtractionProvider } from '../ai';
+import { cleanRemarks, REMARK_SOURCE_LABELS, suggestRemarks, withRemarks } from '../remarks';
+import { COMPONENT_LABELS, defaultConflictPicks, hasComponents, mergeConflict } from '../utils';
+import { REEVALUATION_STATUS_CLASSES, REEVALUATION_STATUS_LABELS, subjectName } from './ResultPages';
+
+export const ReevaluationQueueModal = ({ requests, students, exams, onResolve, onClose }: ReevaluationQueueModalProps) => {
+  const [tab, setTab] = useState<'pending' | 'resolved'>('pending');
+  const [revised, setRevised] = useState<Record<string, Marks>>({});
+  const [revisedParts, setRevisedParts] = useState<Record<string, Record<string, ComponentMarks>>>({});
+  const [notes, setNotes] = useState<Record<string, string>>({});
+  const pending = requests.filter(r => r.status === 'pending').sort((a, b) => a.submittedAt.localeCompare(b.submittedAt));
+  const resolved = requests.filter(r => r.status !== 'pending').sort((a, b) => (b.resolvedAt || '').localeCompare(a.resolvedAt || ''));
+
+  return (
+    <div className="fixed inset-0 bg-slate-900/60 backdrop-blur-md flex items-center justify-center p-4 z-[90]">
+      <div className="bg-white rounded-[2.5rem] w-full max-w-3xl max-h-[90vh] overflow-y-auto shadow-2xl p-8 animate-in zoom-in-95">
+        <div className="flex justify-between items-center mb-6">
+          <h3 className="text-2xl font-black text-slate-900 flex items-center gap-3"><Scale className="text-indigo-600" /> Re-evaluation Requests</h3>
+          <button onClick={onClose} className="text-slate-300 hover:text-slate-600"><X size={32} /></button>
+        </div>
+        <div className="flex gap-2 mb-6">
+          {([['pending', `Pending (${pending.length})`], ['resolved', `Resolved (${resolved.length})`]] as const).map(([t, label]) => (
+            <button key={t} onClick={() => setTab(t)} className={`px-4 py-2 rounded-xl text-sm font-bold ${tab === t ? 'bg-slate-900 text-white' : 'text-slate-500 hover:bg-slate-100'}`}>{label}</button>
+          ))}
+        </div>
+        <div className="space-y-4">
+          {(tab === 'pending' ? pending : resolved).map(r => {
+            const student = students.find(s => s.id === r.studentId);
+            const exam = exams.find(e => e.id === r.examId);
+            const marksFor = (key: string) => revised[r.id]?.[key] ?? student?.marks[key] ?? 0;
+            // Subjects the result was marked in parts for are revised part by part.
+            const partsOf = (key: string) => {
+              const sub = exam?.subjects.find(sub => sub.key === key);
+              return sub && hasComponents(sub) && student?.componentMarks?.[key] ? sub.components! : undefined;
+            };
+            const partFor = (key: string, kind: string) => revisedParts[r.id]?.[key]?.[kind] ?? student?.componentMarks?.[key]?.[kind] ?? 0;
+            const invalid = r.subjects.some(key => {
+              const parts = partsOf(key);
+              if (parts) return parts.some(c => partFor(key, c.kind) < 0 || partFor(key, c.kind) > c.maxMarks);
+              const max = exam?.subjects.find(sub => sub.key === key)?.maxMarks ?? Infinity;
+              return marksFor(key) < 0 || marksFor(key) > max;
+            });
+            const note = notes[r.id] || '';
+            const approve = () => onResolve(r.id, 'approved', note, {
+              marks: Object.fromEntries(r.subjects.filter(key => !partsOf(key)).map(key => [key, marksFor(key)])),
+              componentMarks: Object.fromEntries(r.subjects.flatMap(key => {
+                const parts = partsOf(key);
+                return parts ? [[key, Object.fromEntries(parts.map(c => [c.kind, partFor(key, c.kind)]))]] : [];
+              })),
+            });
+            return (
+              <div key={r.id} className="p-6 border border-slate-100 rounded-2xl space-y-4">
+                <div className="flex justify-between items-start gap-4">
+                  <div>
+                    <p className="font-bold text-slate-900">{r.studentName} <span className="text-sm text-slate-400 font-medium">Roll {r.rollNo}</span></p>
+                    <p className="text-xs text-slate-400">{exam?.name || 'Deleted exam'} • Filed {new Date(r.submittedAt).toLocaleString()}</p>
+                  </div>
+                  <span className={`px-3 py-1 rounded-full text-[10px] font-black uppercase tracking-widest border ${REEVALUATION_STATUS_CLASSES[r.status]}`}>{REEVALUATION_STATUS_LABELS[r.status]}</span>
+                </div>
+                <p className="p-4 bg-slate-50 rounded-xl text-sm text-slate-600 whitespace-pre-wrap">{r.reason}</p>
+                {r.status === 'pending' ? (
+                  student ? (
+                    <>
+                      <table className="w-full text-sm">
+                        <thead className="text-xs text-slate-400 uppercase font-black tracking-widest">
+                          <tr><th className="text-left py-2">Subject</th><th className="text-left py-2">Current</th><th className="text-left py-2">Revised</th></tr>
+                        </thead>
+                        <tbody>
+                          {r.subjects.map(key => (
+                            <tr key={key} className="border-t border-slate-50">
+                              <td className="py-2 font-bold text-slate-700">{subjectName(exam, key)} <span className="text-slate-300">/ {exam?.subjects.find(sub => sub.key === key)?.maxMarks}</span></td>
+                              <td className="py-2 font-black text-slate-500">{student.marks[key] ?? '—'}</td>
+                              <td className="py-2">
+                                {partsOf(key) ? (
+                                  <div className="flex flex-wrap gap-3">
+                                    {partsOf(key)!.map(c => (
+                                      <label key={c.kind} className="flex items-center gap-2 text-xs font-bold text-slate-400">
+                                        {COMPONENT_LABELS[c.kind]}
+                                        <input
+                                          type="number" min="0" max={c.maxMarks} value={partFor(key, c.kind)}
+                                          onChange={e => setRevisedParts({ ...revisedParts, [r.id]: { ...revisedParts[r.id], [key]: { ...revisedParts[r.id]?.[key], [c.kind]: parseInt(e.target.value) || 0 } } })}
+                                          className="w-16 px-2 py-2 bg-slate-50 border border-slate-100 rounded-xl outline-none focus:ring-2 focus:ring-indigo-500 text-slate-900 font-black text-center"
+                                        />
+                                        / {c.maxMarks}
+                                      </label>
+                                    ))}
+                                  </div>
+                                ) : (
+                                  <input
+                                    type="number" min="0" value={marksFor(key)}
+                                    onChange={e => setRevised({ ...revised, [r.id]: { ...revised[r.id], [key]: parseInt(e.target.value) || 0 } })}
+                                    className="w-24 px-3 py-2 bg-slate-50 border border-slate-100 rounded-xl outline-none focus:ring-2 focus:ring-indigo-500 text-slate-900 font-black text-center"
+                                  />
+                                )}
+                              </td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                      <textarea
+                        rows={2} value={note} placeholder="Note for the student (required to reject)"
+                        onChange={e => setNotes({ ...notes, [r.id]: e.target.value })}
+                        className="w-full px-4 py-3 bg-slate-50 border border-slate-100 rounded-xl outline-none focus:ring-2 focus:ring-indigo-500 text-slate-900 text-sm font-medium"
+                      />
+                      <div className="flex gap-3">
+                        <button disabled={!note.trim()} onClick={() => onResolve(r.id, 'rejected', note)} className="flex-1 py-3 border border-red-100 text-red-600 rounded-xl font-bold hover:bg-red-50 disabled:opacity-40">Reject</button>
+                        <button
+                          disabled={invalid}
+                          onClick={approve}
+                          className="flex-1 flex items-center justify-center gap-2 py-3 bg-green-600 text-white rounded-xl font-bold hover:bg-green-700 disabled:opacity-40"
+                        >
+                          <CheckCircle size={16} /> Approve &amp; Update Marks
+                        </button>
+                      </div>
+                    </>
+                  ) : (
+                    <div className="space-y-3">
+                      <p className="text-sm font-bold text-red-600 flex items-center gap-2"><AlertCircle size={16} /> This result has been deleted. Restore it from the trash to approve, or reject the request.</p>
+                      <textarea
+                        rows={2} value={note} placeholder="Note for the student"
+                        onChange={e => setNotes({ ...notes, [r.id]: e.target.value })}
+                        className="w-full px-4 py-3 bg-slate-50 border border-slate-100 rounded-xl outline-none focus:ring-2 focus:ring-indigo-500 text-slate-900 text-sm font-medium"
+                      />
+                      <button disabled={!note.trim()} onClick={() => onResolve(r.id, 'rejected', note)} className="w-full py-3 border border-red-100 text-red-600 rounded-xl font-bold hover:bg-red-50 disabled:opacity-40">Reject</button>
+                    </div>
+                  )
+                ) : (
+                  <div className="text-sm space-y-1">
+                    {r.status === 'approved' && r.subjects.map(key => (
+                      <p key={key} className="font-bold text-slate-600">{subjectName(exam, key)}: {r.previousMarks?.[key] ?? '—'} <ArrowRight size={12} className="inline text-slate-300" /> {r.revisedMarks?.[key] ?? '—'}</p>
+                    ))}
+                    {r.note && <p className="text-slate-600">Note: {r.note}</p>}
+                    <p className="text-xs text-slate-400">{r.resolvedBy} • {r.resolvedAt && new Date(r.resolvedAt).toLocaleString()}</p>
+                  </div>
+                )}
+              </div>
+            );
+          })}
+          {(tab === 'pending' ? pending : resolved).length === 0 && (
+            <p className="py-12 text-center text-slate-300 font-bold">{tab === 'pending' ? 'No requests are waiting.' : 'No requests have been resolved yet.'}</p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+type RemarksView = 'all' | 'missing' | 'draft' | 'approved';
+
+export const RemarksReviewModal = ({ exam, scheme, students, onSave, onClose }: RemarksReviewModalProps) => {
+  const [generator, setGenerator] = useState<RemarkSource>(() => navigator.onLine ? 'ai' : 'template');
+  const [replaceDrafts, setReplaceDrafts] = useState(false);
+  const [view, setView] = useState<RemarksView>('all');
+  const [edits, setEdits] = useState<Record<string, StudentRemarks>>({});
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const stopRef = useRef(false);
+  const providerLabel = useMemo(() => { try { return getExtractionProvider().label; } catch { return ''; } }, []);
+
+  const remarksOf = (s: Student) => edits[s.id] || s.remarks;
+  const viewOf = (s: Student): RemarksView => remarksOf(s)?.status === 'approved' ? 'approved' : remarksOf(s) ? 'draft' : 'missing';
+  const counts = Object.fromEntries((['missing', 'draft', 'approved'] as const).map(v => [v, students.filter(s => viewOf(s) === v).length]));
+  const shown = students.filter(s => view === 'all' || viewOf(s) === view);
+  const targets = students.filter(s => !s.remarks || (replaceDrafts && s.remarks.status === 'draft'));
+  const drafts = shown.filter(s => viewOf(s) === 'draft');
+  const busy = progress !== null;
+
+  const clearEdits = (ids: string[]) => setEdits(current => Object.fromEntries(Object.entries(current).filter(([id]) => !ids.includes(id))));
+
+  const edit = (s: Student, patch: Partial<StudentRemarks>) =>
+    setEdits({ ...edits, [s.id]: { overall: '', subjects: {}, status: 'draft', source: 'manual', ...remarksOf(s), ...patch } });
+
+  const save = (records: Student[]) => {
+    onSave(records, 'manual');
+    clearEdits(records.map(r => r.id));
+  };
+
+  const approve = (list: Student[]) =>
+    save(list.map(s => withRemarks(s, cleanRemarks({ ...remarksOf(s)!, status: 'approved' }))));
+
+  // Drafts are saved as a batch once the run ends, so stopping keeps everything written so far.
+  const generate = async () => {
+    stopRef.current = false;
+    setError(null);
+    setNotice(null);
+    setProgress({ done: 0, total: targets.length });
+    const drafted: Student[] = [];
+    let fromTemplates = 0;
+    for (const student of targets) {
+      if (stopRef.current) break;
+      try {
+        const remarks = await suggestRemarks({ student, subjects: exam.subjects, scheme }, generator);
+        if (remarks.source !== generator) fromTemplates++;
+        drafted.push({ ...student, remarks });
+      } catch (err) {
+        setError(extractionErrorMessage(err, 'Remarks could not be suggested.'));
+        break;
+      }
+      setProgress({ done: drafted.length, total: targets.length });
+    }
+    if (drafted.length) {
+      onSave(drafted, 'suggestion');
+      clearEdits(drafted.map(d => d.id));
+    }
+    if (fromTemplates) setNotice(`No connection: ${fromTemplates} draft(s) were written from templates instead.`);
+    setProgress(null);
+  };
+
+  const close = () => { stopRef.current = true; onClose(); };
+
+  return (
+    <div className="fixed inset-0 bg-slate-900/60 backdrop-blur-md flex items-center justify-center p-4 z-[90]">
+      <div className="bg-white rounded-[2.5rem] w-full max-w-4xl max-h-[90vh] overflow-y-auto shadow-2xl p-8 animate-in zoom-in-95">
+        <div className="flex justify-between items-center mb-2">
+          <h3 className="text-2xl font-black text-slate-900 flex items-center gap-3"><MessageSquareText className="text-indigo-600" /> Remarks • {exam.name}</h3>
+          <button onClick={close} className="text-slate-300 hover:text-slate-600"><X size={32} /></button>
+        </div>
+        <p className="text-sm text-slate-500 font-medium mb-6">Suggestions are saved as drafts. Only approved remarks appear on published marksheets.</p>
+
+        <div className="p-5 bg-slate-50 border border-slate-100 rounded-2xl flex flex-wrap items-end gap-4 mb-6">
+          <div>
+            <label className="text-xs font-black text-slate-400 uppercase tracking-widest mb-2 block">Suggest With</label>
+            <select value={generator} disabled={busy} onChange={e => setGenerator(e.target.value as RemarkSource)} className="px-4 py-3 bg-white border border-slate-200 rounded-xl outline-none focus:ring-2 focus:ring-indigo-500 text-slate-900 font-bold">
+              <option value="ai">AI{providerLabel && ` (${providerLabel})`}</option>
+              <option value="template">Templates (works offline)</option>
+            </select>
+          </div>
+          <label className="flex items-center gap-2 py-3 text-sm font-bold text-slate-600">
+            <input type="checkbox" checked={replaceDrafts} disabled={busy} onChange={e => setReplaceDrafts(e.target.checked)} className="w-4 h-4 accent-indigo-600" /> Replace existing drafts
+          </label>
+          <div className="ml-auto flex gap-2">
+            {busy ? (
+              <button onClick={() => { stopRef.current = true; }} className="flex items-center gap-2 px-6 py-3 bg-slate-900 text-white rounded-xl font-bold">
+                <Loader2 size={18} className="animate-spin" /> {progress.done} / {progress.total} • Stop
+              </button>
+            ) : (
+              <button disabled={!targets.length} onClick={generate} className="flex items-center gap-2 px-6 py-3 bg-indigo-600 text-white rounded-xl font-bold hover:bg-indigo-700 disabled:opacity-50">
+                <Sparkles size={18} /> Suggest for {targets.length}
+              </button>
+            )}
+          </div>
+        </div>
+        {error && <div className="mb-4 p-4 bg-red-50 text-red-600 rounded-2xl text-sm font-bold flex items-center gap-2 border border-red-100"><AlertCircle size={18} /> {error}</div>}
+        {notice && <div className="mb-4 p-4 bg-amber-50 text-amber-700 rounded-2xl text-sm font-bold flex items-center gap-2 border border-amber-100"><WifiOff size={18} /> {notice}</div>}
+
+        <div className="flex flex-wrap justify-between items-center gap-3 mb-4">
+          <div className="flex gap-2">
+            {([['all', `All (${students.length})`], ['missing', `No remarks (${counts.missing})`], ['draft', `Drafts (${counts.draft})`], ['approved', `Approved (${counts.approved})`]] as const).map(([v, label]) => (
+              <button key={v} onClick={() => setView(v)} className={`px-4 py-2 rounded-xl text-sm font-bold ${view === v ? 'bg-slate-900 text-white' : 'text-slate-500 hover:bg-slate-100'}`}>{label}</button>
+            ))}
+          </div>
+          {drafts.length > 0 && (
+            <button disabled={busy} onClick={() => approve(drafts)} className="flex items-center gap-2 px-4 py-2 bg-green-600 text-white rounded-xl font-bold hover:bg-green-700 disabled:opacity-50">
+              <CheckCircle size={16} /> Approve {drafts.length} {drafts.length === 1 ? 'draft' : 'drafts'}
+            </button>
+          )}
+        </div>
+
+        <div className="space-y-3">
+          {shown.map(s => {
+            const remarks = remarksOf(s);
+            const edited = !!edits[s.id];
+            const taken = exam.subjects.filter(sub => s.marks[sub.key] !== undefined);
+            return (
+              <div key={s.id} className="p-5 border border-slate-100 rounded-2xl space-y-3">
+                <div className="flex justify-between items-start gap-4">
+                  <div>
+                    <p className="font-bold text-slate-900">{s.name}</p>
+                    <p className="text-xs text-slate-400">Roll {s.rollNo} • {s.percentage}% • Grade {s.grade} • {s.status}</p>
+                  </div>
+                  <span className={`px-3 py-1 rounded-full text-[10px] font-black uppercase tracking-widest ${
+                    !remarks ? 'bg-slate-100 text-slate-500' : remarks.status === 'approved' ? 'bg-green-50 text-green-700' : 'bg-amber-50 text-amber-700'
+                  }`}>
+                    {!remarks ? 'No remarks' : remarks.status === 'approved' ? 'Approved' : `Draft • ${REMARK_SOURCE_LABELS[remarks.source]}`}{edited && ' • Edited'}
+                  </span>
+                </div>
+                <textarea
+                  rows={2} value={remarks?.overall || ''} disabled={busy} placeholder="Overall remark"
+                  onChange={e => edit(s, { overall: e.target.value })}
+                  className="w-full px-4 py-3 bg-slate-50 border border-slate-100 rounded-xl outline-none focus:ring-2 focus:ring-indigo-500 text-slate-900 text-sm font-medium"
+                />
+                {expandedId === s.id && (
+                  <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                    {taken.map(sub => (
+                      <div key={sub.key}>
+                        <label className="text-[10px] font-black uppercase text-slate-500 mb-1 px-1 block">{sub.name} <span className="text-slate-300">{s.marks[sub.key]} / {sub.maxMarks}</span></label>
+                        <input
+                          value={remarks?.subjects[sub.key] || ''} disabled={busy}
+                          onChange={e => edit(s, { subjects: { ...remarks?.subjects, [sub.key]: e.target.value } })}
+                          className="w-full px-4 py-2 bg-slate-50 border border-slate-100 rounded-xl outline-none focus:ring-2 focus:ring-indigo-500 text-slate-900 text-sm font-medium"
+                        />
+                      </div>
+                    ))}
+                  </div>
+                )}
+                <div className="flex flex-wrap items-center gap-2">
+                  <button onClick={() => setExpandedId(expandedId === s.id ? null : s.id)} className="mr-auto text-sm font-bold text-indigo-600 hover:underline">
+                    {expandedId === s.id ? 'Hide subject remarks' : `Subject remarks (${Object.keys(remarks?.subjects || {}).length}/${taken.length})`}
+                  </button>
+                  {edited && (
+                    <>
+                      <button disabled={busy} onClick={() => clearEdits([s.id])} className="px-4 py-2 text-slate-400 font-bold text-sm hover:text-slate-600">Undo</button>
+                      <button disabled={busy} onClick={() => save([withRemarks(s, cleanRemarks(remarks))])} className="px-4 py-2 border border-slate-200 text-slate-600 rounded-xl font-bold text-sm hover:bg-slate-50">Save</button>
+                    </>
+                  )}
+                  {remarks && (remarks.status === 'draft' || edited) && (
+                    <button disabled={busy} onClick={() => approve([s])} className="flex items-center gap-1 px-4 py-2 bg-green-600 text-white rounded-xl font-bold text-sm hover:bg-green-700"><CheckCircle size={14} /> Approve</button>
+                  )}
+                  {s.remarks && !edited && (
+                    <button disabled={busy} onClick={() => { if (confirm(`Remove the remarks for ${s.name}?`)) save([withRemarks(s)]); }} className="px-4 py-2 border border-red-100 text-red-600 rounded-xl font-bold text-sm hover:bg-red-50">Remove</button>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+          {shown.length === 0 && <p className="py-12 text-center text-slate-300 font-bold">No records in this view.</p>}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export const TransferResultsDialog = ({ mode, count, exams, onConfirm, onClose }: TransferResultsDialogProps) => {
+  const [examId, setExamId] = useState(exams[0]?.id || '');
+  const verb = mode === 'move' ? 'Move' : 'Copy';
+  return (
+    <div className="fixed inset-0 bg-slate-900/60 backdrop-blur-md flex items-center justify-center p-4 z-[90]">
+      <div className="bg-white rounded-[2.5rem] w-full max-w-md shadow-2xl p-8 animate-in zoom-in-95">
+        <div className="flex justify-between items-center mb-6">
+          <h3 className="text-2xl font-black text-slate-900 flex items-center gap-3">
+            {mode === 'move' ? <FolderInput className="text-indigo-600" /> : <Copy className="text-indigo-600" />} {verb} {count} {count === 1 ? 'Record' : 'Records'}
+          </h3>
+          <button onClick={onClose} className="text-slate-300 hover:text-slate-600"><X size={32} /></button>
+        </div>
+        <label className="text-xs font-black text-slate-400 uppercase tracking-widest mb-2 block">Destination Exam</label>
+        <select value={examId} onChange={e => setExamId(e.target.value)} className="w-full px-6 py-4 bg-slate-50 border border-slate-100 rounded-2xl outline-none focus:ring-2 focus:ring-indigo-500 text-slate-900 font-bold">
+          {exams.map(e => <option key={e.id} value={e.id}>{e.name}</option>)}
+        </select>
+        <p className="mt-3 text-xs text-slate-400">Marks are re-graded with the destination's subjects and grading scheme. Subjects it does not have are dropped.</p>
+        <div className="flex gap-4 mt-8">
+          <button onClick={onClose} className="flex-1 py-4 border border-slate-200 text-slate-600 rounded-2xl font-bold hover:bg-slate-50">Cancel</button>
+          <button disabled={!examId} onClick={() => onConfirm(examId)} className="flex-1 py-4 bg-indigo-600 text-white rounded-2xl font-black hover:bg-indigo-700 disabled:opacity-50">{verb}</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export const RollConflictDialog = ({ conflict, subjects, queued, onResolve }: RollConflictDialogProps) => {
+  const { existing, incoming } = conflict;
+  const fields = [
+    { key: 'name', label: 'Name', get: (s: Student) => s.name },
+    { key: 'className', label: 'Class', get: (s: Student) => s.className },
+    ...subjects.map(sub => ({ key: sub.key, label: `${sub.name} / ${sub.maxMarks}`, get: (s: Student) => s.marks[sub.key] })),
+  ];
+  const [picks, setPicks] = useState<ConflictPicks>(() => defaultConflictPicks(conflict, subjects));
+
+  const cellClass = (key: string, side: 'existing' | 'incoming') =>
+    `px-4 py-3 cursor-pointer font-bold ${picks[key] === side ? 'bg-indigo-50 text-indigo-700' : 'text-slate-500 hover:bg-slate-50'}`;
+
+  return (
+    <div className="fixed inset-0 bg-slate-900/60 backdrop-blur-md flex items-center justify-center p-4 z-[110]">
+      <div className="bg-white rounded-[2.5rem] w-full max-w-2xl max-h-[90vh] overflow-y-auto shadow-2xl p-8 animate-in zoom-in-95">
+        <h3 className="text-2xl font-black text-slate-900 flex items-center gap-3"><AlertCircle className="text-amber-500" /> Roll No {incoming.rollNo} Already Exists</h3>
+        <p className="text-slate-500 font-medium mt-2 mb-6">
+          Roll numbers must be unique within an exam. Keep the existing record, overwrite it, or merge by picking a value from each row.
+          {queued > 0 && <span className="font-bold"> {queued} more conflict{queued === 1 ? '' : 's'} after this one.</span>}
+        </p>
+        <table className="w-full text-left text-sm border border-slate-100 rounded-2xl overflow-hidden">
+          <thead className="bg-slate-50 text-slate-400 text-[10px] uppercase font-black tracking-widest">
+            <tr><th className="px-4 py-3">Field</th><th className="px-4 py-3">Existing</th><th className="px-4 py-3">Incoming</th></tr>
+          </thead>
+          <tbody className="divide-y divide-slate-50">
+            {fields.map(f => (
+              <tr key={f.key}>
+                <td className="px-4 py-3 text-slate-400 font-bold capitalize">{f.label}</td>
+                {(['existing', 'incoming'] as const).map(side => (
+                  <td key={side} onClick={() => setPicks({ ...picks, [f.key]: side })} className={cellClass(f.key, side)}>
+                    {f.get(conflict[side]) ?? '—'}
+                  </td>
+                ))}
+              </tr>
+            ))}
+            <tr className="bg-slate-50">
+              <td className="px-4 py-3 text-slate-400 font-bold">Result</td>
+              {(['existing', 'incoming'] as const).map(side => (
+                <td key={side} className="px-4 py-3 font-black text-slate-700">{conflict[side].total}/{conflict[side].maxTotal} ({conflict[side].percentage}%) • {conflict[side].grade}</td>
+              ))}
+            </tr>
+          </tbody>
+        </table>
+        <div className="flex gap-3 mt-8">
+          <button onClick={() => onResolve('keep', existing)} className="flex-1 py-4 border border-slate-200 rounded-2xl font-bold text-slate-600 hover:bg-slate-50">Keep Existing</button>
+          <button onClick={() => onResolve('overwrite', { ...incoming, id: existing.id })} className="flex-1 py-4 border border-red-100 bg-red-50 rounded-2xl font-bold text-red-600 hover:bg-red-100">Overwrite</button>
+          <button onClick={() => onResolve('merge', mergeConflict(conflict, subjects, picks))} className="flex-1 py-4 bg-indigo-600 text-white rounded-2xl font-black shadow-lg hover:bg-indigo-700">Merge Selected</button>
+        </div>
+      </div>
+    </div>
+  );
+};
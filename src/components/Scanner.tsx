@@ -0,0 +1,495 @@
+import { useState, useEffect, useMemo, useRef } from 'react';
+import { ChevronLeft, X, Camera, RotateCcw, CheckCircle, Loader2, Scan, AlertCircle, Upload, WifiOff } from 'lucide-react';
+import {
+  AICameraScannerProps,
+  PendingScansReviewProps,
+  ScanPage,
+  ScanQueueItem,
+  ScanReviewEditorProps,
+  ScanStatus,
+  Student,
+} from '../types';
+import {
+  extractionErrorMessage,
+  extractStudentDetailsFromImage,
+  getExtractionProvider,
+  isConnectivityError,
+  toReviewFields,
+} from '../ai';
+import { COMPONENT_LABELS, componentField, hasComponents, withComponentMark } from '../utils';
+import { detectScanAnomalies, LOW_CONFIDENCE, readScanFiles } from '../scanSources';
+
+const MAX_CONCURRENT_SCANS = 2;
+
+const ScanReviewEditor = ({ item, subjects, existingRollNos, fixedExamName, acceptLabel = 'Accept', discardLabel = 'Discard', onAccept, onDiscard, onRetry }: ScanReviewEditorProps) => {
+  const [draft, setDraft] = useState<Partial<Student>>(item.data || {});
+  const [confirmed, setConfirmed] = useState(false);
+  useEffect(() => { setDraft(item.data || {}); setConfirmed(false); }, [item.id, item.data]);
+
+  const anomalies = useMemo(
+    () => detectScanAnomalies(draft, item.confidence || {}, subjects, existingRollNos, fixedExamName, item.sheetExamName),
+    [draft, item.confidence, item.sheetExamName, subjects, existingRollNos, fixedExamName]
+  );
+  const needsConfirmation = anomalies.some(a => a.severity === 'confirm');
+  const blocked = anomalies.some(a => a.severity === 'error') || (needsConfirmation && !confirmed);
+
+  const inputClass = "w-full px-3 py-2 bg-slate-900 border border-slate-700 rounded-lg outline-none focus:ring-2 focus:ring-indigo-500 text-white font-bold text-sm";
+  const fieldClass = (field: string) => {
+    const found = anomalies.filter(a => a.field === field);
+    if (found.some(a => a.severity !== 'warning')) return `${inputClass} !border-red-500`;
+    if (found.length) return `${inputClass} !border-amber-400`;
+    return inputClass;
+  };
+  const confidenceTag = (field: string) => {
+    const c = item.confidence?.[field];
+    if (c === undefined) return null;
+    const tone = c >= 0.85 ? 'text-green-400' : c >= LOW_CONFIDENCE ? 'text-amber-400' : 'text-red-400';
+    return <span className={`ml-1 font-mono ${tone}`}>{Math.round(c * 100)}%</span>;
+  };
+  const labelClass = "flex justify-between text-[9px] font-black uppercase text-slate-400 mb-0.5";
+
+  if (item.status === 'failed') {
+    return (
+      <div className="space-y-3">
+        <p className="text-sm text-red-400 font-bold flex items-center gap-2"><AlertCircle size={16} /> {item.error}</p>
+        <div className="flex gap-2">
+          <button onClick={onRetry} className="flex-1 flex items-center justify-center gap-2 py-2 bg-indigo-600 text-white rounded-lg font-bold text-sm"><RotateCcw size={14} /> Retry</button>
+          <button onClick={onDiscard} className="flex-1 py-2 bg-slate-700 text-slate-300 rounded-lg font-bold text-sm">{discardLabel}</button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      {anomalies.length > 0 && (
+        <ul className="space-y-1">
+          {anomalies.map(a => (
+            <li key={`${a.field}-${a.message}`} className={`text-xs font-bold flex items-start gap-1.5 ${a.severity === 'warning' ? 'text-amber-400' : 'text-red-400'}`}>
+              <AlertCircle size={12} className="mt-0.5 shrink-0" /> {a.message}
+            </li>
+          ))}
+        </ul>
+      )}
+      <div>
+        <label className={labelClass}><span>Name</span>{confidenceTag('name')}</label>
+        <input value={draft.name || ''} onChange={e => setDraft({ ...draft, name: e.target.value })} className={fieldClass('name')} />
+      </div>
+      <div className="grid grid-cols-2 gap-2">
+        <div>
+          <label className={labelClass}><span>Roll No</span>{confidenceTag('rollNo')}</label>
+          <input value={draft.rollNo || ''} onChange={e => setDraft({ ...draft, rollNo: e.target.value })} className={fieldClass('rollNo')} />
+        </div>
+        <div>
+          <label className={labelClass}><span>Class</span>{confidenceTag('className')}</label>
+          <input value={draft.className || ''} onChange={e => setDraft({ ...draft, className: e.target.value })} className={fieldClass('className')} />
+        </div>
+      </div>
+      <div className="grid grid-cols-3 gap-2">
+        {subjects.filter(sub => !hasComponents(sub)).map(sub => (
+          <div key={sub.key}>
+            <label className={labelClass}><span className="truncate">{sub.name} /{sub.maxMarks}</span>{confidenceTag(sub.key)}</label>
+            <input
+              type="number" min="0" max={sub.maxMarks}
+              value={draft.marks?.[sub.key] ?? ''}
+              onChange={e => {
+                const { [sub.key]: _, ...rest } = draft.marks || {};
+                setDraft({ ...draft, marks: e.target.value === '' ? rest : { ...rest, [sub.key]: parseInt(e.target.value) || 0 } });
+              }}
+              className={`${fieldClass(sub.key)} text-center`}
+            />
+          </div>
+        ))}
+      </div>
+      {subjects.filter(hasComponents).map(sub => (
+        <div key={sub.key}>
+          <p className="text-[10px] font-black uppercase text-slate-300 mb-1">
+            {sub.name} /{sub.maxMarks}{draft.marks?.[sub.key] !== undefined && <span className="text-indigo-400"> • {draft.marks[sub.key]}</span>}
+          </p>
+          <div className="grid grid-cols-3 gap-2">
+            {sub.components!.map(c => (
+              <div key={c.kind}>
+                <label className={labelClass}><span className="truncate">{COMPONENT_LABELS[c.kind]} /{c.maxMarks}</span>{confidenceTag(componentField(sub.key, c.kind))}</label>
+                <input
+                  type="number" min="0" max={c.maxMarks}
+                  value={draft.componentMarks?.[sub.key]?.[c.kind] ?? ''}
+                  onChange={e => setDraft(withComponentMark(draft, sub, c.kind, parseInt(e.target.value) || 0))}
+                  className={`${fieldClass(componentField(sub.key, c.kind))} text-center`}
+                />
+              </div>
+            ))}
+          </div>
+        </div>
+      ))}
+      {needsConfirmation && (
+        <label className="flex items-start gap-2 text-xs font-bold text-slate-300 cursor-pointer">
+          <input type="checkbox" checked={confirmed} onChange={e => setConfirmed(e.target.checked)} className="mt-0.5" />
+          I checked the sheet: the missing marks are blank there and should be saved as 0.
+        </label>
+      )}
+      <div className="flex gap-2">
+        <button disabled={blocked} onClick={() => onAccept(draft)} className="flex-1 flex items-center justify-center gap-2 py-2 bg-green-600 text-white rounded-lg font-bold text-sm disabled:opacity-40"><CheckCircle size={14} /> {acceptLabel}</button>
+        <button onClick={onDiscard} className="flex-1 py-2 bg-slate-700 text-slate-300 rounded-lg font-bold text-sm">{discardLabel}</button>
+      </div>
+    </div>
+  );
+};
+
+export const AICameraScanner = ({ onScanComplete, onBatchComplete, onClose, fixedExamName, subjects, existingRollNos = [], onSaveOffline }: AICameraScannerProps) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const streamRef = useRef<MediaStream | null>(null);
+  const [isScanning, setIsScanning] = useState(false);
+  const [capturedImage, setCapturedImage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [savedOffline, setSavedOffline] = useState(0);
+  const [cameraActive, setCameraActive] = useState(false);
+  const [loadMessageIndex, setLoadMessageIndex] = useState(0);
+  const [batchMode, setBatchMode] = useState(false);
+  const [queue, setQueue] = useState<ScanQueueItem[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [flash, setFlash] = useState(false);
+  const [cameraUnavailable, setCameraUnavailable] = useState(false);
+  const [readingFiles, setReadingFiles] = useState(false);
+  const [review, setReview] = useState<ScanQueueItem | null>(null);
+  const providerLabel = useMemo(() => { try { return getExtractionProvider().label; } catch { return ''; } }, []);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const loadingMessages = [
+    "Initializing camera sensor...",
+    "Setting up scanning focus...",
+    "Optimizing for low light...",
+    "Establishing AI connection...",
+  ];
+
+  useEffect(() => {
+    startCamera();
+    const interval = setInterval(() => setLoadMessageIndex(i => (i + 1) % loadingMessages.length), 2000);
+    return () => { stopCamera(); clearInterval(interval); };
+  }, []);
+
+  // Background extraction: keep up to MAX_CONCURRENT_SCANS queued sheets in flight.
+  useEffect(() => {
+    const active = queue.filter(q => q.status === 'scanning').length;
+    queue.filter(q => q.status === 'queued').slice(0, Math.max(0, MAX_CONCURRENT_SCANS - active)).forEach(runQueuedScan);
+  }, [queue]);
+
+  const startCamera = async () => {
+    try {
+      const s = await navigator.mediaDevices.getUserMedia({ video: { facingMode: 'environment' } });
+      streamRef.current = s;
+      if (videoRef.current) {
+        videoRef.current.srcObject = s;
+        videoRef.current.onloadedmetadata = () => setCameraActive(true);
+      }
+    } catch (err) {
+      setCameraUnavailable(true);
+      setError("Camera access denied or unavailable. Upload scanned sheets instead.");
+    }
+  };
+
+  const stopCamera = () => {
+    streamRef.current?.getTracks().forEach(t => t.stop());
+    setCameraActive(false);
+  };
+
+  const updateItem = (id: string, patch: Partial<ScanQueueItem>) =>
+    setQueue(q => q.map(item => item.id === id ? { ...item, ...patch } : item));
+
+  // Hands a sheet to the offline queue, which reads it once the connection is back.
+  const saveOffline = (page: ScanPage) => {
+    onSaveOffline!(page);
+    setSavedOffline(n => n + 1);
+  };
+
+  const runQueuedScan = async (item: ScanQueueItem) => {
+    updateItem(item.id, { status: 'scanning', error: undefined });
+    try {
+      const extracted = await extractStudentDetailsFromImage(item.image.split(',')[1], subjects, item.mimeType);
+      updateItem(item.id, toReviewFields(extracted));
+    } catch (err) {
+      if (onSaveOffline && isConnectivityError(err)) {
+        saveOffline({ dataUrl: item.image, mimeType: item.mimeType, label: item.label || 'Camera' });
+        setQueue(q => q.filter(x => x.id !== item.id));
+        return;
+      }
+      updateItem(item.id, { status: 'failed', error: extractionErrorMessage(err, 'AI analysis failed. Retry or discard this sheet.') });
+    }
+  };
+
+  const captureFrame = (): string | null => {
+    if (!videoRef.current || !canvasRef.current) return null;
+    const canvas = canvasRef.current;
+    const video = videoRef.current;
+    canvas.width = video.videoWidth;
+    canvas.height = video.videoHeight;
+    canvas.getContext('2d')?.drawImage(video, 0, 0);
+    return canvas.toDataURL('image/jpeg', 0.85);
+  };
+
+  const captureToQueue = () => {
+    const image = captureFrame();
+    if (!image) return;
+    setQueue(q => [...q, { id: crypto.randomUUID(), image, mimeType: 'image/jpeg', status: 'queued' }]);
+    setFlash(true);
+    setTimeout(() => setFlash(false), 150);
+  };
+
+  const captureAndScan = () => {
+    const imageDataUrl = captureFrame();
+    if (imageDataUrl) scanPage({ dataUrl: imageDataUrl, mimeType: 'image/jpeg', label: 'Camera' });
+  };
+
+  const scanPage = async (page: ScanPage) => {
+    setError(null);
+    if (onSaveOffline && !navigator.onLine) { saveOffline(page); return; }
+    setCapturedImage(page.dataUrl);
+    setIsScanning(true);
+    
+    try {
+      const extracted = await extractStudentDetailsFromImage(page.dataUrl.split(',')[1], subjects, page.mimeType);
+      setReview({ id: crypto.randomUUID(), image: page.dataUrl, mimeType: page.mimeType, label: page.label, ...toReviewFields(extracted) });
+    } catch (err) {
+      if (onSaveOffline && isConnectivityError(err)) saveOffline(page);
+      else setError(extractionErrorMessage(err, "AI analysis failed. Please try a clearer photo."));
+      setCapturedImage(null);
+    } finally {
+      setIsScanning(false);
+    }
+  };
+
+  // Several pages go to the review queue; a single page in single mode behaves like a camera capture.
+  const handleFiles = async (files: File[]) => {
+    if (!files.length) return;
+    setError(null);
+    setReadingFiles(true);
+    try {
+      const pages = await readScanFiles(files);
+      if (!pages.length) throw new Error('No pages found in the selected files.');
+      if (!onBatchComplete || (!batchMode && pages.length === 1)) { await scanPage(pages[0]); return; }
+      setBatchMode(true);
+      setQueue(q => [...q, ...pages.map(p => ({ id: crypto.randomUUID(), image: p.dataUrl, mimeType: p.mimeType, label: p.label, status: 'queued' as ScanStatus }))]);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not read the selected files.');
+    } finally {
+      setReadingFiles(false);
+      if (fileInputRef.current) fileInputRef.current.value = '';
+    }
+  };
+
+  const accepted = queue.filter(q => q.status === 'accepted');
+  const selected = queue.find(q => q.id === selectedId);
+  const preview = batchMode ? selected?.image : capturedImage;
+  // Sheets already accepted in this batch count as taken roll numbers too.
+  const takenRollNos = (exceptId?: string) =>
+    [...existingRollNos, ...queue.filter(q => q.id !== exceptId && q.status === 'accepted').map(q => q.data?.rollNo || '')];
+
+  const rescan = () => { setReview(null); setCapturedImage(null); };
+
+  const saveAccepted = () => {
+    onBatchComplete?.(accepted.map(q => q.data || {}));
+    setQueue(q => q.filter(item => item.status !== 'accepted'));
+    setSelectedId(null);
+  };
+
+  const handleClose = () => {
+    const unsaved = queue.length;
+    if (unsaved && !confirm(`Discard ${unsaved} sheet(s) in the review queue?`)) return;
+    stopCamera();
+    onClose();
+  };
+
+  const statusStyle: Record<ScanStatus, string> = {
+    queued: 'bg-slate-600 text-slate-200',
+    scanning: 'bg-indigo-600 text-white',
+    ready: 'bg-amber-500 text-white',
+    failed: 'bg-red-600 text-white',
+    accepted: 'bg-green-600 text-white',
+  };
+
+  return (
+    <div className="fixed inset-0 bg-slate-900 z-[100] flex flex-col">
+      <div className="p-4 flex justify-between items-center bg-slate-800 border-b border-slate-700">
+        <h2 className="text-white font-bold flex items-center gap-2">
+          <Scan className="text-indigo-400" /> AI Scanner
+          <span className="text-xs font-medium text-slate-400">{providerLabel}</span>
+        </h2>
+        <div className="flex items-center gap-3">
+          <button onClick={() => fileInputRef.current?.click()} disabled={readingFiles || isScanning} className="flex items-center gap-2 px-4 py-2 bg-slate-700 text-white rounded-full text-sm font-bold hover:bg-slate-600 disabled:opacity-40">
+            {readingFiles ? <Loader2 size={16} className="animate-spin" /> : <Upload size={16} />} Upload
+          </button>
+          <input ref={fileInputRef} type="file" multiple accept="image/jpeg,image/png,image/webp,image/heic,image/heif,.heic,.heif,application/pdf" className="hidden" onChange={e => handleFiles(Array.from(e.target.files || []))} />
+          {onBatchComplete && (
+            <div className="flex bg-slate-900 rounded-full p-1 text-sm font-bold">
+              {[false, true].map(b => (
+                <button key={String(b)} disabled={!b && queue.length > 0} onClick={() => { setBatchMode(b); rescan(); }} className={`px-4 py-1.5 rounded-full disabled:opacity-40 ${batchMode === b ? 'bg-indigo-600 text-white' : 'text-slate-400'}`}>{b ? 'Batch' : 'Single'}</button>
+              ))}
+            </div>
+          )}
+          <button onClick={handleClose} className="p-2 bg-red-500 text-white rounded-full"><X /></button>
+        </div>
+      </div>
+      <div className="flex-1 flex flex-col md:flex-row min-h-0">
+        <div
+          className="flex-1 relative bg-black flex items-center justify-center"
+          onDragOver={e => e.preventDefault()}
+          onDrop={e => { e.preventDefault(); handleFiles(Array.from(e.dataTransfer.files)); }}
+        >
+          {error && <div className="absolute top-4 bg-red-600 text-white px-4 py-2 rounded-lg z-50">{error}</div>}
+          {!error && savedOffline > 0 && (
+            <div className="absolute top-4 bg-amber-500 text-white px-4 py-2 rounded-lg z-50 flex items-center gap-2 text-sm font-bold">
+              <WifiOff size={16} /> No connection: {savedOffline} sheet(s) saved and will be read when you are back online.
+            </div>
+          )}
+          {/* The video stays mounted so the stream survives while a captured sheet is previewed. */}
+          <video ref={videoRef} autoPlay playsInline muted className={cameraActive && !preview ? 'w-full h-full object-cover' : 'hidden'} />
+          {preview ? <img src={preview} alt="Captured sheet" className="max-h-full max-w-full object-contain" />
+            : cameraActive ? null
+            : cameraUnavailable ? (
+              <button onClick={() => fileInputRef.current?.click()} className="m-8 flex flex-col items-center gap-4 p-16 border-2 border-dashed border-slate-600 rounded-[2rem] text-slate-300 hover:border-indigo-400 hover:text-white transition-colors">
+                {readingFiles ? <Loader2 className="animate-spin" size={48} /> : <Upload size={48} />}
+                <p className="font-bold text-lg">Drop answer sheets here or click to upload</p>
+                <p className="text-sm text-slate-500">JPEG, PNG, HEIC or multi-page PDF</p>
+              </button>
+            )
+            : <div className="text-indigo-400 flex flex-col items-center gap-4"><Loader2 className="animate-spin" size={48} /><p>{loadingMessages[loadMessageIndex]}</p></div>}
+          {flash && <div className="absolute inset-0 bg-white/60 pointer-events-none" />}
+          {isScanning && <div className="absolute inset-0 bg-slate-900/80 flex flex-col items-center justify-center text-white z-50"><Loader2 className="animate-spin mb-4" size={64} /><p className="text-xl font-bold">AI Analyzing Content...</p></div>}
+          {batchMode && selected && <button onClick={() => setSelectedId(null)} className="absolute top-4 left-4 flex items-center gap-2 px-4 py-2 bg-slate-800/90 text-white rounded-full text-sm font-bold"><ChevronLeft size={16} /> Back to Camera</button>}
+          {!preview && cameraActive && <button onClick={batchMode ? captureToQueue : captureAndScan} className="absolute bottom-10 bg-indigo-600 p-6 rounded-full border-4 border-white shadow-2xl hover:scale-105 transition-transform"><Camera size={32} className="text-white" /></button>}
+          {batchMode && !preview && <div className="absolute bottom-12 right-6 bg-slate-800/90 text-white px-4 py-2 rounded-full text-sm font-bold">{queue.length} captured</div>}
+        </div>
+        {!batchMode && review && (
+          <div className="w-full md:w-96 bg-slate-800 border-l border-slate-700 flex flex-col max-h-[50vh] md:max-h-none">
+            <div className="p-4 border-b border-slate-700">
+              <p className="text-white font-bold">Verify Extraction</p>
+              <p className="text-xs text-slate-400">Compare with the sheet and correct anything the AI misread.</p>
+            </div>
+            <div className="flex-1 overflow-y-auto p-4">
+              <ScanReviewEditor
+                item={review} subjects={subjects} existingRollNos={existingRollNos} fixedExamName={fixedExamName}
+                acceptLabel="Use Details" discardLabel="Rescan"
+                onAccept={data => onScanComplete(data)}
+                onDiscard={rescan}
+                onRetry={rescan}
+              />
+            </div>
+          </div>
+        )}
+        {batchMode && (
+          <div className="w-full md:w-96 bg-slate-800 border-l border-slate-700 flex flex-col max-h-[50vh] md:max-h-none">
+            <div className="p-4 border-b border-slate-700">
+              <p className="text-white font-bold">Review Queue</p>
+              <p className="text-xs text-slate-400">{queue.filter(q => q.status === 'queued' || q.status === 'scanning').length} processing • {queue.filter(q => q.status === 'ready').length} to review • {accepted.length} accepted</p>
+            </div>
+            <div className="flex-1 overflow-y-auto p-3 space-y-2">
+              {queue.map((item, i) => (
+                <div key={item.id} className={`rounded-xl border ${selectedId === item.id ? 'border-indigo-500 bg-slate-700' : 'border-slate-700 bg-slate-900/50'}`}>
+                  <button onClick={() => setSelectedId(selectedId === item.id ? null : item.id)} className="w-full flex items-center gap-3 p-2 text-left">
+                    <img src={item.image} alt="" className="h-12 w-12 object-cover rounded-lg bg-slate-700" />
+                    <div className="flex-1 min-w-0">
+                      <p className="text-white text-sm font-bold truncate">{item.data?.name || item.label || `Sheet ${i + 1}`}</p>
+                      <p className="text-xs text-slate-400 truncate">{item.data?.rollNo ? `Roll: ${item.data.rollNo}` : '—'}</p>
+                    </div>
+                    <span className={`px-2 py-0.5 rounded-full text-[10px] font-black uppercase ${statusStyle[item.status]}`}>
+                      {item.status === 'scanning' ? <Loader2 size={12} className="animate-spin" /> : item.status}
+                    </span>
+                  </button>
+                  {selected?.id === item.id && (item.status === 'ready' || item.status === 'failed' || item.status === 'accepted') && (
+                    <div className="p-3 border-t border-slate-600">
+                      <ScanReviewEditor
+                        item={item} subjects={subjects} existingRollNos={takenRollNos(item.id)} fixedExamName={fixedExamName}
+                        onAccept={data => { updateItem(item.id, { status: 'accepted', data }); setSelectedId(null); }}
+                        onDiscard={() => { setQueue(q => q.filter(x => x.id !== item.id)); setSelectedId(null); }}
+                        onRetry={() => updateItem(item.id, { status: 'queued' })}
+                      />
+                    </div>
+                  )}
+                </div>
+              ))}
+              {queue.length === 0 && <p className="text-center text-slate-500 text-sm py-12">Captured sheets appear here while the AI reads them.</p>}
+            </div>
+            <div className="p-4 border-t border-slate-700">
+              <button disabled={!accepted.length} onClick={saveAccepted} className="w-full py-3 bg-indigo-600 text-white rounded-xl font-black disabled:opacity-40">Save {accepted.length} to Exam</button>
+            </div>
+          </div>
+        )}
+      </div>
+      <canvas ref={canvasRef} className="hidden" />
+    </div>
+  );
+};
+
+const PENDING_SCAN_LABELS: Record<ScanStatus, string> = {
+  queued: 'Waiting',
+  scanning: 'Reading',
+  ready: 'Review',
+  failed: 'Failed',
+  accepted: 'Saved',
+};
+
+export const PendingScansReview = ({ scans, subjects, existingRollNos, fixedExamName, online, onAccept, onDiscard, onRetry, onClose }: PendingScansReviewProps) => {
+  const [selectedId, setSelectedId] = useState<string | null>(() => scans.find(s => s.status === 'ready')?.id || null);
+  const selected = scans.find(s => s.id === selectedId);
+  const waiting = scans.filter(s => s.status === 'queued' || s.status === 'failed');
+
+  return (
+    <div className="fixed inset-0 bg-slate-900 z-[100] flex flex-col">
+      <div className="p-4 flex justify-between items-center bg-slate-800 border-b border-slate-700">
+        <h2 className="text-white font-bold flex items-center gap-2">
+          <WifiOff className="text-amber-400" /> Offline Scans
+          <span className="text-xs font-medium text-slate-400">{online ? 'Connected' : 'Waiting for a connection'}</span>
+        </h2>
+        <div className="flex items-center gap-3">
+          {waiting.length > 0 && (
+            <button onClick={() => onRetry(waiting.map(s => s.id))} className="flex items-center gap-2 px-4 py-2 bg-slate-700 text-white rounded-full text-sm font-bold hover:bg-slate-600">
+              <RotateCcw size={16} /> Retry {waiting.length}
+            </button>
+          )}
+          <button onClick={onClose} className="p-2 bg-red-500 text-white rounded-full"><X /></button>
+        </div>
+      </div>
+      <div className="flex-1 flex flex-col md:flex-row min-h-0">
+        <div className="flex-1 relative bg-black flex items-center justify-center">
+          {selected
+            ? <img src={selected.image} alt="Captured sheet" className="max-h-full max-w-full object-contain" />
+            : <p className="text-slate-500 font-bold">Select a sheet to review it.</p>}
+        </div>
+        <div className="w-full md:w-96 bg-slate-800 border-l border-slate-700 flex flex-col max-h-[50vh] md:max-h-none">
+          <div className="p-4 border-b border-slate-700">
+            <p className="text-white font-bold">Saved Sheets</p>
+            <p className="text-xs text-slate-400">Sheets are read automatically once the connection returns. Review each one before it is added.</p>
+          </div>
+          <div className="flex-1 overflow-y-auto p-3 space-y-2">
+            {scans.map((scan, i) => (
+              <div key={scan.id} className={`rounded-xl border ${selectedId === scan.id ? 'border-indigo-500 bg-slate-700' : 'border-slate-700 bg-slate-900/50'}`}>
+                <button onClick={() => setSelectedId(selectedId === scan.id ? null : scan.id)} className="w-full flex items-center gap-3 p-2 text-left">
+                  <img src={scan.image} alt="" className="h-12 w-12 object-cover rounded-lg bg-slate-700" />
+                  <div className="flex-1 min-w-0">
+                    <p className="text-white text-sm font-bold truncate">{scan.data?.name || scan.label || `Sheet ${i + 1}`}</p>
+                    <p className="text-xs text-slate-400 truncate">Captured {new Date(scan.capturedAt).toLocaleString()}</p>
+                  </div>
+                  <span className={`px-2 py-0.5 rounded-full text-[10px] font-black uppercase ${scan.status === 'ready' ? 'bg-amber-500 text-white' : scan.status === 'failed' ? 'bg-red-600 text-white' : 'bg-slate-600 text-slate-200'}`}>
+                    {scan.status === 'scanning' ? <Loader2 size={12} className="animate-spin" /> : PENDING_SCAN_LABELS[scan.status]}
+                  </span>
+                </button>
+                {selectedId === scan.id && (scan.status === 'ready' || scan.status === 'failed') && (
+                  <div className="p-3 border-t border-slate-600">
+                    <ScanReviewEditor
+                      item={scan} subjects={subjects} existingRollNos={existingRollNos} fixedExamName={fixedExamName}
+                      acceptLabel="Add to Exam"
+                      onAccept={data => { onAccept(scan, data); setSelectedId(null); }}
+                      onDiscard={() => { if (confirm('Discard this sheet?')) { onDiscard(scan.id); setSelectedId(null); } }}
+                      onRetry={() => onRetry([scan.id])}
+                    />
+                  </div>
+                )}
+              </div>
+            ))}
+            {scans.length === 0 && <p className="text-center text-slate-500 text-sm py-12">No sheets are waiting.</p>}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
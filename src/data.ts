@@ -0,0 +1,81 @@
+import { DataBackend, PendingScan, ScanStatus, SchoolSettings, StoredData, StoreName } from './types';
+import { normalizeExam, normalizeStudents } from './utils';
+import { createLocalBackend, readPendingScans, STORE_NAMES, writeLocal } from './storage';
+import { API_BASE_URL, createServerBackend, DATA_MODE } from './api';
+import { DEFAULT_SCHOOL_SETTINGS } from './marksheet';
+
+// Selected with DATA_MODE in .env.local; local mode needs no server at all.
+export const dataBackend: DataBackend = DATA_MODE === 'server' ? createServerBackend(API_BASE_URL) : createLocalBackend();
+
+// Last record saved per id, so a save only touches records whose reference changed.
+// Only successful saves are recorded; after a failure the data is loaded again.
+const written: Record<StoreName, Map<string, unknown>> = {
+  students: new Map(),
+  exams: new Map(),
+  gradingSchemes: new Map(),
+  users: new Map(),
+  profiles: new Map(),
+  audit: new Map(),
+  trash: new Map(),
+  reevaluations: new Map(),
+};
+let writtenSettings: SchoolSettings | null = null;
+let writtenScans = new Map<string, unknown>();
+// Saves of one store run one after another, each against what the previous one saved.
+const pendingWrites: Partial<Record<StoreName, Promise<void>>> = {};
+
+export const loadStoredData = async (): Promise<StoredData & { settings: SchoolSettings }> => {
+  await Promise.allSettled(Object.values(pendingWrites));
+  const data = await dataBackend.load();
+  const exams = data.exams.map(normalizeExam);
+  const loaded = {
+    ...data,
+    exams,
+    students: normalizeStudents(data.students, exams, data.gradingSchemes),
+    settings: { ...DEFAULT_SCHOOL_SETTINGS, ...data.settings },
+  };
+  STORE_NAMES.forEach(name => {
+    written[name] = new Map((loaded[name] as { id: string }[]).map(r => [r.id, r]));
+  });
+  writtenSettings = loaded.settings;
+  return loaded;
+};
+
+const diffRecords = <T extends { id: string }>(previous: Map<string, unknown>, records: T[]) => {
+  const next = new Map(records.map(r => [r.id, r] as const));
+  const puts = records.filter(r => previous.get(r.id) !== r);
+  const deletes = [...previous.keys()].filter(id => !next.has(id));
+  return { next, puts, deletes };
+};
+
+export const syncStore = <T extends { id: string }>(name: StoreName, records: T[]): Promise<void> => {
+  const save = async () => {
+    const { next, puts, deletes } = diffRecords(written[name], records);
+    // Ranks are worked out whenever results are shown, so they are never saved.
+    const saved = name === 'students' ? (puts as { id: string; rank?: unknown }[]).map(({ rank, ...record }) => record) : puts;
+    if (saved.length || deletes.length) await dataBackend.write(name, saved, deletes);
+    written[name] = next;
+  };
+  const queued = (pendingWrites[name] || Promise.resolve()).catch(() => undefined).then(save);
+  pendingWrites[name] = queued;
+  return queued;
+};
+
+// A scan interrupted by closing the tab is read again.
+export const loadPendingScans = async (): Promise<PendingScan[]> => {
+  const scans = (await readPendingScans()).map(scan => scan.status === 'scanning' ? { ...scan, status: 'queued' as ScanStatus } : scan);
+  writtenScans = new Map(scans.map(scan => [scan.id, scan]));
+  return scans;
+};
+
+export const syncPendingScans = async (scans: PendingScan[]) => {
+  const { next, puts, deletes } = diffRecords(writtenScans, scans);
+  if (puts.length || deletes.length) await writeLocal('pendingScans', puts, deletes);
+  writtenScans = next;
+};
+
+export const saveSettings = async (settings: SchoolSettings) => {
+  if (settings === writtenSettings) return;
+  await dataBackend.saveSettings(settings);
+  writtenSettings = settings;
+};
@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import { Subject } from './types';
+import { guessColumnMapping, validateImportRows } from './import';
+
+const SCIENCE: Subject = {
+  key: 'science', name: 'Science', maxMarks: 100, components: [
+    { kind: 'theory', maxMarks: 70, weight: 70 },
+    { kind: 'practical', maxMarks: 30, weight: 30 },
+  ],
+};
+const SUBJECTS: Subject[] = [
+  { key: 'math', name: 'Mathematics', maxMarks: 100 },
+  { key: 'art', name: 'Art', maxMarks: 50, optional: true },
+];
+const MAPPING = { name: 0, rollNo: 1, className: 2, math: 3, art: 4 };
+
+describe('guessColumnMapping', () => {
+  it('matches headers by field alias, subject key or name, ignoring case and punctuation', () => {
+    const mapping = guessColumnMapping(['Student Name', 'Roll No.', 'STD', 'maths', 'MATH', 'Notes'], [SUBJECTS[0]]);
+    expect(mapping).toEqual({ name: 0, rollNo: 1, className: 2, math: 4 });
+    expect(guessColumnMapping(['Mathematics'], [SUBJECTS[0]]).math).toBe(0);
+  });
+
+  it('maps component columns, including the headers of the downloaded template', () => {
+    const mapping = guessColumnMapping(['Roll', 'Science Theory', 'Science Practical (/30)', 'Science'], [SCIENCE]);
+    expect(mapping).toMatchObject({ rollNo: 0, name: -1, science: 3, 'science.theory': 1, 'science.practical': 2 });
+  });
+});
+
+describe('validateImportRows', () => {
+  it('reads marks, leaves optional subjects out and skips empty rows', () => {
+    const rows = validateImportRows([['Ann', '1', '5', '80', ''], ['', '', '', '', ''], [' Ben ', '2', '5', ' 72.5 ', '40']], MAPPING, SUBJECTS, []);
+    expect(rows.map(r => [r.line, r.data.name, r.data.marks, r.issues])).toEqual([
+      [2, 'Ann', { math: 80 }, []],
+      [4, 'Ben', { math: 72.5, art: 40 }, []],
+    ]);
+  });
+
+  it('reports anything but a plain decimal as not a number', () => {
+    const issues = ['0x10', '1e2', '-5', '.5', '8O'].map(mark => validateImportRows([['Ann', '1', '5', mark, '']], MAPPING, SUBJECTS, [])[0].issues);
+    expect(issues).toEqual(['0x10', '1e2', '-5', '.5', '8O'].map(mark => [`Mathematics: "${mark}" is not a number`]));
+  });
+
+  it('reports missing fields, marks out of range and duplicate roll numbers', () => {
+    const rows = validateImportRows([['', '1', '5', ' ', '60'], ['Ben', '1', '5', '101', '']], MAPPING, SUBJECTS, []);
+    expect(rows[0].issues).toEqual(['Missing name', 'Mathematics: missing mark', 'Art: 60 outside 0-50']);
+    expect(rows[1].issues).toEqual(['Mathematics: 101 outside 0-100', 'Duplicate roll number in file']);
+  });
+
+  it('flags roll numbers already used in the exam', () => {
+    const [row] = validateImportRows([['Ann', 'a-1', '5', '80', '']], MAPPING, SUBJECTS, [' A-1']);
+    expect(row).toMatchObject({ issues: [], conflict: true });
+  });
+
+  it('totals component marks into the subject mark', () => {
+    const mapping = { name: 0, rollNo: 1, 'science.theory': 2, 'science.practical': 3 };
+    const [ann, ben] = validateImportRows([['Ann', '1', '56', '24'], ['Ben', '2', '71', '']], mapping, [SCIENCE], []);
+    expect(ann.data).toMatchObject({ marks: { science: 80 }, componentMarks: { science: { theory: 56, practical: 24 } } });
+    expect(ben.issues).toEqual(['Science theory: 71 outside 0-70', 'Science practical: missing mark']);
+  });
+});
@@ -0,0 +1,90 @@
+import * as XLSX from 'xlsx';
+import { ColumnMapping, ComponentMarks, ImportRow, Marks, Subject } from './types';
+import { aggregateComponents, COMPONENT_LABELS, componentField, hasComponents } from './utils';
+
+export const STUDENT_FIELDS = [
+  { field: 'name', label: 'Name', aliases: ['name', 'studentname', 'fullname'] },
+  { field: 'rollNo', label: 'Roll No', aliases: ['rollno', 'roll', 'rollnumber', 'rollnum'] },
+  { field: 'className', label: 'Class', aliases: ['class', 'classname', 'std', 'standard'] },
+];
+
+const normalizeHeader = (h: string) => h.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+// Plain decimals only; Number() would also take "0x10", "1e2" or a cell of spaces.
+const MARK_PATTERN = /^\d+(\.\d+)?$/;
+
+// Reads the first sheet of a CSV or Excel workbook as rows of trimmed cell strings.
+export const parseSpreadsheet = async (file: File): Promise<string[][]> => {
+  const workbook = XLSX.read(await file.arrayBuffer(), { type: 'array' });
+  const sheet = workbook.Sheets[workbook.SheetNames[0]];
+  if (!sheet) return [];
+  const rows = XLSX.utils.sheet_to_json<unknown[]>(sheet, { header: 1, raw: false, defval: '' });
+  return rows.map(r => r.map(c => String(c ?? '').trim()));
+};
+
+export const guessColumnMapping = (headers: string[], subjects: Subject[]): ColumnMapping => {
+  const normalized = headers.map(normalizeHeader);
+  const find = (aliases: string[]) => normalized.findIndex(h => aliases.includes(h));
+  return {
+    ...Object.fromEntries(STUDENT_FIELDS.map(f => [f.field, find(f.aliases)])),
+    ...Object.fromEntries(subjects.map(sub => [sub.key, find([normalizeHeader(sub.key), normalizeHeader(sub.name)])])),
+    ...Object.fromEntries(subjects.flatMap(sub => (sub.components || []).map(c => [
+      componentField(sub.key, c.kind),
+      find([normalizeHeader(`${sub.key} ${c.kind}`), normalizeHeader(`${sub.name} ${c.kind}`), normalizeHeader(`${sub.name} ${COMPONENT_LABELS[c.kind]} (/${c.maxMarks})`)]),
+    ]))),
+  };
+};
+
+export const validateImportRows = (rows: string[][], mapping: ColumnMapping, subjects: Subject[], existingRollNos: string[]): ImportRow[] => {
+  const seen = new Set<string>();
+  const existing = new Set(existingRollNos.map(r => r.trim().toLowerCase()));
+  const cell = (row: string[], field: string) => mapping[field] >= 0 ? (row[mapping[field]] ?? '').trim() : '';
+
+  return rows.flatMap((row, i) => {
+    if (row.every(c => !c)) return [];
+    const issues: string[] = [];
+    const rollNo = cell(row, 'rollNo');
+    const name = cell(row, 'name');
+    if (!rollNo) issues.push('Missing roll number');
+    if (!name) issues.push('Missing name');
+
+    const marks: Marks = {};
+    const componentMarks: Record<string, ComponentMarks> = {};
+    subjects.forEach(sub => {
+      // Subjects with every component mapped are read part by part; otherwise from their single column.
+      if (hasComponents(sub) && sub.components!.every(c => mapping[componentField(sub.key, c.kind)] >= 0)) {
+        const cells = sub.components!.map(c => [c, cell(row, componentField(sub.key, c.kind))] as const);
+        if (cells.every(([, raw]) => raw === '') && sub.optional) return;
+        const parts: ComponentMarks = {};
+        cells.forEach(([c, raw]) => {
+          const label = `${sub.name} ${COMPONENT_LABELS[c.kind].toLowerCase()}`;
+          const value = Number(raw);
+          if (raw === '') issues.push(`${label}: missing mark`);
+          else if (!MARK_PATTERN.test(raw)) issues.push(`${label}: "${raw}" is not a number`);
+          else if (value < 0 || value > c.maxMarks) issues.push(`${label}: ${value} outside 0-${c.maxMarks}`);
+          else parts[c.kind] = value;
+        });
+        componentMarks[sub.key] = parts;
+        marks[sub.key] = aggregateComponents(sub, parts);
+        return;
+      }
+      const raw = cell(row, sub.key);
+      if (raw === '') {
+        if (!sub.optional) issues.push(`${sub.name}: missing mark`);
+        return;
+      }
+      const value = Number(raw);
+      if (!MARK_PATTERN.test(raw)) issues.push(`${sub.name}: "${raw}" is not a number`);
+      else if (value < 0 || value > sub.maxMarks) issues.push(`${sub.name}: ${value} outside 0-${sub.maxMarks}`);
+      else marks[sub.key] = value;
+    });
+
+    const rollKey = rollNo.toLowerCase();
+    if (rollNo && seen.has(rollKey)) issues.push('Duplicate roll number in file');
+    seen.add(rollKey);
+
+    // line is the spreadsheet row number, counting the header row.
+    const data = { name, rollNo, className: cell(row, 'className'), marks, componentMarks };
+    return [{ line: i + 2, data, issues, conflict: !!rollNo && existing.has(rollKey) }];
+  });
+};
@@ -0,0 +1,108 @@
+import { jsPDF } from 'jspdf';
+import { MarksheetDocumentProps, SchoolSettings, Student } from './types';
+import { calculateGrade, componentBreakdown, passMarkFor } from './utils';
+import { fileSafe } from './backup';
+import { publishedRemarks } from './remarks';
+import { routePath } from './routing';
+
+export const DEFAULT_SCHOOL_SETTINGS: SchoolSettings = {
+  schoolName: 'EduResult Academy',
+  address: '',
+  signatoryName: '',
+  signatoryTitle: 'Principal',
+};
+
+export const verificationUrl = (student: Student, code: string): string =>
+  window.location.origin + routePath({ page: 'verify', code, examId: student.examId, rollNo: student.rollNo });
+
+export const PDF_MARGIN = 18;
+
+// Draws the school letterhead and a document title; returns the y position below the rule.
+export const drawPdfHeader = (doc: jsPDF, school: SchoolSettings, title: string): number => {
+  const pageWidth = doc.internal.pageSize.getWidth();
+  let y = 20;
+  if (school.logoDataUrl) {
+    try { doc.addImage(school.logoDataUrl, PDF_MARGIN, y - 4, 20, 20); } catch (err) { console.error('Logo could not be embedded:', err); }
+  }
+  doc.setFont('helvetica', 'bold').setFontSize(18).text(school.schoolName, pageWidth / 2, y + 2, { align: 'center' });
+  if (school.address) doc.setFont('helvetica', 'normal').setFontSize(10).text(school.address, pageWidth / 2, y + 8, { align: 'center' });
+  y += 22;
+  doc.setFont('helvetica', 'bold').setFontSize(13).text(title, pageWidth / 2, y, { align: 'center' });
+  y += 4;
+  doc.setLineWidth(0.4).line(PDF_MARGIN, y, pageWidth - PDF_MARGIN, y);
+  return y + 10;
+};
+
+export const generateMarksheetPdf = ({ student, exam, scheme, school, code, qrDataUrl }: MarksheetDocumentProps) => {
+  const subjects = exam.subjects;
+  const doc = new jsPDF({ unit: 'mm', format: 'a4' });
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const margin = PDF_MARGIN;
+  let y = drawPdfHeader(doc, school, `Statement of Marks - ${exam.name}`);
+
+  doc.setFontSize(11);
+  [['Name', student.name], ['Roll No', student.rollNo], ['Class', student.className]].forEach(([label, value]) => {
+    doc.setFont('helvetica', 'bold').text(`${label}:`, margin, y);
+    doc.setFont('helvetica', 'normal').text(value || '-', margin + 25, y);
+    y += 7;
+  });
+
+  y += 4;
+  const cols = [margin, margin + 70, margin + 95, margin + 120, margin + 150];
+  const headers = ['Subject', 'Max', 'Pass', 'Obtained', 'Grade'];
+  doc.setFillColor(238, 242, 255).rect(margin, y - 5, pageWidth - margin * 2, 8, 'F');
+  doc.setFont('helvetica', 'bold').setFontSize(10);
+  headers.forEach((h, i) => doc.text(h, cols[i] + 2, y));
+  y += 8;
+  doc.setFont('helvetica', 'normal');
+  subjects.filter(sub => student.marks[sub.key] !== undefined).forEach(sub => {
+    const obtained = student.marks[sub.key];
+    const row = [sub.name, String(sub.maxMarks), String(passMarkFor(sub, scheme)), String(obtained), calculateGrade(obtained / sub.maxMarks * 100, scheme)];
+    row.forEach((cell, i) => doc.text(cell, cols[i] + 2, y));
+    const breakdown = componentBreakdown(sub, student);
+    if (breakdown) {
+      y += 4;
+      doc.setFontSize(8).setTextColor(100, 116, 139).text(breakdown, cols[0] + 2, y);
+      doc.setFontSize(10).setTextColor(0, 0, 0);
+    }
+    doc.setDrawColor(226, 232, 240).line(margin, y + 3, pageWidth - margin, y + 3);
+    y += 8;
+  });
+
+  y += 6;
+  doc.setFont('helvetica', 'bold').setFontSize(11);
+  doc.text(`Total: ${student.total} / ${student.maxTotal}`, margin, y);
+  doc.text(`Percentage: ${student.percentage}%`, margin + 60, y);
+  doc.text(`Grade: ${student.grade} (CGPA ${student.gradePoint})`, margin + 115, y);
+  y += 8;
+  doc.text(`Result: ${student.status}`, margin, y);
+
+  const footerY = doc.internal.pageSize.getHeight() - 55;
+  const remarks = publishedRemarks(student);
+  if (remarks) {
+    const width = pageWidth - margin * 2;
+    const lines = [
+      ...(remarks.overall ? doc.setFont('helvetica', 'normal').setFontSize(10).splitTextToSize(remarks.overall, width) as string[] : []),
+      ...subjects.filter(sub => remarks.subjects[sub.key]).flatMap(sub => doc.splitTextToSize(`${sub.name}: ${remarks.subjects[sub.key]}`, width) as string[]),
+    ];
+    y += 12;
+    doc.setFont('helvetica', 'bold').setFontSize(11).text("Teacher's Remarks", margin, y);
+    doc.setFont('helvetica', 'normal').setFontSize(10);
+    lines.forEach(line => {
+      // Long remarks continue on a new page so they never run into the signature block.
+      if (y + 5 > footerY - 6) { doc.addPage(); y = PDF_MARGIN; }
+      y += 5;
+      doc.text(line, margin, y);
+    });
+  }
+  doc.addImage(qrDataUrl, 'PNG', margin, footerY, 32, 32);
+  doc.setFont('helvetica', 'normal').setFontSize(8).text('Scan to verify this marksheet', margin, footerY + 37);
+  doc.setFont('courier', 'bold').setFontSize(10).text(`Code: ${code}`, margin, footerY + 42);
+
+  const signX = pageWidth - margin - 60;
+  doc.setDrawColor(15, 23, 42).line(signX, footerY + 24, pageWidth - margin, footerY + 24);
+  doc.setFont('helvetica', 'bold').setFontSize(10).text(school.signatoryName || ' ', signX + 30, footerY + 30, { align: 'center' });
+  doc.setFont('helvetica', 'normal').setFontSize(9).text(school.signatoryTitle, signX + 30, footerY + 35, { align: 'center' });
+
+  doc.save(`${fileSafe(exam.name)} - ${fileSafe(student.rollNo)}.pdf`);
+};
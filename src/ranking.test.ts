@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import { TieBreakPolicy } from './types';
+import { RankableResult, rankExamResults } from './ranking';
+
+const result = (id: string, percentage: number, math: number, className = '5'): RankableResult =>
+  ({ id, examId: 'e1', className, percentage, marks: { math } });
+
+const RESULTS = [result('a', 90, 90), result('b', 80, 70), result('c', 80, 90, '6'), result('d', 70, 70)];
+
+const examRanks = (tieBreak: TieBreakPolicy) =>
+  rankExamResults({ id: 'e1', tieBreak, subjects: [{ key: 'math' }] }, RESULTS).map(r => r.rank!.exam);
+
+describe('rankExamResults', () => {
+  it('shares a rank between equal results and skips the ranks they take', () => {
+    expect(examRanks('shared')).toEqual([1, 2, 2, 4]);
+  });
+
+  it('continues with the next rank after a tie when dense', () => {
+    expect(examRanks('dense')).toEqual([1, 2, 2, 3]);
+  });
+
+  it('breaks ties on subject marks in subject order', () => {
+    expect(examRanks('subjects')).toEqual([1, 3, 2, 4]);
+  });
+
+  it('ranks within each class and counts equal scores as half for the percentile', () => {
+    const ranked = rankExamResults({ id: 'e1', subjects: [] }, RESULTS);
+    expect(ranked[1].rank).toEqual({ exam: 2, examSize: 4, class: 2, classSize: 3, percentile: 50 });
+    expect(ranked[2].rank).toMatchObject({ class: 1, classSize: 1 });
+  });
+
+  it('returns the same list when no rank changed', () => {
+    const exam = { id: 'e1', subjects: [] };
+    const ranked = rankExamResults(exam, RESULTS);
+    expect(rankExamResults(exam, ranked)).toBe(ranked);
+  });
+});
@@ -0,0 +1,63 @@
+import { Exam, RankedStudent, ResultRank, Student, Subject } from './types';
+
+// Only the fields ranking reads, so the API server can rank the records it stores.
+export type RankableResult = Pick<Student, 'id' | 'examId' | 'className' | 'percentage' | 'marks'> & { rank?: ResultRank };
+export type RankableExam = Pick<Exam, 'id' | 'tieBreak'> & { subjects: Pick<Subject, 'key'>[] };
+
+const compareResults = (exam: RankableExam) => (a: RankableResult, b: RankableResult): number => {
+  if (a.percentage !== b.percentage) return b.percentage - a.percentage;
+  if (exam.tieBreak !== 'subjects') return 0;
+  for (const sub of exam.subjects) {
+    const diff = (b.marks[sub.key] ?? -1) - (a.marks[sub.key] ?? -1);
+    if (diff) return diff;
+  }
+  return 0;
+};
+
+// Results that still compare equal share a rank; 'dense' continues with the next rank after a tie.
+const assignRanks = (results: RankableResult[], compare: (a: RankableResult, b: RankableResult) => number, dense: boolean): Map<string, number> => {
+  const sorted = [...results].sort(compare);
+  const ranks = new Map<string, number>();
+  sorted.forEach((s, i) => {
+    const prev = sorted[i - 1];
+    ranks.set(s.id, !prev ? 1 : compare(prev, s) === 0 ? ranks.get(prev.id)! : dense ? ranks.get(prev.id)! + 1 : i + 1);
+  });
+  return ranks;
+};
+
+// Ranks depend on every result of an exam, so they are worked out when results are shown and never stored.
+// Records whose rank is unchanged are returned as they are, and the same array when none changed.
+export const rankExamResults = <T extends RankableResult>(exam: RankableExam, list: T[]): T[] => {
+  const results = list.filter(s => s.examId === exam.id);
+  if (!results.length) return list;
+  const compare = compareResults(exam);
+  const dense = exam.tieBreak === 'dense';
+  const examRanks = assignRanks(results, compare, dense);
+  const classes = new Map<string, T[]>();
+  results.forEach(s => classes.set(s.className.trim(), [...(classes.get(s.className.trim()) || []), s]));
+  const classRanks = new Map([...classes.values()].flatMap(members => [...assignRanks(members, compare, dense)]));
+
+  let changed = false;
+  const next = list.map(s => {
+    if (s.examId !== exam.id) return s;
+    const below = results.filter(r => r.percentage < s.percentage).length;
+    const equal = results.filter(r => r.percentage === s.percentage).length;
+    const rank: ResultRank = {
+      exam: examRanks.get(s.id)!,
+      examSize: results.length,
+      class: classRanks.get(s.id)!,
+      classSize: classes.get(s.className.trim())!.length,
+      // Share of the exam scoring lower, counting equal scores as half.
+      percentile: Number(((below + equal / 2) / results.length * 100).toFixed(1)),
+    };
+    if (s.rank && (Object.keys(rank) as (keyof ResultRank)[]).every(k => s.rank![k] === rank[k])) return s;
+    changed = true;
+    return { ...s, rank };
+  });
+  return changed ? next : list;
+};
+
+export const rankAllExams = (list: RankedStudent[], exams: Exam[]): RankedStudent[] =>
+  exams.reduce((acc, exam) => rankExamResults(exam, acc), list);
+
+export const byRank = (a: RankedStudent, b: RankedStudent) => (a.rank?.exam ?? Infinity) - (b.rank?.exam ?? Infinity) || a.name.localeCompare(b.name);
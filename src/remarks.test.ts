@@ -0,0 +1,81 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { RemarkRequest, Subject } from './types';
+import { cleanRemarks, suggestRemarks, templateRemarks } from './remarks';
+import { DEFAULT_GRADING_SCHEME, processStudentData } from './utils';
+
+const SUBJECTS: Subject[] = [
+  { key: 'math', name: 'Math', maxMarks: 100 },
+  { key: 'science', name: 'Science', maxMarks: 100 },
+  { key: 'english', name: 'English', maxMarks: 100 },
+  { key: 'art', name: 'Art', maxMarks: 50, optional: true },
+];
+
+const request = (marks: Record<string, number>): RemarkRequest => ({
+  student: processStudentData({ name: 'Ann Rao', rollNo: '7', className: '5', marks }, SUBJECTS),
+  subjects: SUBJECTS,
+  scheme: DEFAULT_GRADING_SCHEME,
+});
+
+describe('templateRemarks', () => {
+  it('names the strongest and weakest subjects of a passing result', () => {
+    expect(templateRemarks(request({ math: 92, science: 80, english: 40 }))).toEqual({
+      overall: 'A good, steady result. Strongest in Math and Science. More practice in English will help next term.',
+      subjects: {
+        math: 'Outstanding work with a thorough command of the subject.',
+        science: 'Strong, consistent performance.',
+        english: 'Cleared the pass mark, but the fundamentals need more attention.',
+      },
+    });
+  });
+
+  it('puts the failed subjects first', () => {
+    const draft = templateRemarks(request({ math: 50, science: 46, english: 20 }));
+    expect(draft.overall).toBe('This result shows that more support is needed across several subjects. Regular revision in English should be the priority next term.');
+    expect(draft.subjects).toMatchObject({
+      science: 'Fair understanding; more practice is needed to strengthen weaker topics.',
+      english: 'Below the pass mark; needs focused revision of the basics and regular practice.',
+    });
+  });
+});
+
+describe('suggestRemarks', () => {
+  const answer = (text: string) => vi.fn(async (_url: string, _init?: RequestInit) => new Response(JSON.stringify({ text }), { status: 200 }));
+
+  beforeEach(() => {
+    vi.stubEnv('EXTRACTION_PROVIDER', 'server');
+    vi.stubGlobal('sessionStorage', { getItem: () => null });
+    vi.stubGlobal('navigator', { onLine: true });
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.unstubAllGlobals();
+  });
+
+  it('keeps the model draft for subjects the student took, without sending their name', async () => {
+    const fetch = answer(JSON.stringify({ overall: ' Well done. ', subjects: { math: 'Great.', science: ' ', art: 'Not taken.', history: 'Unknown.' } }));
+    vi.stubGlobal('fetch', fetch);
+    const remarks = await suggestRemarks(request({ math: 92, science: 80, english: 40 }), 'ai');
+    expect(remarks).toEqual({ overall: 'Well done.', subjects: { math: 'Great.' }, status: 'draft', source: 'ai' });
+    expect(fetch.mock.calls[0][1]?.body).not.toMatch(/Ann|Rao/);
+  });
+
+  it('reports a draft that is not JSON', async () => {
+    vi.stubGlobal('fetch', answer('Well done.'));
+    await expect(suggestRemarks(request({ math: 92, science: 80, english: 40 }), 'ai')).rejects.toThrow('The AI returned unreadable remarks. Please try again.');
+  });
+
+  it('falls back to the templates without a connection', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => { throw new TypeError('Failed to fetch'); }));
+    const req = request({ math: 92, science: 80, english: 40 });
+    expect(await suggestRemarks(req, 'ai')).toEqual({ ...templateRemarks(req), status: 'draft', source: 'template' });
+  });
+});
+
+describe('cleanRemarks', () => {
+  it('drops blank remarks', () => {
+    expect(cleanRemarks({ overall: ' Good. ', subjects: { math: ' ', art: 'Neat.' }, status: 'draft', source: 'manual' }))
+      .toEqual({ overall: 'Good.', subjects: { art: 'Neat.' }, status: 'draft', source: 'manual' });
+    expect(cleanRemarks({ overall: ' ', subjects: { math: '' }, status: 'approved', source: 'manual' })).toBeUndefined();
+  });
+});
@@ -0,0 +1,63 @@
+import { RemarkDraft, RemarkRequest, RemarkSource, Student, StudentRemarks, Subject } from './types';
+import { getExtractionProvider, isConnectivityError } from './ai';
+import { passMarkFor } from './utils';
+
+// Offline generator: one sentence per subject picked by how far above or below the pass mark it is.
+export const templateRemarks = ({ student, subjects, scheme }: RemarkRequest): RemarkDraft => {
+  const taken = subjects.filter(sub => student.marks[sub.key] !== undefined);
+  const percent = (sub: Subject) => student.marks[sub.key] / sub.maxMarks * 100;
+  const failed = taken.filter(sub => student.marks[sub.key] < passMarkFor(sub, scheme));
+  const byScore = [...taken].sort((a, b) => percent(b) - percent(a));
+  const strongest = byScore.filter(sub => percent(sub) >= 60).slice(0, 2).map(sub => sub.name);
+  const weakest = byScore.filter(sub => !failed.includes(sub) && percent(sub) < 50).slice(-2).map(sub => sub.name);
+
+  const subjectRemarks = Object.fromEntries(taken.map(sub => {
+    const p = percent(sub);
+    const remark = failed.includes(sub) ? 'Below the pass mark; needs focused revision of the basics and regular practice.'
+      : p >= 90 ? 'Outstanding work with a thorough command of the subject.'
+      : p >= 75 ? 'Strong, consistent performance.'
+      : p >= 60 ? 'Good effort; regular practice will lift this further.'
+      : p >= 45 ? 'Fair understanding; more practice is needed to strengthen weaker topics.'
+      : 'Cleared the pass mark, but the fundamentals need more attention.';
+    return [sub.key, remark];
+  }));
+
+  const opening = student.status === 'Fail' ? 'This result shows that more support is needed across several subjects.'
+    : student.status === 'Compartment' ? `A reasonable overall result, but ${failed.map(sub => sub.name).join(' and ')} must be cleared.`
+    : student.percentage >= 85 ? 'An excellent result, reflecting consistent hard work.'
+    : student.percentage >= 65 ? 'A good, steady result.'
+    : 'A satisfactory result with clear room to improve.';
+  const strengths = strongest.length ? `Strongest in ${strongest.join(' and ')}.` : '';
+  const focus = failed.length ? `Regular revision in ${failed.map(sub => sub.name).join(', ')} should be the priority next term.`
+    : weakest.length ? `More practice in ${weakest.join(' and ')} will help next term.`
+    : 'Keep up the good habits next term.';
+  return { overall: [opening, strengths, focus].filter(Boolean).join(' '), subjects: subjectRemarks };
+};
+
+// AI suggestions fall back to the templates when there is no connection, so drafting also works offline.
+export const suggestRemarks = async (request: RemarkRequest, source: RemarkSource): Promise<StudentRemarks> => {
+  if (source === 'ai') {
+    try {
+      return { ...await getExtractionProvider().suggestRemarks(request), status: 'draft', source: 'ai' };
+    } catch (error) {
+      if (!isConnectivityError(error)) throw error;
+    }
+  }
+  return { ...templateRemarks(request), status: 'draft', source: 'template' };
+};
+
+// Drops blank subject remarks; no remarks at all when every field is blank.
+export const cleanRemarks = (remarks?: StudentRemarks): StudentRemarks | undefined => {
+  if (!remarks) return undefined;
+  const subjects = Object.fromEntries(Object.entries(remarks.subjects).map(([k, v]) => [k, v.trim()]).filter(([, v]) => v));
+  const overall = remarks.overall.trim();
+  return overall || Object.keys(subjects).length ? { ...remarks, overall, subjects } : undefined;
+};
+
+export const publishedRemarks = (student: Student): StudentRemarks | undefined =>
+  student.remarks?.status === 'approved' ? student.remarks : undefined;
+
+export const withRemarks = <T extends Partial<Student>>({ remarks: _, ...record }: T, remarks?: StudentRemarks): Omit<T, 'remarks'> & { remarks?: StudentRemarks } =>
+  remarks ? { ...record, remarks } : record;
+
+export const REMARK_SOURCE_LABELS: Record<RemarkSource, string> = { manual: 'Written', ai: 'AI', template: 'Template' };
@@ -0,0 +1,32 @@
+import { Route } from './types';
+
+const decodeSegment = (segment: string) => {
+  try { return decodeURIComponent(segment); } catch { return segment; }
+};
+
+// Marksheets printed before path routes link to "/?verify=…", so that query is honoured on any path.
+export const parseRoute = ({ pathname, search }: { pathname: string; search: string }): Route => {
+  const params = new URLSearchParams(search);
+  const [first, ...rest] = pathname.split('/').filter(Boolean).map(decodeSegment);
+  const verify = (code: string | null): Route => ({ page: 'verify', code: code || undefined, examId: params.get('exam') || undefined, rollNo: params.get('roll') || undefined });
+  if (params.has('verify')) return verify(params.get('verify'));
+  if (first === 'verify') return verify(params.get('code'));
+  if (first === 'login') return { page: 'login', next: params.get('next') || undefined };
+  if (first === 'admin') return { page: 'admin', examId: rest[0] === 'exams' ? rest[1] : undefined };
+  if (first === 'results' && rest.length === 2) return { page: 'result', examId: rest[0], rollNo: rest[1] };
+  return { page: 'landing' };
+};
+
+export const routePath = (route: Route): string => {
+  const query = (params: Record<string, string | undefined>) => {
+    const search = new URLSearchParams(Object.entries(params).filter((entry): entry is [string, string] => !!entry[1])).toString();
+    return search ? `?${search}` : '';
+  };
+  switch (route.page) {
+    case 'landing': return '/';
+    case 'login': return `/login${query({ next: route.next })}`;
+    case 'verify': return `/verify${query({ code: route.code, exam: route.examId, roll: route.rollNo })}`;
+    case 'admin': return route.examId ? `/admin/exams/${encodeURIComponent(route.examId)}` : '/admin';
+    case 'result': return `/results/${encodeURIComponent(route.examId)}/${encodeURIComponent(route.rollNo)}`;
+  }
+};
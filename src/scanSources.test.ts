@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import { Subject } from './types';
+import { detectScanAnomalies } from './scanSources';
+
+const SCIENCE: Subject = {
+  key: 'science', name: 'Science', maxMarks: 100, components: [
+    { kind: 'theory', maxMarks: 70, weight: 70 },
+    { kind: 'practical', maxMarks: 30, weight: 30 },
+  ],
+};
+const SUBJECTS: Subject[] = [
+  { key: 'math', name: 'Math', maxMarks: 100 },
+  { key: 'art', name: 'Art', maxMarks: 50, optional: true },
+  { ...SCIENCE, optional: true },
+];
+const SHEET = { name: 'Ann', rollNo: '7', marks: { math: 80 } };
+
+describe('detectScanAnomalies', () => {
+  it('passes a complete sheet read with confidence', () => {
+    expect(detectScanAnomalies(SHEET, { name: 0.9, math: 0.95 }, SUBJECTS, ['1', '2'])).toEqual([]);
+  });
+
+  it('blocks sheets without a name or roll number, or with marks out of range', () => {
+    const anomalies = detectScanAnomalies({ name: ' ', marks: { math: 101, art: -1 } }, {}, SUBJECTS, []);
+    expect(anomalies).toEqual([
+      { field: 'name', message: 'Name is empty', severity: 'error' },
+      { field: 'rollNo', message: 'Roll number is empty', severity: 'error' },
+      { field: 'math', message: 'Math: 101 is above the maximum of 100', severity: 'error' },
+      { field: 'art', message: 'Art: marks cannot be negative', severity: 'error' },
+    ]);
+  });
+
+  it('asks for confirmation of marks that will be saved as 0', () => {
+    const anomalies = detectScanAnomalies({ ...SHEET, marks: {}, componentMarks: { science: { theory: 80 } } }, {}, SUBJECTS, []);
+    expect(anomalies).toEqual([
+      { field: 'math', message: 'Math mark is missing and will be saved as 0', severity: 'confirm' },
+      { field: 'science.theory', message: 'Science theory: 80 is above the maximum of 70', severity: 'error' },
+      { field: 'science.practical', message: 'Science practical mark is missing and will be saved as 0', severity: 'confirm' },
+    ]);
+  });
+
+  it('warns about taken roll numbers, another exam name and low confidence', () => {
+    const anomalies = detectScanAnomalies(
+      { ...SHEET, rollNo: 'a7' },
+      { rollNo: 0.59, math: 0.3, 'science.practical': 0.5, examName: 0.1, other: 0.2 },
+      SUBJECTS, [' A7 '], 'Final', 'Term 1',
+    );
+    expect(anomalies.every(a => a.severity === 'warning')).toBe(true);
+    expect(anomalies.map(a => a.message)).toEqual([
+      'Roll number a7 already exists in this exam',
+      'Sheet says "Term 1" but this folder is "Final"',
+      'Roll No was read with low confidence (59%)',
+      'Math was read with low confidence (30%)',
+      'Science practical was read with low confidence (50%)',
+    ]);
+  });
+
+  it('ignores exam names that only differ in case and spacing', () => {
+    expect(detectScanAnomalies(SHEET, {}, SUBJECTS, [], 'Final', ' final ')).toEqual([]);
+  });
+});
@@ -0,0 +1,117 @@
+import { ComponentKind, FieldConfidence, ScanAnomaly, ScanPage, Student, Subject } from './types';
+import { COMPONENT_LABELS, componentField, hasComponents } from './utils';
+
+const SCAN_IMAGE_TYPES: Record<string, string> = {
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  webp: 'image/webp',
+  heic: 'image/heic',
+  heif: 'image/heif',
+};
+
+// Browsers often leave File.type empty for HEIC, so fall back to the extension.
+const scanMimeType = (file: File): string => {
+  const ext = file.name.split('.').pop()?.toLowerCase() || '';
+  if (file.type === 'application/pdf' || ext === 'pdf') return 'application/pdf';
+  return Object.values(SCAN_IMAGE_TYPES).includes(file.type) ? file.type : SCAN_IMAGE_TYPES[ext] || '';
+};
+
+const readAsDataUrl = (file: Blob): Promise<string> => new Promise((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onload = () => resolve(reader.result as string);
+  reader.onerror = () => reject(reader.error);
+  reader.readAsDataURL(file);
+});
+
+// pdf.js is only loaded the first time a PDF is dropped into the scanner.
+const loadPdfJs = async () => {
+  const [pdfjs, worker] = await Promise.all([import('pdfjs-dist'), import('pdfjs-dist/build/pdf.worker.min.mjs?url')]);
+  pdfjs.GlobalWorkerOptions.workerSrc = worker.default;
+  return pdfjs;
+};
+
+const renderPdfPages = async (file: File): Promise<ScanPage[]> => {
+  const pdfjs = await loadPdfJs();
+  const pdf = await pdfjs.getDocument({ data: await file.arrayBuffer() }).promise;
+  const pages: ScanPage[] = [];
+  for (let n = 1; n <= pdf.numPages; n++) {
+    const page = await pdf.getPage(n);
+    const viewport = page.getViewport({ scale: 2 });
+    const canvas = document.createElement('canvas');
+    canvas.width = viewport.width;
+    canvas.height = viewport.height;
+    await page.render({ canvasContext: canvas.getContext('2d')!, viewport }).promise;
+    pages.push({ dataUrl: canvas.toDataURL('image/jpeg', 0.85), mimeType: 'image/jpeg', label: `${file.name} • p${n}` });
+  }
+  return pages;
+};
+
+// Expands uploaded files into scan pages; throws on an unsupported file type.
+export const readScanFiles = async (files: File[]): Promise<ScanPage[]> => {
+  const pages: ScanPage[] = [];
+  for (const file of files) {
+    const mimeType = scanMimeType(file);
+    if (!mimeType) throw new Error(`"${file.name}" is not a supported image or PDF.`);
+    if (mimeType === 'application/pdf') pages.push(...await renderPdfPages(file));
+    else pages.push({ dataUrl: await readAsDataUrl(file), mimeType, label: file.name });
+  }
+  return pages;
+};
+
+export const LOW_CONFIDENCE = 0.6;
+
+export const FIELD_LABELS: Record<string, string> = { name: 'Name', rollNo: 'Roll No', className: 'Class', examName: 'Exam', remarks: 'Remarks', 'remarks.status': 'Remarks status' };
+
+const componentLabel = (field: string, subjects: Subject[]): string | undefined => {
+  const sub = subjects.find(sub => sub.components?.some(c => componentField(sub.key, c.kind) === field));
+  return sub && `${sub.name} ${COMPONENT_LABELS[field.slice(sub.key.length + 1) as ComponentKind].toLowerCase()}`;
+};
+
+export const detectScanAnomalies = (
+  data: Partial<Student>,
+  confidence: FieldConfidence,
+  subjects: Subject[],
+  existingRollNos: string[],
+  fixedExamName?: string,
+  sheetExamName?: string,
+): ScanAnomaly[] => {
+  const anomalies: ScanAnomaly[] = [];
+  if (!data.name?.trim()) anomalies.push({ field: 'name', message: 'Name is empty', severity: 'error' });
+  if (!data.rollNo?.trim()) anomalies.push({ field: 'rollNo', message: 'Roll number is empty', severity: 'error' });
+  else if (existingRollNos.some(r => r.trim().toLowerCase() === data.rollNo!.trim().toLowerCase())) {
+    anomalies.push({ field: 'rollNo', message: `Roll number ${data.rollNo} already exists in this exam`, severity: 'warning' });
+  }
+  // A mark the model could not read is saved as 0, so a reviewer has to confirm it was left blank on the sheet.
+  subjects.forEach(sub => {
+    const mark = data.marks?.[sub.key];
+    if (hasComponents(sub)) {
+      const parts = data.componentMarks?.[sub.key];
+      if (!parts && sub.optional) return;
+      sub.components!.forEach(c => {
+        const part = parts?.[c.kind];
+        const field = componentField(sub.key, c.kind);
+        const label = `${sub.name} ${COMPONENT_LABELS[c.kind].toLowerCase()}`;
+        if (part === undefined) anomalies.push({ field, message: `${label} mark is missing and will be saved as 0`, severity: 'confirm' });
+        else if (part > c.maxMarks) anomalies.push({ field, message: `${label}: ${part} is above the maximum of ${c.maxMarks}`, severity: 'error' });
+        else if (part < 0) anomalies.push({ field, message: `${label}: marks cannot be negative`, severity: 'error' });
+      });
+      return;
+    }
+    if (mark === undefined) {
+      if (!sub.optional) anomalies.push({ field: sub.key, message: `${sub.name} mark is missing and will be saved as 0`, severity: 'confirm' });
+      return;
+    }
+    if (mark > sub.maxMarks) anomalies.push({ field: sub.key, message: `${sub.name}: ${mark} is above the maximum of ${sub.maxMarks}`, severity: 'error' });
+    else if (mark < 0) anomalies.push({ field: sub.key, message: `${sub.name}: marks cannot be negative`, severity: 'error' });
+  });
+  if (fixedExamName && sheetExamName?.trim() && sheetExamName.trim().toLowerCase() !== fixedExamName.trim().toLowerCase()) {
+    anomalies.push({ field: 'examName', message: `Sheet says "${sheetExamName}" but this folder is "${fixedExamName}"`, severity: 'warning' });
+  }
+  Object.entries(confidence).forEach(([field, c]) => {
+    if (c >= LOW_CONFIDENCE || field === 'examName') return;
+    const label = FIELD_LABELS[field] || subjects.find(sub => sub.key === field)?.name || componentLabel(field, subjects);
+    if (label) anomalies.push({ field, message: `${label} was read with low confidence (${Math.round(c * 100)}%)`, severity: 'warning' });
+  });
+  return anomalies;
+};
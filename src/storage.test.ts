@@ -0,0 +1,75 @@
+import 'fake-indexeddb/auto';
+import { beforeAll, describe, expect, it, vi } from 'vitest';
+import { createLocalBackend, readPendingScans, writeLocal } from './storage';
+import { StoredData } from './types';
+
+const legacy = new Map<string, string>();
+
+const LEGACY_SETTINGS = { schoolName: 'Hill School', address: 'Main Road', signatoryName: 'R. Rao', signatoryTitle: 'Principal' };
+
+beforeAll(() => {
+  vi.stubGlobal('navigator', {});
+  vi.stubGlobal('localStorage', {
+    getItem: (key: string) => legacy.get(key) ?? null,
+    setItem: (key: string, value: string) => legacy.set(key, value),
+    removeItem: (key: string) => legacy.delete(key),
+  });
+  // What the app kept in localStorage before it moved to IndexedDB.
+  legacy.set('exam_db', JSON.stringify([{ id: 'e1', name: 'Final', createdAt: '2020-01-01T00:00:00.000Z' }]));
+  legacy.set('student_db', JSON.stringify([
+    { id: 's1', examName: 'Final', rollNo: '1', name: 'Ann', className: '5', marks: { math: 80 } },
+    { id: 's2', examName: 'Final', rollNo: '2', name: 'Ben', className: '5', marks: { math: 60 } },
+    { id: 's3', examName: 'Midterm', rollNo: '1', name: 'Ann ', className: '5', marks: { math: 70 } },
+    { name: 'No id' },
+    { id: 's4', examName: 'Final', name: 'No roll', className: '5', marks: {} },
+    'not a record',
+  ]));
+  legacy.set('settings_db', JSON.stringify(LEGACY_SETTINGS));
+  legacy.set('grading_db', '[{"id": "g1",');
+  legacy.set('user_db', JSON.stringify({ id: 'u1', username: 'admin' }));
+});
+
+describe('local storage migrations', () => {
+  let data: StoredData;
+
+  beforeAll(async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    data = await createLocalBackend().load();
+  });
+
+  it('moves the localStorage data into IndexedDB and clears the old keys', () => {
+    expect(data.students.map(s => s.id).sort()).toEqual(['s1', 's2', 's3']);
+    expect(data.settings).toEqual(LEGACY_SETTINGS);
+    expect([...legacy.keys()]).toEqual([]);
+  });
+
+  it('skips legacy keys and records that are not readable', () => {
+    expect(console.error).toHaveBeenCalledWith('Legacy data in grading_db could not be read:', expect.any(SyntaxError));
+    expect([data.gradingSchemes, data.users]).toEqual([[], []]);
+  });
+
+  it('links results to exams by id, creating folders for names without one', () => {
+    const midterm = data.exams.find(e => e.name === 'Midterm')!;
+    expect(data.exams).toHaveLength(2);
+    expect(data.students.find(s => s.id === 's1')).toMatchObject({ examId: 'e1' });
+    expect(data.students.find(s => s.id === 's3')).toMatchObject({ examId: midterm.id });
+    expect(data.students.some(s => 'examName' in s)).toBe(false);
+  });
+
+  it('registers each student once and keeps older exams public', () => {
+    const profileOf = (id: string) => data.students.find(s => s.id === id)!.profileId;
+    expect(data.profiles).toHaveLength(2);
+    expect(profileOf('s1')).toBe(profileOf('s3'));
+    expect(profileOf('s2')).not.toBe(profileOf('s1'));
+    expect(data.exams.every(e => e.published)).toBe(true);
+  });
+
+  it('adds the stores of later versions', async () => {
+    expect([data.audit, data.trash, data.reevaluations]).toEqual([[], [], []]);
+    const request = { id: 'r1', studentId: 's1' };
+    await writeLocal('reevaluations', [request], []);
+    await writeLocal('pendingScans', [{ id: 'p1' }], []);
+    expect((await createLocalBackend().load()).reevaluations).toEqual([request]);
+    expect(await readPendingScans()).toEqual([{ id: 'p1' }]);
+  });
+});
@@ -0,0 +1,213 @@
+import { DataBackend, Exam, PendingScan, StoredData, StoreName } from './types';
+import { asRecord, linkResultsToRegistry, linkStudentsToExams } from './utils';
+import { endSession, resumeSession, startSession, verifyPassword } from './auth';
+
+const DB_NAME = 'eduresult';
+// Bump together with a new MIGRATIONS entry whenever stored records change shape.
+const SCHEMA_VERSION = 7;
+export const STORE_NAMES: StoreName[] = ['students', 'exams', 'gradingSchemes', 'users', 'profiles', 'audit', 'trash', 'reevaluations'];
+// localStorage keys used before IndexedDB, by the store that replaced them.
+const LEGACY_KEYS: Record<string, string> = {
+  students: 'student_db',
+  exams: 'exam_db',
+  gradingSchemes: 'grading_db',
+  users: 'user_db',
+  settings: 'settings_db',
+};
+
+const requestResult = <T,>(request: IDBRequest<T>): Promise<T> => new Promise((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+const transactionDone = (tx: IDBTransaction): Promise<void> => new Promise((resolve, reject) => {
+  tx.oncomplete = () => resolve();
+  tx.onerror = () => reject(tx.error);
+  tx.onabort = () => reject(tx.error);
+});
+
+// A legacy key that does not parse is left out of the upgrade instead of failing it.
+const readLegacy = (key: string): unknown => {
+  const raw = localStorage.getItem(key);
+  if (!raw) return null;
+  try {
+    return JSON.parse(raw);
+  } catch (err) {
+    console.error(`Legacy data in ${key} could not be read:`, err);
+    return null;
+  }
+};
+
+// The fields later migrations read from each legacy record; records missing one are skipped.
+const LEGACY_REQUIRED_FIELDS: Record<string, string[]> = {
+  students: ['id', 'name', 'rollNo'],
+  exams: ['id', 'name'],
+  gradingSchemes: ['id'],
+  users: ['id', 'username'],
+};
+
+const readLegacyRecords = (name: string): Record<string, unknown>[] => {
+  const list = readLegacy(LEGACY_KEYS[name]);
+  return (Array.isArray(list) ? list : [])
+    .map(asRecord)
+    .filter(record => LEGACY_REQUIRED_FIELDS[name].every(field => typeof record[field] === 'string' && record[field]));
+};
+
+// MIGRATIONS[n] upgrades a database at version n to n + 1, inside the versionchange transaction. Each calls
+// next() once its writes are queued, so a later migration that reads records sees them upgraded.
+const MIGRATIONS: ((db: IDBDatabase, tx: IDBTransaction, next: () => void) => void)[] = [
+  // v1: initial stores, seeded from the localStorage keys used before IndexedDB.
+  (db, tx, next) => {
+    const students = db.createObjectStore('students', { keyPath: 'id' });
+    students.createIndex('examName', 'examName');
+    students.createIndex('rollNo', 'rollNo');
+    students.createIndex('examName_rollNo', ['examName', 'rollNo']);
+    db.createObjectStore('exams', { keyPath: 'id' });
+    db.createObjectStore('gradingSchemes', { keyPath: 'id' });
+    db.createObjectStore('users', { keyPath: 'id' });
+    db.createObjectStore('meta');
+    ['students', 'exams', 'gradingSchemes', 'users'].forEach(name => {
+      readLegacyRecords(name).forEach(record => tx.objectStore(name).put(record));
+    });
+    const settings = asRecord(readLegacy(LEGACY_KEYS.settings));
+    if (typeof settings.schoolName === 'string') tx.objectStore('meta').put(settings, 'settings');
+    tx.addEventListener('complete', () => Object.values(LEGACY_KEYS).forEach(key => localStorage.removeItem(key)));
+    next();
+  },
+  // v2: students reference Exam.id instead of the folder name.
+  (_db, tx, next) => {
+    const students = tx.objectStore('students');
+    const exams = tx.objectStore('exams');
+    students.deleteIndex('examName');
+    students.deleteIndex('examName_rollNo');
+    students.createIndex('examId', 'examId');
+    students.createIndex('examId_rollNo', ['examId', 'rollNo']);
+    const examsRequest = exams.getAll();
+    const studentsRequest = students.getAll();
+    studentsRequest.onsuccess = () => {
+      const linked = linkStudentsToExams(studentsRequest.result, examsRequest.result);
+      linked.students.forEach(record => students.put(record));
+      linked.exams.slice(examsRequest.result.length).forEach(record => exams.put(record));
+      next();
+    };
+  },
+  // v3: a student registry that results link to, built from the existing results.
+  (db, tx, next) => {
+    const profiles = db.createObjectStore('profiles', { keyPath: 'id' });
+    profiles.createIndex('rollNo', 'rollNo');
+    const students = tx.objectStore('students');
+    students.createIndex('profileId', 'profileId');
+    const request = students.getAll();
+    request.onsuccess = () => {
+      const linked = linkResultsToRegistry(request.result, []);
+      linked.created.forEach(record => profiles.put(record));
+      linked.students.forEach(record => students.put(record));
+      next();
+    };
+  },
+  // v4: exams gain a published flag; existing exams were already public.
+  (_db, tx, next) => {
+    const exams = tx.objectStore('exams');
+    const request = exams.getAll();
+    request.onsuccess = () => {
+      request.result
+        .filter((exam: Exam) => exam.published === undefined)
+        .forEach((exam: Exam) => exams.put({ ...exam, published: true }));
+      next();
+    };
+  },
+  // v5: audit log and trash.
+  (db, _tx, next) => {
+    const audit = db.createObjectStore('audit', { keyPath: 'id' });
+    audit.createIndex('entityId', 'entityId');
+    audit.createIndex('at', 'at');
+    db.createObjectStore('trash', { keyPath: 'id' });
+    next();
+  },
+  // v6: sheets scanned while offline.
+  (db, _tx, next) => {
+    db.createObjectStore('pendingScans', { keyPath: 'id' });
+    next();
+  },
+  // v7: re-evaluation requests.
+  (db, _tx, next) => {
+    const requests = db.createObjectStore('reevaluations', { keyPath: 'id' });
+    requests.createIndex('studentId', 'studentId');
+    next();
+  },
+];
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+  dbPromise = new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, SCHEMA_VERSION);
+    request.onupgradeneeded = event => {
+      const migrate = (version: number) => {
+        if (version < SCHEMA_VERSION) MIGRATIONS[version](request.result, request.transaction!, () => migrate(version + 1));
+      };
+      migrate(event.oldVersion);
+    };
+    request.onsuccess = () => {
+      const db = request.result;
+      // Let a newer tab run its migrations instead of blocking on this connection.
+      db.onversionchange = () => { db.close(); dbPromise = null; };
+      navigator.storage?.persist?.();
+      resolve(db);
+    };
+    request.onerror = () => { dbPromise = null; reject(request.error); };
+  });
+  return dbPromise;
+};
+
+const readLocalData = async (): Promise<StoredData> => {
+  const db = await openDatabase();
+  const tx = db.transaction([...STORE_NAMES, 'meta'], 'readonly');
+  const [students, exams, gradingSchemes, users, profiles, audit, trash, reevaluations] = await Promise.all(
+    STORE_NAMES.map(name => requestResult(tx.objectStore(name).getAll()))
+  );
+  const settings = await requestResult(tx.objectStore('meta').get('settings'));
+  return { students, exams, gradingSchemes, users, profiles, audit, trash, reevaluations, settings: settings || null };
+};
+
+export const writeLocal = async (name: StoreName | 'pendingScans', puts: { id: string }[], deletes: string[]) => {
+  const db = await openDatabase();
+  const tx = db.transaction(name, 'readwrite');
+  const store = tx.objectStore(name);
+  puts.forEach(record => store.put(record));
+  deletes.forEach(id => store.delete(id));
+  await transactionDone(tx);
+};
+
+// Offline scans never leave this device, so they are read from IndexedDB in both data modes.
+export const readPendingScans = async (): Promise<PendingScan[]> => {
+  const db = await openDatabase();
+  return requestResult(db.transaction('pendingScans', 'readonly').objectStore('pendingScans').getAll());
+};
+
+export const createLocalBackend = (): DataBackend => ({
+  mode: 'local',
+  load: readLocalData,
+  write: writeLocal,
+  saveSettings: async settings => {
+    const db = await openDatabase();
+    const tx = db.transaction('meta', 'readwrite');
+    tx.objectStore('meta').put(settings, 'settings');
+    await transactionDone(tx);
+  },
+  needsSetup: async users => users.length === 0,
+  login: async (username, password, users) => {
+    const account = users.find(u => u.username === username.trim().toLowerCase());
+    if (!account || !(await verifyPassword(account, password))) return null;
+    startSession(account.id);
+    return account;
+  },
+  setup: async user => {
+    await writeLocal('users', [user], []);
+    startSession(user.id);
+    return user;
+  },
+  resume: async users => resumeSession(users),
+  logout: async () => endSession(),
+});
@@ -0,0 +1,739 @@
+export type ComponentKind = 'theory' | 'practical' | 'internal';
+
+// A separately marked part of a subject, such as the practical exam.
+export interface SubjectComponent {
+  kind: ComponentKind;
+  maxMarks: number;
+  // Percentage of the subject's maxMarks this component counts for; a subject's weights add up to 100.
+  weight: number;
+  // On the component's own scale.
+  passMarks?: number;
+}
+
+export interface Subject {
+  key: string;
+  name: string;
+  maxMarks: number;
+  passMarks?: number;
+  optional?: boolean;
+  components?: SubjectComponent[];
+}
+
+// Marks are keyed by Subject.key; optional subjects a student did not take are absent.
+export interface Marks {
+  [subjectKey: string]: number;
+}
+
+export type ComponentMarks = Partial<Record<ComponentKind, number>>;
+
+// A child in the school's registry; each exam result links back to one of these.
+export interface StudentProfile {
+  id: string;
+  name: string;
+  rollNo: string;
+  className: string;
+  section?: string;
+  // ISO date (yyyy-mm-dd).
+  dateOfBirth?: string;
+  // Lets a student see results online without giving their date of birth.
+  accessPin?: string;
+  // Set by the API server in place of accessPin, which it does not send back once issued.
+  hasAccessPin?: boolean;
+  createdAt: string;
+}
+
+// One exam result. Name, roll and class are kept as printed at the time of the exam.
+export interface Student {
+  id: string;
+  profileId?: string;
+  name: string;
+  rollNo: string;
+  className: string;
+  examId: string;
+  marks: Marks;
+  // Keyed by Subject.key, for subjects with components; marks then holds the weighted total.
+  componentMarks?: Record<string, ComponentMarks>;
+  total: number;
+  maxTotal: number;
+  percentage: number;
+  grade: string;
+  gradePoint: number;
+  status: ResultStatus;
+  failedSubjects: string[];
+  remarks?: StudentRemarks;
+}
+
+type RemarkStatus = 'draft' | 'approved';
+
+export type RemarkSource = 'manual' | 'ai' | 'template';
+
+// Teacher feedback on a result. Only approved remarks are shown on the marksheet.
+export interface StudentRemarks {
+  overall: string;
+  // Keyed by Subject.key; subjects without a remark are absent.
+  subjects: Record<string, string>;
+  status: RemarkStatus;
+  // How the text was first written; edits keep the original source.
+  source: RemarkSource;
+}
+
+export interface Exam {
+  id: string;
+  name: string;
+  createdAt: string;
+  subjects: Subject[];
+  gradingSchemeId?: string;
+  academicYear?: string;
+  term?: string;
+  // ISO date (yyyy-mm-dd) the exam was held.
+  examDate?: string;
+  archived?: boolean;
+  // Results are public only once published, and not before publishAt (ISO timestamp) when that is set.
+  published?: boolean;
+  publishAt?: string;
+  // When the exam was last switched to published.
+  publishedAt?: string;
+  // How results with the same percentage are ranked; 'shared' when unset.
+  tieBreak?: TieBreakPolicy;
+  // Days after publication during which students may ask for re-evaluation; no requests when unset.
+  reevaluationDays?: number;
+}
+
+export type ReevaluationStatus = 'pending' | 'approved' | 'rejected';
+
+// A student's request, filed from the result page, to have some subjects marked again.
+export interface ReevaluationRequest {
+  id: string;
+  studentId: string;
+  examId: string;
+  // As on the result when the request was filed.
+  studentName: string;
+  rollNo: string;
+  // Subject keys.
+  subjects: string[];
+  reason: string;
+  status: ReevaluationStatus;
+  submittedAt: string;
+  resolvedAt?: string;
+  resolvedBy?: string;
+  // Shown to the student with the decision.
+  note?: string;
+  // Marks of the requested subjects before and after an approval.
+  previousMarks?: Marks;
+  revisedMarks?: Marks;
+}
+
+export type ResultStatus = 'Pass' | 'Fail' | 'Compartment';
+
+export type TieBreakPolicy = 'shared' | 'dense' | 'subjects';
+
+export type ExamVisibility = 'draft' | 'scheduled' | 'published';
+
+// What a visitor must supply, besides exam and roll number, to see a result.
+export interface LookupSecret {
+  dateOfBirth?: string;
+  pin?: string;
+  // The code printed on a marksheet, used by the verification page.
+  code?: string;
+}
+
+// Derived from every result of the exam when results are shown; never stored with them.
+export interface ResultRank {
+  exam: number;
+  examSize: number;
+  class: number;
+  classSize: number;
+  percentile: number;
+}
+
+// A result as shown, with its rank among the exam's results.
+export type RankedStudent = Student & { rank?: ResultRank };
+
+export type ExamFormMode = 'create' | 'edit' | 'duplicate';
+
+export interface GradeBand {
+  grade: string;
+  minPercentage: number;
+  gradePoint: number;
+}
+
+export interface GradingScheme {
+  id: string;
+  name: string;
+  bands: GradeBand[];
+  // Used for subjects that do not set their own passMarks.
+  subjectPassPercentage: number;
+  overallPassPercentage: number;
+  // A student failing up to this many subjects gets a compartment instead of an outright fail.
+  compartmentLimit: number;
+  builtIn?: boolean;
+}
+
+// Model confidence from 0 to 1, keyed by student field ('name', 'rollNo', 'className', 'examName'), Subject.key
+// or, for a component, componentField(Subject.key, kind).
+export interface FieldConfidence {
+  [field: string]: number;
+}
+
+export interface ExtractedSheet {
+  name: string;
+  rollNo: string;
+  className: string;
+  examName: string;
+  marks: Marks;
+  componentMarks?: Record<string, ComponentMarks>;
+  confidence: FieldConfidence;
+}
+
+interface ExtractionRequest {
+  // Base64 payload without the data URL prefix.
+  image: string;
+  mimeType: string;
+  subjects: Subject[];
+}
+
+export interface RemarkRequest {
+  student: Student;
+  subjects: Subject[];
+  scheme: GradingScheme;
+}
+
+export type RemarkDraft = Pick<StudentRemarks, 'overall' | 'subjects'>;
+
+export interface ExtractionProvider {
+  id: string;
+  label: string;
+  extract: (request: ExtractionRequest) => Promise<ExtractedSheet>;
+  suggestRemarks: (request: RemarkRequest) => Promise<RemarkDraft>;
+}
+
+export type ExtractionErrorCode = 'config' | 'network' | 'invalid_response';
+
+export interface ScanAnomaly {
+  field: string;
+  message: string;
+  // Errors block accepting the sheet; 'confirm' blocks it until the reviewer confirms the sheet was read right,
+  // and warnings only ask for a second look.
+  severity: 'error' | 'confirm' | 'warning';
+}
+
+export interface SchoolSettings {
+  schoolName: string;
+  address: string;
+  logoDataUrl?: string;
+  signatoryName: string;
+  signatoryTitle: string;
+}
+
+export interface AICameraScannerProps {
+  onScanComplete: (data: Partial<Student>) => void;
+  // Enables batch mode; receives every sheet accepted in the review queue.
+  onBatchComplete?: (records: Partial<Student>[]) => void;
+  onClose: () => void;
+  fixedExamName?: string;
+  subjects: Subject[];
+  existingRollNos?: string[];
+  // Receives sheets that could not be read for lack of a connection; without it those scans just fail.
+  onSaveOffline?: (page: ScanPage) => void;
+}
+
+export type ScanStatus = 'queued' | 'scanning' | 'ready' | 'failed' | 'accepted';
+
+// One image sent to extraction: a camera frame, an uploaded photo or a rendered PDF page.
+export interface ScanPage {
+  dataUrl: string;
+  mimeType: string;
+  label: string;
+}
+
+export interface ScanQueueItem {
+  id: string;
+  image: string;
+  mimeType: string;
+  label?: string;
+  status: ScanStatus;
+  data?: Partial<Student>;
+  confidence?: FieldConfidence;
+  // Exam name as printed on the sheet; the record itself always goes to the open folder.
+  sheetExamName?: string;
+  error?: string;
+}
+
+// A sheet captured without a connection. It stays in this browser in both data modes until it has
+// been read and reviewed; 'queued' means it is waiting for the connection to return.
+export interface PendingScan extends ScanQueueItem {
+  examId: string;
+  capturedAt: string;
+}
+
+export interface PendingScansReviewProps {
+  scans: PendingScan[];
+  subjects: Subject[];
+  existingRollNos: string[];
+  fixedExamName?: string;
+  online: boolean;
+  onAccept: (scan: PendingScan, data: Partial<Student>) => void;
+  onDiscard: (id: string) => void;
+  onRetry: (ids: string[]) => void;
+  onClose: () => void;
+}
+
+export interface ScanReviewEditorProps {
+  item: ScanQueueItem;
+  subjects: Subject[];
+  existingRollNos: string[];
+  fixedExamName?: string;
+  acceptLabel?: string;
+  discardLabel?: string;
+  onAccept: (data: Partial<Student>) => void;
+  onDiscard: () => void;
+  onRetry: () => void;
+}
+
+export type UserRole = 'super_admin' | 'teacher';
+
+export interface UserAccount {
+  id: string;
+  username: string;
+  displayName: string;
+  role: UserRole;
+  passwordHash: string;
+  salt: string;
+  // Exam folders a teacher may edit; ignored for super-admins.
+  assignedExamIds: string[];
+  createdAt: string;
+}
+
+export interface AuthSession {
+  token: string;
+  userId: string;
+  expiresAt: string;
+}
+
+export type Permission = 'manage_exams' | 'manage_users' | 'manage_settings' | 'edit_students';
+
+export type StoreName = 'students' | 'exams' | 'gradingSchemes' | 'users' | 'profiles' | 'audit' | 'trash' | 'reevaluations';
+
+export type ChangeSource = 'manual' | 'scan' | 'import' | 'suggestion' | 'reevaluation' | 'backup';
+
+export type AuditAction = 'create' | 'update' | 'delete' | 'restore';
+
+// Append-only: entries are written once and never edited or removed.
+export interface AuditEntry {
+  id: string;
+  at: string;
+  userId: string;
+  userName: string;
+  entity: 'student' | 'exam';
+  entityId: string;
+  // The exam the record belongs to, or the exam itself.
+  examId: string;
+  // Record name at the time, so entries stay readable after a delete.
+  label: string;
+  action: AuditAction;
+  source: ChangeSource;
+  before?: Student | Exam;
+  after?: Student | Exam;
+}
+
+export interface AuditChange {
+  field: string;
+  from: string;
+  to: string;
+}
+
+// A deleted student record, or a deleted folder together with its records.
+export interface TrashItem {
+  id: string;
+  kind: 'student' | 'exam';
+  examId: string;
+  exam?: Exam;
+  students: Student[];
+  deletedAt: string;
+  deletedBy: string;
+}
+
+export interface StoredData {
+  audit: AuditEntry[];
+  trash: TrashItem[];
+  reevaluations: ReevaluationRequest[];
+  profiles: StudentProfile[];
+  students: Student[];
+  exams: Exam[];
+  gradingSchemes: GradingScheme[];
+  users: UserAccount[];
+  settings: SchoolSettings | null;
+}
+
+export type DataMode = 'local' | 'server';
+
+// Where records and accounts live: this browser's IndexedDB, or the optional API server.
+export interface DataBackend {
+  mode: DataMode;
+  load: () => Promise<StoredData>;
+  write: (name: StoreName, puts: { id: string }[], deletes: string[]) => Promise<void>;
+  saveSettings: (settings: SchoolSettings) => Promise<void>;
+  needsSetup: (users: UserAccount[]) => Promise<boolean>;
+  login: (username: string, password: string, users: UserAccount[]) => Promise<UserAccount | null>;
+  setup: (user: UserAccount) => Promise<UserAccount>;
+  resume: (users: UserAccount[]) => Promise<UserAccount | null>;
+  logout: () => Promise<void>;
+  // Only backends whose records are not all held in this browser need remote lookups.
+  findResult?: (examId: string, rollNo: string, secret: LookupSecret) => Promise<RankedStudent | null>;
+  findHistory?: (examId: string, rollNo: string, secret: LookupSecret) => Promise<Student[]>;
+  // Visitors file and follow re-evaluation requests with the secret they looked the result up with.
+  findReevaluations?: (examId: string, rollNo: string, secret: LookupSecret) => Promise<ReevaluationRequest[]>;
+  submitReevaluation?: (examId: string, rollNo: string, secret: LookupSecret, request: Pick<ReevaluationRequest, 'subjects' | 'reason'>) => Promise<ReevaluationRequest>;
+}
+
+// Every page has a URL, so it survives a refresh, works with the back button and can be bookmarked.
+export type Route =
+  | { page: 'landing' }
+  // `next` is the admin path to return to after signing in.
+  | { page: 'login'; next?: string }
+  | { page: 'verify'; code?: string; examId?: string; rollNo?: string }
+  | { page: 'admin'; examId?: string }
+  | { page: 'result'; examId: string; rollNo: string };
+
+export interface NavbarProps {
+  onLogout?: () => void;
+  user: UserAccount | null;
+  onNavigate: (route: Route) => void;
+}
+
+export interface LandingProps {
+  exams: Exam[];
+  initialExamId?: string;
+  initialRollNo?: string;
+  // Resolves false when no published result matches; throws LookupThrottledError after too many failures.
+  onCheckResult: (rollNo: string, examId: string, secret: LookupSecret) => Promise<boolean>;
+}
+
+// One exam result paired with its exam, for the progress charts.
+export interface ProgressEntry {
+  exam: Exam;
+  result: Student;
+}
+
+export interface StudentResultProps {
+  student: RankedStudent;
+  exam: Exam;
+  scheme: GradingScheme;
+  school: SchoolSettings;
+  history: ProgressEntry[];
+  reevaluations: ReevaluationRequest[];
+  // Only offered to visitors who looked the result up themselves.
+  onRequestReevaluation?: (subjects: string[], reason: string) => Promise<void>;
+  onBack: () => void;
+}
+
+export interface ProgressChartSeries {
+  name: string;
+  color: string;
+  // One value per label; null where the student has no mark for that exam.
+  values: (number | null)[];
+}
+
+export interface ProgressChartProps {
+  labels: string[];
+  series: ProgressChartSeries[];
+}
+
+export interface MarksheetDocumentProps {
+  student: Student;
+  exam: Exam;
+  scheme: GradingScheme;
+  school: SchoolSettings;
+  code: string;
+  qrDataUrl: string;
+}
+
+export interface VerifyResultProps {
+  exams: Exam[];
+  lookup: (examId: string, rollNo: string, secret: LookupSecret) => Promise<Student | null>;
+  initialExam?: string;
+  initialRollNo?: string;
+  initialCode?: string;
+}
+
+export interface SchoolSettingsModalProps {
+  settings: SchoolSettings;
+  onSave: (settings: SchoolSettings) => void;
+  onClose: () => void;
+}
+
+export interface SubjectEditorProps {
+  subjects: Subject[];
+  // Existing exams keep their subjects, since results are stored under them; only their settings change.
+  fixedSubjects?: boolean;
+  onChange: (subjects: Subject[]) => void;
+}
+
+// Column index per import field; field is 'name', 'rollNo', 'className' or a Subject.key. -1 means unmapped.
+export interface ColumnMapping {
+  [field: string]: number;
+}
+
+export interface ImportRow {
+  line: number;
+  data: Partial<Student>;
+  issues: string[];
+  // The roll number is already used in the exam; importing asks which record to keep.
+  conflict?: boolean;
+}
+
+export interface ImportStudentsModalProps {
+  exam: Exam;
+  scheme: GradingScheme;
+  existingStudents: Student[];
+  onImport: (students: Student[]) => void;
+  onClose: () => void;
+}
+
+// The collections a backup carries; grading schemes are the custom ones only.
+export interface BackupData {
+  exams: Exam[];
+  students: Student[];
+  profiles: StudentProfile[];
+  gradingSchemes: GradingScheme[];
+  reevaluations: ReevaluationRequest[];
+}
+
+export interface BackupFile extends BackupData {
+  app: 'eduresult';
+  version: number;
+  exportedAt: string;
+  settings?: SchoolSettings;
+}
+
+export type RestoreMode = 'merge' | 'replace';
+
+// What restoring a backup changes, worked out before anything is written.
+export interface RestorePlan extends BackupData {
+  // Current records the restore drops; they go to the trash like any other deletion.
+  removedExams: { exam: Exam; students: Student[] }[];
+  removedStudents: Student[];
+  changes: { action: AuditAction; before?: Student | Exam; after?: Student | Exam }[];
+  // Backup records left out because their folder name or roll number is already taken.
+  skippedExams: Exam[];
+  skippedStudents: Student[];
+}
+
+export interface BackupRestoreModalProps {
+  students: Student[];
+  profiles: StudentProfile[];
+  exams: Exam[];
+  gradingSchemes: GradingScheme[];
+  reevaluations: ReevaluationRequest[];
+  settings: SchoolSettings;
+  onRestore: (backup: BackupFile, mode: RestoreMode) => void;
+  onClose: () => void;
+}
+
+// Percentages (0-100) over a group of results.
+export interface ScoreStats {
+  average: number;
+  highest: number;
+  lowest: number;
+  passRate: number;
+}
+
+export interface GradeCount {
+  grade: string;
+  count: number;
+}
+
+interface SubjectAnalytics extends ScoreStats {
+  subject: Subject;
+  taken: number;
+  grades: GradeCount[];
+  // Everyone sharing the highest mark.
+  toppers: Student[];
+}
+
+interface ClassAnalytics extends ScoreStats {
+  className: string;
+  count: number;
+}
+
+export interface ExamAnalytics extends ScoreStats {
+  count: number;
+  statusCounts: Record<ResultStatus, number>;
+  grades: GradeCount[];
+  toppers: Student[];
+  subjects: SubjectAnalytics[];
+  classes: ClassAnalytics[];
+}
+
+export interface ExamAnalyticsPanelProps {
+  exam: Exam;
+  analytics: ExamAnalytics;
+}
+
+export interface VisibilityBadgeProps {
+  exam: Exam;
+}
+
+export interface GradeHistogramProps {
+  grades: GradeCount[];
+}
+
+export type ConflictChoice = 'keep' | 'overwrite' | 'merge';
+
+// Which record each merged field is taken from, by 'name', 'className' or subject key.
+export type ConflictPicks = Record<string, 'existing' | 'incoming'>;
+
+export type StudentSortKey = 'name' | 'rollNo' | 'score' | 'rank' | 'grade';
+
+export interface StudentTableFilters {
+  query: string;
+  className: string;
+  grade: string;
+  status: ResultStatus | '';
+}
+
+// Moving keeps a record's id and history; copying creates a new record in the other exam.
+export type TransferMode = 'move' | 'copy';
+
+// A new record whose roll number is already taken by another record in the same exam.
+export interface RollConflict {
+  existing: Student;
+  incoming: Student;
+  source: ChangeSource;
+}
+
+export interface RollConflictDialogProps {
+  conflict: RollConflict;
+  subjects: Subject[];
+  // Conflicts still waiting after this one.
+  queued: number;
+  onResolve: (choice: ConflictChoice, merged: Student) => void;
+}
+
+export interface GradingSchemeManagerProps {
+  schemes: GradingScheme[];
+  exams: Exam[];
+  onSave: (scheme: GradingScheme) => void;
+  onDelete: (id: string) => void;
+  onClose: () => void;
+}
+
+export interface AdminDashboardProps {
+  // The open exam folder, from the URL; undefined shows the folder list.
+  examId?: string;
+  onOpenExam: (examId: string | null) => void;
+  currentUser: UserAccount;
+  users: UserAccount[];
+  students: RankedStudent[];
+  profiles: StudentProfile[];
+  exams: Exam[];
+  gradingSchemes: GradingScheme[];
+  schoolSettings: SchoolSettings;
+  auditLog: AuditEntry[];
+  trash: TrashItem[];
+  reevaluations: ReevaluationRequest[];
+  // Sheets captured without a connection, across every exam folder.
+  pendingScans: PendingScan[];
+  online: boolean;
+  onQueueOfflineScan: (page: ScanPage, examId: string) => void;
+  onRetryPendingScans: (ids: string[]) => void;
+  onRemovePendingScans: (ids: string[]) => void;
+  onAddStudents: (s: Student[], source: ChangeSource) => void;
+  onUpdateStudent: (s: Student, source: ChangeSource) => void;
+  onUpdateStudents: (list: Student[], source: ChangeSource) => void;
+  onDeleteStudents: (ids: string[]) => void;
+  onTransferStudents: (ids: string[], examId: string, mode: TransferMode) => void;
+  onRestoreRevision: (studentId: string, version: Student) => void;
+  onRestoreFromTrash: (itemId: string) => void;
+  onPurgeTrash: (itemIds: string[]) => void;
+  onResolveReevaluation: ReevaluationQueueModalProps['onResolve'];
+  onSaveProfile: (profile: StudentProfile) => void;
+  onDeleteProfile: (id: string) => void;
+  onAddExam: (exam: Exam) => void;
+  onUpdateExam: (exam: Exam) => void;
+  onDeleteExam: (id: string) => void;
+  onSaveGradingScheme: (scheme: GradingScheme) => void;
+  onDeleteGradingScheme: (id: string) => void;
+  onRestore: (backup: BackupFile, mode: RestoreMode) => void;
+  onSaveSchoolSettings: (settings: SchoolSettings) => void;
+  onSaveUser: (user: UserAccount) => void;
+  onDeleteUser: (id: string) => void;
+}
+
+export interface StudentRegistryModalProps {
+  profiles: StudentProfile[];
+  students: Student[];
+  canDelete: boolean;
+  onSave: (profile: StudentProfile) => void;
+  onDelete: (id: string) => void;
+  onClose: () => void;
+}
+
+export interface RemarksReviewModalProps {
+  exam: Exam;
+  scheme: GradingScheme;
+  students: Student[];
+  onSave: (records: Student[], source: ChangeSource) => void;
+  onClose: () => void;
+}
+
+export interface ReevaluationQueueModalProps {
+  requests: ReevaluationRequest[];
+  students: Student[];
+  exams: Exam[];
+  onResolve: (id: string, status: Exclude<ReevaluationStatus, 'pending'>, note: string, revised?: Pick<Student, 'marks' | 'componentMarks'>) => void;
+  onClose: () => void;
+}
+
+export interface TransferResultsDialogProps {
+  mode: TransferMode;
+  count: number;
+  exams: Exam[];
+  onConfirm: (examId: string) => void;
+  onClose: () => void;
+}
+
+export interface ChangeListProps {
+  changes: AuditChange[];
+}
+
+export interface AuditEntryHeaderProps {
+  entry: AuditEntry;
+}
+
+export interface RevisionHistoryModalProps {
+  student: Student;
+  // This record's audit entries, oldest first.
+  entries: AuditEntry[];
+  onRestore: (version: Student) => void;
+  onClose: () => void;
+}
+
+export interface AuditLogModalProps {
+  entries: AuditEntry[];
+  exams: Exam[];
+  onClose: () => void;
+}
+
+export interface TrashModalProps {
+  items: TrashItem[];
+  canPurge: boolean;
+  onRestore: (itemId: string) => void;
+  onPurge: (itemIds: string[]) => void;
+  onClose: () => void;
+}
+
+export interface UserManagerProps {
+  users: UserAccount[];
+  exams: Exam[];
+  currentUser: UserAccount;
+  onSave: (user: UserAccount) => void;
+  onDelete: (id: string) => void;
+  onClose: () => void;
+}
+
+export interface LoginProps {
+  needsSetup: boolean;
+  onLogin: (username: string, password: string) => Promise<boolean>;
+  onSetup: (user: UserAccount) => Promise<void>;
+}
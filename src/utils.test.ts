@@ -0,0 +1,147 @@
+import { describe, expect, it } from 'vitest';
+import { Subject } from './types';
+import {
+  aggregateComponents,
+  BUILT_IN_GRADING_SCHEMES,
+  calculateGrade,
+  componentError,
+  DEFAULT_GRADING_SCHEME,
+  defaultConflictPicks,
+  mergeConflict,
+  processStudentData,
+  withComponentMark,
+} from './utils';
+
+const NINE_POINT = BUILT_IN_GRADING_SCHEMES.find(g => g.id === 'nine-point')!;
+
+const SUBJECTS: Subject[] = [
+  { key: 'math', name: 'Math', maxMarks: 100 },
+  { key: 'science', name: 'Science', maxMarks: 50, passMarks: 20 },
+];
+
+describe('calculateGrade', () => {
+  it('takes the highest band the percentage reaches', () => {
+    expect(calculateGrade(90)).toBe('A+');
+    expect(calculateGrade(89.99)).toBe('A');
+    expect(calculateGrade(34)).toBe('F');
+    expect(calculateGrade(65, NINE_POINT)).toBe('B2');
+  });
+});
+
+describe('processStudentData', () => {
+  it('totals marks and grades a passing result', () => {
+    const result = processStudentData({ marks: { math: 80, science: 40 } }, SUBJECTS);
+    expect(result).toMatchObject({
+      marks: { math: 80, science: 40 },
+      total: 120,
+      maxTotal: 150,
+      percentage: 80,
+      grade: 'A',
+      gradePoint: 9,
+      status: 'Pass',
+      failedSubjects: [],
+    });
+  });
+
+  it('fails a subject below its pass mark and the result with the lowest band', () => {
+    const result = processStudentData({ marks: { math: 90, science: 19 } }, SUBJECTS, DEFAULT_GRADING_SCHEME);
+    expect(result).toMatchObject({ percentage: 72.67, status: 'Fail', grade: 'F', failedSubjects: ['science'] });
+  });
+
+  it('gives a compartment within the scheme limit and keeps its grade', () => {
+    const result = processStudentData({ marks: { math: 90, science: 19 } }, SUBJECTS, NINE_POINT);
+    expect(result).toMatchObject({ status: 'Compartment', grade: 'B1', failedSubjects: ['science'] });
+  });
+
+  it('fails a result below the overall pass percentage', () => {
+    const result = processStudentData({ marks: { math: 35, science: 20 } }, SUBJECTS);
+    expect(result).toMatchObject({ percentage: 36.67, status: 'Pass' });
+    expect(processStudentData({ marks: { math: 35, science: 20 } }, SUBJECTS, { ...DEFAULT_GRADING_SCHEME, overallPassPercentage: 40 }))
+      .toMatchObject({ status: 'Fail', grade: 'F', failedSubjects: [] });
+  });
+
+  it('leaves optional subjects that were not taken out of the total', () => {
+    const result = processStudentData({ marks: { math: 40 } }, [SUBJECTS[0], { key: 'art', name: 'Art', maxMarks: 50, optional: true }]);
+    expect(result).toMatchObject({ marks: { math: 40 }, maxTotal: 100, percentage: 40, grade: 'D', status: 'Pass' });
+  });
+});
+
+describe('subject components', () => {
+  const SCIENCE: Subject = {
+    key: 'science', name: 'Science', maxMarks: 100, components: [
+      { kind: 'theory', maxMarks: 70, weight: 70, passMarks: 23 },
+      { kind: 'practical', maxMarks: 30, weight: 30 },
+    ],
+  };
+  const SPLIT = [SUBJECTS[0], SCIENCE];
+
+  it('weights each component onto the subject scale', () => {
+    expect(aggregateComponents(SCIENCE, { theory: 56, practical: 24 })).toBe(80);
+  });
+
+  it('rounds to whole marks and counts missing components as 0', () => {
+    const art: Subject = { key: 'art', name: 'Art', maxMarks: 50, components: [
+      { kind: 'theory', maxMarks: 40, weight: 60 },
+      { kind: 'internal', maxMarks: 20, weight: 40 },
+    ] };
+    expect(aggregateComponents(art, { theory: 33 })).toBe(25);
+  });
+
+  it('keeps the subject mark at the weighted total when one component changes', () => {
+    const data = withComponentMark({ marks: {}, componentMarks: { science: { theory: 56 } } }, SCIENCE, 'practical', 24);
+    expect(data).toEqual({ marks: { science: 80 }, componentMarks: { science: { theory: 56, practical: 24 } } });
+  });
+
+  it('totals and grades a result marked in components', () => {
+    const result = processStudentData({ marks: { math: 80 }, componentMarks: { science: { theory: 56, practical: 24 } } }, SPLIT);
+    expect(result).toMatchObject({ marks: { math: 80, science: 80 }, total: 160, maxTotal: 200, grade: 'A', status: 'Pass' });
+  });
+
+  it('fails a subject when a component misses its own pass mark', () => {
+    const result = processStudentData({ marks: { math: 80 }, componentMarks: { science: { theory: 20, practical: 30 } } }, SPLIT);
+    expect(result.marks.science).toBe(50);
+    expect(result).toMatchObject({ status: 'Fail', grade: 'F', failedSubjects: ['science'] });
+  });
+
+  it('grades a compartment on its aggregate', () => {
+    const result = processStudentData({ marks: { math: 80 }, componentMarks: { science: { theory: 20, practical: 30 } } }, SPLIT, NINE_POINT);
+    expect(result).toMatchObject({ percentage: 65, status: 'Compartment', grade: 'B2', failedSubjects: ['science'] });
+  });
+
+  it('keeps the single mark of a record entered before its subject was split', () => {
+    const result = processStudentData({ marks: { math: 60, science: 45 } }, SPLIT);
+    expect(result.marks.science).toBe(45);
+    expect(result.componentMarks).toBeUndefined();
+  });
+
+  it('rejects components whose weights do not add up to 100', () => {
+    expect(componentError(SPLIT)).toBeNull();
+    expect(componentError([{ ...SCIENCE, components: [{ kind: 'theory', maxMarks: 70, weight: 60 }] }])).toBe('Science: component weights add up to 60%, not 100%.');
+  });
+});
+
+describe('roll number conflicts', () => {
+  const SCIENCE: Subject = { ...SUBJECTS[1], components: [
+    { kind: 'theory', maxMarks: 35, weight: 70 },
+    { kind: 'practical', maxMarks: 15, weight: 30 },
+  ] };
+  const SPLIT = [SUBJECTS[0], SCIENCE];
+  const existing = processStudentData({ id: 's1', examId: 'e1', rollNo: '7', name: 'Ann', className: '5', marks: { math: 80 } }, SPLIT);
+  const incoming = processStudentData({
+    id: 's2', examId: 'e1', rollNo: '7', name: 'Ann Rao', className: '', marks: { math: 0 }, componentMarks: { science: { theory: 30, practical: 12 } },
+  }, SPLIT);
+  const conflict = { existing, incoming, source: 'import' as const };
+
+  it('picks incoming values only where they add something', () => {
+    expect(defaultConflictPicks(conflict, SPLIT)).toEqual({ name: 'incoming', className: 'existing', math: 'existing', science: 'incoming' });
+  });
+
+  it('merges the picked fields into the existing record', () => {
+    const merged = mergeConflict(conflict, SPLIT, defaultConflictPicks(conflict, SPLIT));
+    expect(merged).toMatchObject({
+      id: 's1', name: 'Ann Rao', className: '5',
+      marks: { math: 80, science: 42 }, componentMarks: { science: { theory: 30, practical: 12 } },
+    });
+    expect(mergeConflict(conflict, SPLIT, { science: 'existing' })).toMatchObject({ name: 'Ann', marks: { math: 80 }, componentMarks: {} });
+  });
+});
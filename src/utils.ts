@@ -0,0 +1,439 @@
+import {
+  AuditAction,
+  AuditChange,
+  AuditEntry,
+  ChangeSource,
+  ComponentKind,
+  ComponentMarks,
+  ConflictPicks,
+  Exam,
+  ExamVisibility,
+  ExtractedSheet,
+  GradeBand,
+  GradingScheme,
+  Marks,
+  RankedStudent,
+  ReevaluationRequest,
+  ResultStatus,
+  RollConflict,
+  Student,
+  StudentProfile,
+  StudentRemarks,
+  StudentSortKey,
+  StudentTableFilters,
+  Subject,
+  SubjectComponent,
+  TransferMode,
+  UserAccount,
+} from './types';
+import { byRank } from './ranking';
+
+export const DEFAULT_GRADING_SCHEME: GradingScheme = {
+  id: 'standard',
+  name: 'Standard (A+ to F)',
+  bands: [
+    { grade: 'A+', minPercentage: 90, gradePoint: 10 },
+    { grade: 'A', minPercentage: 80, gradePoint: 9 },
+    { grade: 'B', minPercentage: 70, gradePoint: 8 },
+    { grade: 'C', minPercentage: 55, gradePoint: 6 },
+    { grade: 'D', minPercentage: 35, gradePoint: 4 },
+    { grade: 'F', minPercentage: 0, gradePoint: 0 },
+  ],
+  subjectPassPercentage: 35,
+  overallPassPercentage: 35,
+  compartmentLimit: 0,
+  builtIn: true,
+};
+
+export const BUILT_IN_GRADING_SCHEMES: GradingScheme[] = [
+  DEFAULT_GRADING_SCHEME,
+  {
+    id: 'nine-point',
+    name: 'Nine Point (A1 to E)',
+    bands: [
+      { grade: 'A1', minPercentage: 91, gradePoint: 10 },
+      { grade: 'A2', minPercentage: 81, gradePoint: 9 },
+      { grade: 'B1', minPercentage: 71, gradePoint: 8 },
+      { grade: 'B2', minPercentage: 61, gradePoint: 7 },
+      { grade: 'C1', minPercentage: 51, gradePoint: 6 },
+      { grade: 'C2', minPercentage: 41, gradePoint: 5 },
+      { grade: 'D', minPercentage: 33, gradePoint: 4 },
+      { grade: 'E', minPercentage: 0, gradePoint: 0 },
+    ],
+    subjectPassPercentage: 33,
+    overallPassPercentage: 33,
+    compartmentLimit: 2,
+    builtIn: true,
+  },
+];
+
+const findBand = (percentage: number, scheme: GradingScheme): GradeBand => {
+  const bands = [...scheme.bands].sort((a, b) => b.minPercentage - a.minPercentage);
+  return bands.find(b => percentage >= b.minPercentage) || bands[bands.length - 1];
+};
+
+export const calculateGrade = (percentage: number, scheme: GradingScheme = DEFAULT_GRADING_SCHEME): string =>
+  findBand(percentage, scheme).grade;
+
+const failingBand = (scheme: GradingScheme): GradeBand =>
+  [...scheme.bands].sort((a, b) => a.minPercentage - b.minPercentage)[0];
+
+export const passMarkFor = (sub: Subject, scheme: GradingScheme): number =>
+  sub.passMarks ?? Math.ceil(sub.maxMarks * scheme.subjectPassPercentage / 100);
+
+export const COMPONENT_LABELS: Record<ComponentKind, string> = { theory: 'Theory', practical: 'Practical', internal: 'Internal' };
+
+export const COMPONENT_KINDS = Object.keys(COMPONENT_LABELS) as ComponentKind[];
+
+// Names a component in scan fields and confidence scores.
+export const componentField = (subjectKey: string, kind: ComponentKind) => `${subjectKey}.${kind}`;
+
+export const hasComponents = (sub: Subject): boolean => !!sub.components?.length;
+
+// Weighted sum of the component marks on the subject's scale, rounded to whole marks.
+export const aggregateComponents = (sub: Subject, marks: ComponentMarks): number =>
+  Math.round((sub.components || []).reduce((sum, c) => sum + (marks[c.kind] || 0) / c.maxMarks * c.weight / 100 * sub.maxMarks, 0));
+
+export const failedComponents = (sub: Subject, marks: ComponentMarks | undefined): SubjectComponent[] =>
+  marks ? (sub.components || []).filter(c => c.passMarks !== undefined && (marks[c.kind] || 0) < c.passMarks) : [];
+
+// Sets one component mark and keeps the subject's mark at the new weighted total.
+export const withComponentMark = <T extends Partial<Student>>(data: T, sub: Subject, kind: ComponentKind, value: number): T => {
+  const parts = { ...data.componentMarks?.[sub.key], [kind]: value };
+  return {
+    ...data,
+    marks: { ...data.marks, [sub.key]: aggregateComponents(sub, parts) },
+    componentMarks: { ...data.componentMarks, [sub.key]: parts },
+  };
+};
+
+// Fills in the weighted subject marks for a scanned sheet that was read component by component.
+export const withComponentTotals = (sheet: ExtractedSheet, subjects: Subject[]): ExtractedSheet => ({
+  ...sheet,
+  marks: {
+    ...sheet.marks,
+    ...Object.fromEntries(subjects
+      .filter(sub => hasComponents(sub) && sheet.componentMarks?.[sub.key])
+      .map(sub => [sub.key, aggregateComponents(sub, sheet.componentMarks![sub.key])])),
+  },
+});
+
+// "Theory 52/70 • Practical 24/30" for a subject marked in components, else an empty string.
+export const componentBreakdown = (sub: Subject, student: Student): string => {
+  const parts = hasComponents(sub) ? student.componentMarks?.[sub.key] : undefined;
+  return parts ? sub.components!.map(c => `${COMPONENT_LABELS[c.kind]} ${parts[c.kind] ?? 0}/${c.maxMarks}`).join(' • ') : '';
+};
+
+export const componentWeight = (sub: Subject): number => (sub.components || []).reduce((sum, c) => sum + c.weight, 0);
+
+// Why a subject's components cannot be saved, or null when they can.
+export const componentError = (subjects: Subject[]): string | null => {
+  for (const sub of subjects.filter(hasComponents)) {
+    const kinds = sub.components!.map(c => c.kind);
+    if (new Set(kinds).size !== kinds.length) return `${sub.name || 'A subject'} lists the same component twice.`;
+    if (sub.components!.some(c => c.maxMarks < 1)) return `${sub.name || 'A subject'} has a component without maximum marks.`;
+    if (sub.components!.some(c => c.passMarks !== undefined && c.passMarks > c.maxMarks)) return `${sub.name || 'A subject'} has a component pass mark above its maximum.`;
+    if (componentWeight(sub) !== 100) return `${sub.name || 'A subject'}: component weights add up to ${componentWeight(sub)}%, not 100%.`;
+  }
+  return null;
+};
+
+export const schemeFor = (exam: Exam | undefined, schemes: GradingScheme[]): GradingScheme =>
+  schemes.find(g => g.id === exam?.gradingSchemeId) || DEFAULT_GRADING_SCHEME;
+
+export const statusBadgeClass = (status: ResultStatus): string =>
+  status === 'Pass' ? 'bg-green-100 text-green-600 border-green-200'
+  : status === 'Compartment' ? 'bg-amber-100 text-amber-600 border-amber-200'
+  : 'bg-red-100 text-red-600 border-red-200';
+
+export const DEFAULT_SUBJECTS: Subject[] = [
+  { key: 'math', name: 'Math', maxMarks: 100 },
+  { key: 'science', name: 'Science', maxMarks: 100 },
+  { key: 'english', name: 'English', maxMarks: 100 },
+  { key: 'history', name: 'History', maxMarks: 100 },
+  { key: 'computer', name: 'Computer', maxMarks: 100 },
+];
+
+export const toSubjectKey = (name: string, taken: string[]): string => {
+  const base = name.trim().toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_|_$/g, '') || 'subject';
+  let key = base;
+  for (let i = 2; taken.includes(key); i++) key = `${base}_${i}`;
+  return key;
+};
+
+export const examVisibility = (exam: Exam, now = Date.now()): ExamVisibility =>
+  !exam.published ? 'draft' : exam.publishAt && Date.parse(exam.publishAt) > now ? 'scheduled' : 'published';
+
+export const isExamPublished = (exam: Exam) => examVisibility(exam) === 'published';
+
+export const stampPublication = (exam: Exam, previous?: Exam): Exam =>
+  exam.published && !previous?.published ? { ...exam, publishedAt: new Date().toISOString() } : exam;
+
+// Counted from the scheduled publish time, else from when the exam was published. Exams published
+// before publishedAt was recorded count from their creation.
+export const reevaluationDeadline = (exam: Exam): Date | null =>
+  exam.reevaluationDays ? new Date(Date.parse(exam.publishAt || exam.publishedAt || exam.createdAt) + exam.reevaluationDays * 86_400_000) : null;
+
+// Why a new request for a result cannot be filed, or null when it can. The server applies the same rules.
+export const reevaluationBlocker = (exam: Exam, requests: ReevaluationRequest[], now = Date.now()): string | null => {
+  const deadline = reevaluationDeadline(exam);
+  if (!deadline || !isExamPublished(exam)) return 'This exam does not accept re-evaluation requests.';
+  if (deadline.getTime() < now) return `Re-evaluation requests closed on ${deadline.toLocaleDateString()}.`;
+  if (requests.some(r => r.status === 'pending')) return 'A re-evaluation request for this result is already being reviewed.';
+  return null;
+};
+
+export const createReevaluationRequest = (student: Student, subjects: string[], reason: string): ReevaluationRequest => ({
+  id: crypto.randomUUID(),
+  studentId: student.id,
+  examId: student.examId,
+  studentName: student.name,
+  rollNo: student.rollNo,
+  subjects,
+  reason: reason.trim(),
+  status: 'pending',
+  submittedAt: new Date().toISOString(),
+});
+
+// datetime-local inputs work in local time without a zone; publishAt is stored as an ISO timestamp.
+export const toLocalDateTime = (iso: string): string => {
+  const date = new Date(iso);
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60_000).toISOString().slice(0, 16);
+};
+
+// Exams saved before subjects were configurable fall back to the original five 100-mark papers.
+export const normalizeExam = (exam: Exam): Exam => ({
+  ...exam,
+  subjects: exam.subjects?.length ? exam.subjects : DEFAULT_SUBJECTS,
+});
+
+// Keys are derived from subject names when an exam is created, so marks read naturally in storage.
+export const finalizeSubjects = (subjects: Subject[]): Subject[] =>
+  subjects.reduce<Subject[]>((acc, sub) => [...acc, { ...sub, name: sub.name.trim(), key: toSubjectKey(sub.name, acc.map(a => a.key)) }], []);
+
+export const emptyMarks = (subjects: Subject[]): Marks =>
+  Object.fromEntries(subjects.filter(sub => !sub.optional).map(sub => [sub.key, 0]));
+
+export const processStudentData = (data: Partial<Student>, subjects: Subject[] = DEFAULT_SUBJECTS, scheme: GradingScheme = DEFAULT_GRADING_SCHEME): Student => {
+  const source = data.marks || {};
+  const m: Marks = {};
+  const components: Record<string, ComponentMarks> = {};
+  subjects.forEach(sub => {
+    // Records entered before a subject was split keep their single mark.
+    const parts = hasComponents(sub) ? data.componentMarks?.[sub.key] : undefined;
+    if (parts) {
+      components[sub.key] = Object.fromEntries(sub.components!.map(c => [c.kind, Number(parts[c.kind]) || 0]));
+      m[sub.key] = aggregateComponents(sub, components[sub.key]);
+      return;
+    }
+    if (sub.optional && (source[sub.key] === undefined || source[sub.key] === null)) return;
+    m[sub.key] = Number(source[sub.key]) || 0;
+  });
+  const total = Object.values(m).reduce((a, b) => a + b, 0);
+  const maxTotal = subjects.filter(sub => m[sub.key] !== undefined).reduce((a, sub) => a + sub.maxMarks, 0);
+  const percentage = maxTotal ? Number((total / maxTotal * 100).toFixed(2)) : 0;
+  const taken = subjects.filter(sub => m[sub.key] !== undefined);
+  // Falling short in any component with its own pass mark fails the subject.
+  const failedSubjects = taken.filter(sub => m[sub.key] < passMarkFor(sub, scheme) || failedComponents(sub, components[sub.key]).length).map(sub => sub.key);
+  const status: ResultStatus = percentage < scheme.overallPassPercentage || failedSubjects.length > scheme.compartmentLimit ? 'Fail'
+    : failedSubjects.length > 0 ? 'Compartment' : 'Pass';
+  const gradePoint = taken.length
+    ? Number((taken.reduce((a, sub) => a + findBand(m[sub.key] / sub.maxMarks * 100, scheme).gradePoint, 0) / taken.length).toFixed(2))
+    : 0;
+  return {
+    ...data,
+    id: data.id || crypto.randomUUID(),
+    name: data.name || '',
+    rollNo: data.rollNo || '',
+    className: data.className || '',
+    examId: data.examId || '',
+    marks: m,
+    componentMarks: Object.keys(components).length ? components : undefined,
+    total,
+    maxTotal,
+    percentage,
+    // A failed result takes the lowest band whatever its aggregate; a compartment keeps its grade, and its
+    // status and failed subjects show what is left to clear.
+    grade: status === 'Fail' ? failingBand(scheme).grade : calculateGrade(percentage, scheme),
+    gradePoint,
+    status,
+    failedSubjects,
+  } as Student;
+};
+
+export const downloadFile = (content: BlobPart, fileName: string, type: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  a.click();
+  URL.revokeObjectURL(url);
+};
+
+// Parsed JSON from outside the app; anything but a plain object reads as having no fields.
+export const asRecord = (value: unknown): Record<string, unknown> =>
+  value && typeof value === 'object' && !Array.isArray(value) ? value as Record<string, unknown> : {};
+
+// Records saved before per-exam subjects or grading schemes lack the derived fields; recompute them.
+export const normalizeStudents = (students: Student[], exams: Exam[], schemes: GradingScheme[]): Student[] =>
+  students.map(st => {
+    if (st.maxTotal !== undefined && st.status !== undefined) return st;
+    const ex = exams.find(x => x.id === st.examId);
+    return processStudentData(st, ex?.subjects || DEFAULT_SUBJECTS, schemeFor(ex, [...BUILT_IN_GRADING_SCHEMES, ...schemes]));
+  });
+
+// Records saved before students referenced Exam.id carry the folder name instead. Links them by name,
+// creating a folder for any name that no longer has one so no record is orphaned.
+export const linkStudentsToExams = (students: unknown[], exams: Exam[]): { students: Student[]; exams: Exam[] } => {
+  const linkedExams = [...exams];
+  // Callers check the rest of each record; only the link to its exam is read here.
+  const linked = students.map(record => {
+    const { examName, ...st } = asRecord(record);
+    if (typeof st.examId === 'string' && st.examId) return st as unknown as Student;
+    const name = typeof examName === 'string' ? examName : '';
+    let exam = linkedExams.find(e => e.name === name);
+    if (!exam) {
+      exam = normalizeExam({ id: crypto.randomUUID(), name: name || 'Standard Exam', createdAt: new Date().toISOString(), subjects: [] });
+      linkedExams.push(exam);
+    }
+    return { ...st, examId: exam.id } as unknown as Student;
+  });
+  return { students: linked, exams: linkedExams };
+};
+
+export const sameRollNo = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+// Roll numbers are unique within an exam; returns the other record holding this one, if any.
+export const findRollConflict = (record: Student, students: Student[]): Student | undefined =>
+  students.find(st => st.id !== record.id && st.examId === record.examId && sameRollNo(st.rollNo, record.rollNo));
+
+const conflictValues = (s: Student, subjects: Subject[]): Record<string, string | number | undefined> =>
+  ({ name: s.name, className: s.className, ...Object.fromEntries(subjects.map(sub => [sub.key, s.marks[sub.key]])) });
+
+// Merging starts from the incoming value wherever it adds something: non-empty text, or a mark that is not a blank 0.
+export const defaultConflictPicks = ({ existing, incoming }: RollConflict, subjects: Subject[]): ConflictPicks => {
+  const current = conflictValues(existing, subjects);
+  return Object.fromEntries(Object.entries(conflictValues(incoming, subjects)).map(([key, value]) =>
+    [key, value === undefined || value === '' || (value === 0 && current[key] !== undefined) ? 'existing' : 'incoming']));
+};
+
+// Keeps the existing record's id and history; a subject's component marks come from the same side as its mark.
+export const mergeConflict = ({ existing, incoming }: RollConflict, subjects: Subject[], picks: ConflictPicks): Student => {
+  const from = (key: string) => picks[key] === 'incoming' ? incoming : existing;
+  const marks: Marks = {};
+  const componentMarks: Record<string, ComponentMarks> = {};
+  subjects.forEach(sub => {
+    const value = from(sub.key).marks[sub.key];
+    const parts = from(sub.key).componentMarks?.[sub.key];
+    if (value !== undefined) marks[sub.key] = value;
+    if (parts) componentMarks[sub.key] = parts;
+  });
+  return { ...existing, name: from('name').name, className: from('className').className, marks, componentMarks };
+};
+
+export const EMPTY_TABLE_FILTERS: StudentTableFilters = { query: '', className: '', grade: '', status: '' };
+export const TABLE_PAGE_SIZES = [25, 50, 100];
+
+export const filterStudents = <T extends Student>(list: T[], filters: StudentTableFilters): T[] => {
+  const q = filters.query.trim().toLowerCase();
+  return list.filter(s =>
+    (!q || s.name.toLowerCase().includes(q) || s.rollNo.toLowerCase().includes(q)) &&
+    (!filters.className || s.className === filters.className) &&
+    (!filters.grade || s.grade === filters.grade) &&
+    (!filters.status || s.status === filters.status));
+};
+
+export const studentComparator = (key: StudentSortKey) => (a: RankedStudent, b: RankedStudent): number => {
+  switch (key) {
+    case 'name': return a.name.localeCompare(b.name);
+    case 'rollNo': return a.rollNo.localeCompare(b.rollNo, undefined, { numeric: true });
+    case 'score': return a.percentage - b.percentage;
+    case 'rank': return byRank(a, b);
+    case 'grade': return a.gradePoint - b.gradePoint || a.percentage - b.percentage;
+  }
+};
+
+// Re-grades records for another exam; those whose roll number is already taken there are skipped.
+export const transferResults = (records: RankedStudent[], target: Exam, scheme: GradingScheme, existing: Student[], mode: TransferMode) => {
+  const transferred: Student[] = [];
+  const skipped: Student[] = [];
+  records.forEach(({ rank, ...st }) => {
+    const record = processStudentData({ ...st, id: mode === 'copy' ? crypto.randomUUID() : st.id, examId: target.id }, target.subjects, scheme);
+    if (findRollConflict(record, [...existing, ...transferred])) skipped.push(record);
+    else transferred.push(record);
+  });
+  return { transferred, skipped };
+};
+
+// Derived from marks, so changes to them are implied by the marks themselves.
+const DERIVED_FIELDS = ['rank', 'total', 'maxTotal', 'percentage', 'grade', 'gradePoint', 'status', 'failedSubjects'];
+
+const formatAuditValue = (value: unknown): string =>
+  value === undefined || value === null || value === '' ? '—' : typeof value === 'object' ? JSON.stringify(value) : String(value);
+
+const flattenRemarks = (remarks: StudentRemarks): [string, string][] =>
+  [['remarks', remarks.overall], ['remarks.status', remarks.status], ...Object.entries(remarks.subjects).map(([k, v]): [string, string] => [`remarks.${k}`, v])];
+
+// Field-by-field differences between two versions of a record; marks, component marks and remarks are compared per subject.
+export const describeChanges = (before: object = {}, after: object = {}): AuditChange[] => {
+  const flatten = (record: object) => Object.fromEntries(Object.entries(record)
+    .filter(([key]) => !DERIVED_FIELDS.includes(key))
+    .flatMap(([key, value]) => key === 'marks' ? Object.entries(value as Marks).map(([k, v]) => [`marks.${k}`, v])
+      : key === 'componentMarks' && value ? Object.entries(value as Record<string, ComponentMarks>)
+        .flatMap(([k, parts]) => Object.entries(parts).map(([kind, v]) => [`componentMarks.${k}.${kind}`, v]))
+      : key === 'remarks' && value ? flattenRemarks(value as StudentRemarks)
+      : [[key, value]]));
+  const from = flatten(before);
+  const to = flatten(after);
+  return [...new Set([...Object.keys(from), ...Object.keys(to)])]
+    .filter(field => formatAuditValue(from[field]) !== formatAuditValue(to[field]))
+    .map(field => ({ field, from: formatAuditValue(from[field]), to: formatAuditValue(to[field]) }));
+};
+
+export const CHANGE_SOURCE_LABELS: Record<ChangeSource, string> = { manual: 'Manual', scan: 'AI Scan', import: 'Import', suggestion: 'Suggested Remarks', reevaluation: 'Re-evaluation', backup: 'Backup Restore' };
+
+export const createAuditEntry = (user: UserAccount, action: AuditAction, source: ChangeSource, before?: Student | Exam, after?: Student | Exam): AuditEntry => {
+  const record = (after || before)!;
+  const student = 'marks' in record ? record : null;
+  return {
+    id: crypto.randomUUID(),
+    at: new Date().toISOString(),
+    userId: user.id,
+    userName: user.displayName,
+    entity: student ? 'student' : 'exam',
+    entityId: record.id,
+    examId: student ? student.examId : record.id,
+    label: student ? `${student.name} (Roll ${student.rollNo})` : record.name,
+    action,
+    source,
+    before,
+    after,
+  };
+};
+
+export const registryKey = (name: string, rollNo: string) => `${rollNo.trim().toLowerCase()}|${name.trim().toLowerCase()}`;
+
+// Links results without a profileId to the registry entry with the same name and roll number,
+// creating an entry where none exists. Returns the linked results and the entries it created.
+export const linkResultsToRegistry = (results: Student[], profiles: StudentProfile[]): { students: Student[]; created: StudentProfile[] } => {
+  const byKey = new Map(profiles.map(p => [registryKey(p.name, p.rollNo), p]));
+  const created: StudentProfile[] = [];
+  const students = results.map(r => {
+    if (r.profileId) return r;
+    const key = registryKey(r.name, r.rollNo);
+    let profile = byKey.get(key);
+    if (!profile) {
+      profile = { id: crypto.randomUUID(), name: r.name.trim(), rollNo: r.rollNo.trim(), className: r.className, createdAt: new Date().toISOString() };
+      byKey.set(key, profile);
+      created.push(profile);
+    }
+    return { ...r, profileId: profile.id };
+  });
+  return { students, created };
+};
+
+export const formatExamDate = (isoDate: string): string =>
+  new Date(`${isoDate}T00:00:00`).toLocaleDateString(undefined, { day: 'numeric', month: 'short', year: 'numeric' });
+
+export const examDetails = (exam: Exam): string =>
+  [exam.academicYear, exam.term, exam.examDate && formatExamDate(exam.examDate)].filter(Boolean).join(' • ');
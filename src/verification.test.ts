@@ -0,0 +1,45 @@
+import { createHash } from 'node:crypto';
+import { describe, expect, it } from 'vitest';
+import { computeVerificationCode, formatVerificationCode, verificationCodeMatches, verificationPayloads } from './verification';
+
+const EXAM = { id: 'e1', name: 'Final' };
+const ANN = { rollNo: ' A-1 ', name: 'Ann', marks: { science: 80, math: 72 }, total: 152, maxTotal: 200, grade: 'A', status: 'Pass' as const };
+const SPLIT = { ...ANN, componentMarks: { science: { theory: 56, practical: 24 } } };
+
+const codeOf = (payload: string) => formatVerificationCode(createHash('sha256').update(payload).digest('hex'));
+
+describe('verification codes', () => {
+  it('formats the start of the digest as three groups of four', () => {
+    expect(formatVerificationCode('0a1b2c3d4e5f6789')).toBe('0A1B-2C3D-4E5F');
+  });
+
+  it('hashes the printed fields under the exam id', async () => {
+    const code = await computeVerificationCode(ANN, EXAM);
+    expect(code).toMatch(/^[0-9A-F]{4}-[0-9A-F]{4}-[0-9A-F]{4}$/);
+    expect(code).toBe(codeOf(JSON.stringify(['e1', 'a-1', 'Ann', [['math', 72], ['science', 80]], [], 152, 200, 'A', 'Pass'])));
+    expect(await computeVerificationCode({ ...ANN, marks: { math: 72, science: 80 } }, EXAM)).toBe(code);
+    expect(await computeVerificationCode(ANN, { ...EXAM, name: 'Renamed' })).toBe(code);
+  });
+
+  it('changes with any printed field, component marks included', async () => {
+    const code = await computeVerificationCode(SPLIT, EXAM);
+    expect(await computeVerificationCode(ANN, EXAM)).not.toBe(code);
+    expect(await computeVerificationCode({ ...SPLIT, componentMarks: { science: { theory: 57, practical: 23 } } }, EXAM)).not.toBe(code);
+    expect(await computeVerificationCode({ ...SPLIT, grade: 'A+' }, EXAM)).not.toBe(code);
+    expect(await computeVerificationCode(SPLIT, { ...EXAM, id: 'e2' })).not.toBe(code);
+  });
+
+  it('matches codes whatever their case and surrounding spaces', async () => {
+    const code = await computeVerificationCode(ANN, EXAM);
+    expect(await verificationCodeMatches(ANN, EXAM, ` ${code.toLowerCase()} `)).toBe(true);
+    expect(await verificationCodeMatches({ ...ANN, total: 151 }, EXAM, code)).toBe(false);
+  });
+
+  it('still accepts codes hashed by exam name, only for results without component marks', async () => {
+    const legacy = codeOf(JSON.stringify(['Final', 'a-1', 'Ann', [['math', 72], ['science', 80]], 152, 200, 'A', 'Pass']));
+    expect(verificationPayloads(ANN, EXAM)).toHaveLength(2);
+    expect(await verificationCodeMatches(ANN, EXAM, legacy)).toBe(true);
+    expect(await verificationCodeMatches(ANN, { ...EXAM, name: 'Renamed' }, legacy)).toBe(false);
+    expect(verificationPayloads(SPLIT, EXAM)).toHaveLength(1);
+  });
+});
@@ -0,0 +1,42 @@
+import { Exam, Student } from './types';
+
+// The fields a marksheet prints; the API server checks codes against its stored records with the same payloads.
+export type VerifiableResult = Pick<Student, 'rollNo' | 'name' | 'marks' | 'componentMarks' | 'total' | 'maxTotal' | 'grade' | 'status'>;
+export type VerifiableExam = Pick<Exam, 'id' | 'name'>;
+
+const sortedEntries = <T>(record: Record<string, T>): [string, T][] =>
+  Object.keys(record).sort().map(k => [k, record[k]]);
+
+// What a code is the SHA-256 hash of, newest first. Codes printed before exams were hashed by id, rather than by
+// their name, still verify for results without component marks, which those codes did not cover.
+export const verificationPayloads = (student: VerifiableResult, exam: VerifiableExam): string[] => {
+  const roll = student.rollNo.trim().toLowerCase();
+  const current = JSON.stringify([
+    exam.id, roll, student.name,
+    sortedEntries(student.marks),
+    sortedEntries(student.componentMarks || {}).map(([key, parts]) => [key, sortedEntries(parts)]),
+    student.total, student.maxTotal, student.grade, student.status,
+  ]);
+  if (student.componentMarks) return [current];
+  return [current, JSON.stringify([exam.name, roll, student.name, sortedEntries(student.marks), student.total, student.maxTotal, student.grade, student.status])];
+};
+
+export const formatVerificationCode = (hexDigest: string): string =>
+  hexDigest.toUpperCase().slice(0, 12).match(/.{4}/g)!.join('-');
+
+const hashPayload = async (payload: string): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(payload));
+  return formatVerificationCode(Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join(''));
+};
+
+// Hashes the fields printed on a marksheet, so any later change to the stored record changes the code.
+export const computeVerificationCode = (student: VerifiableResult, exam: VerifiableExam): Promise<string> =>
+  hashPayload(verificationPayloads(student, exam)[0]);
+
+export const verificationCodeMatches = async (student: VerifiableResult, exam: VerifiableExam, code: string): Promise<boolean> => {
+  const entered = code.trim().toUpperCase();
+  for (const payload of verificationPayloads(student, exam)) {
+    if (await hashPayload(payload) === entered) return true;
+  }
+  return false;
+};
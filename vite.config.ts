@@ -1,18 +1,45 @@
+import fs from 'fs';
 import path from 'path';
-import { defineConfig, loadEnv } from 'vite';
+import { createHash } from 'crypto';
+import { defineConfig, loadEnv, Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
 
+// Emits service-worker.js as sw.js, precaching every file of the build so the app opens offline.
+// Built file names carry content hashes, so their list also names the cache.
+const serviceWorker = (): Plugin => ({
+  name: 'eduresult-service-worker',
+  apply: 'build',
+  generateBundle(_options, bundle) {
+    const publicFiles = fs.readdirSync(path.resolve(__dirname, 'public'));
+    const files = ['/', ...[...Object.keys(bundle).filter(file => file !== 'index.html'), ...publicFiles].map(file => `/${file}`)];
+    const version = createHash('sha256').update(files.join('\n')).digest('hex').slice(0, 12);
+    const source = fs.readFileSync(path.resolve(__dirname, 'service-worker.js'), 'utf8')
+      .replace('__CACHE_NAME__', JSON.stringify(`eduresult-${version}`))
+      .replace('__PRECACHE_FILES__', JSON.stringify(files));
+    this.emitFile({ type: 'asset', fileName: 'sw.js', source });
+  },
+});
+
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
+    // In server mode the API server proxies Gemini, so the key stays out of the client bundle.
+    const apiKey = env.DATA_MODE === 'server' ? '' : env.GEMINI_API_KEY;
     return {
       server: {
         port: 3000,
         host: '0.0.0.0',
+        proxy: {
+          '/api': `http://localhost:${env.SERVER_PORT || 4000}`,
+        },
       },
-      plugins: [react()],
+      plugins: [react(), serviceWorker()],
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.API_KEY': JSON.stringify(apiKey),
+        'process.env.GEMINI_API_KEY': JSON.stringify(apiKey),
+        'process.env.GEMINI_MODEL': JSON.stringify(env.GEMINI_MODEL || ''),
+        'process.env.EXTRACTION_PROVIDER': JSON.stringify(env.EXTRACTION_PROVIDER || ''),
+        'process.env.DATA_MODE': JSON.stringify(env.DATA_MODE || ''),
+        'process.env.API_BASE_URL': JSON.stringify(env.API_BASE_URL || '')
       },
       resolve: {
         alias: {